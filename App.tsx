@@ -1,19 +1,83 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
-import { SlideData, Rect, TextOverlay, ErasePath } from './types';
-import { convertPdfToImages, downloadAsPdf } from './services/pdfService';
-import { downloadAsPpt } from './services/pptService';
-import { removeAllTextFromSlide, removeTextFromImage } from './services/geminiService';
+import { SlideData, Rect, TextOverlay, ErasePath, CustomFont, FontOption, Guide, GuideScope } from './types';
+import { downloadAsPdf, PdfExportMode } from './services/pdfService';
+import { downloadAsPpt, PptExportMode } from './services/pptService';
+import { convertFilesToSlides, IMPORT_ACCEPT, isImportableFile } from './services/importService';
+import { detectTextBlocks, removeTextFromImage } from './services/geminiService';
+import { INPAINT_ENGINE_LABELS, InpaintEngine, inpaintDataUrl } from './services/inpaintService';
 import { loadImage, readFileAsDataUrl } from './services/imageUtils';
-import { createOverlayId } from './utils/id';
+import { createId, createOverlayId } from './utils/id';
 import { renderSlideToCanvas } from './services/slideRenderService';
+import { readFontFile, registerCustomFonts } from './services/fontService';
+import { loadProjectFile, saveProjectFile } from './services/projectService';
+import { PROJECT_FILE_EXTENSION } from './utils/projectFormat';
+import {
+  AutosaveSessionSummary,
+  clearAutosaveSessions,
+  deleteAutosaveSession,
+  listAutosaveSessions,
+  loadAutosaveSession,
+  saveAutosaveSession
+} from './services/autosaveService';
+import { AUTOSAVE_DEBOUNCE_MS, BUILTIN_FONTS, HISTORY_COALESCE_MS, HISTORY_LIMIT, HISTORY_MAX_BYTES, PASTE_OFFSET } from './constants';
 import EditorCanvas from './components/EditorCanvas';
 import Sidebar from './components/Sidebar';
 import SlidePanel from './components/SlidePanel';
+import RecoveryDialog from './components/RecoveryDialog';
+import ImportDialog from './components/ImportDialog';
+import BatchRemovePanel, { BatchRemoveResult } from './components/BatchRemovePanel';
+import DetectionReviewPanel from './components/DetectionReviewPanel';
+import ArrangeToolbar from './components/ArrangeToolbar';
+import FindReplacePanel from './components/FindReplacePanel';
+import LayersPanel from './components/LayersPanel';
+import HistoryPanel from './components/HistoryPanel';
+import TranslatePanel, { TranslationResult } from './components/TranslatePanel';
 import { extractConnectedMaskRects } from './utils/eraseMask';
-import { duplicateSlideAtIndex } from './utils/slideOperations';
+import {
+  duplicateSlideAtIndex,
+  insertSlides,
+  keepOriginal,
+  renumberSlides,
+  revertSlideToOriginal,
+  SlideInsertPlacement
+} from './utils/slideOperations';
+import { detectedBlocksToOverlays } from './utils/textDetection';
+import { FindOptions, replaceInSlides } from './utils/findReplace';
+import { matchFontFamily } from './utils/fontMatching';
+import {
+  AlignEdge,
+  DistributeAxis,
+  alignOverlays,
+  countArrangeUnits,
+  distributeOverlays,
+  groupOverlays,
+  ungroupOverlays
+} from './utils/arrange';
+import {
+  OVERLAY_CLIPBOARD_MIME,
+  cloneOverlaysForPaste,
+  getPasteOffset,
+  parseOverlayClipboard,
+  serializeOverlayClipboard
+} from './utils/clipboard';
+import { isOverlayEditable } from './utils/layers';
+import {
+  DeckHistory,
+  HistoryCheckpoint,
+  canRedo,
+  canUndo,
+  createHistory,
+  createHistoryFromSnapshots,
+  getHistorySnapshots,
+  getOverlayEditKey,
+  jumpToHistory,
+  pushHistory,
+  redoHistory,
+  undoHistory
+} from './utils/history';
 import {
   FileUp,
   Download,
@@ -30,40 +94,106 @@ import {
   Check,
   X,
   Paintbrush,
-  CircleOff
+  CircleOff,
+  FolderOpen,
+  Save,
+  ScanText,
+  Replace,
+  Languages,
+  Layers,
+  History as HistoryIcon
 } from 'lucide-react';
 import { getKtCloudLogoByMode, getThemeByMode, toggleThemeMode, ThemeMode } from './theme';
 
 const App: React.FC = () => {
   // History State
-  const [history, setHistory] = useState<SlideData[][]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
+  const [history, setHistory] = useState<DeckHistory>(() => createHistory([]));
+  const [checkpoints, setCheckpoints] = useState<HistoryCheckpoint[]>([]);
 
   const [activeSlideIdx, setActiveSlideIdx] = useState(0);
   const [selection, setSelection] = useState<Rect | null>(null);
-  const [selectedOverlayId, setSelectedOverlayId] = useState<string | null>(null);
+  const [selectedOverlayIds, setSelectedOverlayIds] = useState<string[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [slidePanelCollapsed, setSlidePanelCollapsed] = useState(false);
   const [themeMode, setThemeMode] = useState<ThemeMode>('stripe');
+  const [pptExportMode, setPptExportMode] = useState<PptExportMode>('image');
+  const [pdfExportMode, setPdfExportMode] = useState<PdfExportMode>('image');
+  const [isBatchRemoveOpen, setIsBatchRemoveOpen] = useState(false);
+  const [isFindReplaceOpen, setIsFindReplaceOpen] = useState(false);
+  const [isTranslateOpen, setIsTranslateOpen] = useState(false);
+  const [isLayersOpen, setIsLayersOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [detectionDrafts, setDetectionDrafts] = useState<TextOverlay[]>([]);
+  const [highlightedDraftId, setHighlightedDraftId] = useState<string | null>(null);
+  const [isDetectingText, setIsDetectingText] = useState(false);
+  const [pendingImportFiles, setPendingImportFiles] = useState<File[] | null>(null);
+  const [projectName, setProjectName] = useState('untitled');
+  const [projectCreatedAt, setProjectCreatedAt] = useState<string | undefined>(undefined);
+  const [autosaveSessionId, setAutosaveSessionId] = useState<string | null>(null);
+  const [recoverySessions, setRecoverySessions] = useState<AutosaveSessionSummary[]>([]);
+  // What the last project save wrote; autosave leaves that exact state alone.
+  const savedStateRef = useRef<{ history: DeckHistory; fonts: CustomFont[]; guides: Guide[]; name: string } | null>(null);
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>([]);
+  const [deckGuides, setDeckGuides] = useState<Guide[]>([]);
 
   // Draft overlay state for preview (lifted from Sidebar)
   const [draftOverlay, setDraftOverlay] = useState<Partial<TextOverlay> | null>(null);
   const [isEraseMode, setIsEraseMode] = useState(false);
   const [eraseTool, setEraseTool] = useState<'add' | 'remove'>('add');
   const [eraseBrushSize, setEraseBrushSize] = useState(28);
+  const [eraseEngine, setEraseEngine] = useState<InpaintEngine>('gemini');
   const [erasePaths, setErasePaths] = useState<ErasePath[]>([]);
   const [eraseRedoPaths, setEraseRedoPaths] = useState<ErasePath[]>([]);
 
   // Helper to access current slides from history
-  const currentSlides = historyIndex >= 0 ? history[historyIndex] : [];
+  const currentSlides = history.present;
+  // The sidebar and single-overlay tools only see a selection of exactly one overlay.
+  const selectedOverlayId = selectedOverlayIds.length === 1 ? selectedOverlayIds[0] : null;
+  const setSelectedOverlayId = (id: string | null) => setSelectedOverlayIds(id ? [id] : []);
   const theme = getThemeByMode(themeMode);
   const ciLogoSrc = getKtCloudLogoByMode(themeMode);
 
-  const updateHistory = (newSlides: SlideData[]) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newSlides);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+  // Detection drafts belong to the slide they were detected on.
+  useEffect(() => {
+    setDetectionDrafts([]);
+    setHighlightedDraftId(null);
+  }, [activeSlideIdx]);
+
+  // Offer to restore autosaved sessions on startup
+  useEffect(() => {
+    listAutosaveSessions()
+      .then(setRecoverySessions)
+      .catch((error) => console.error('Failed to read autosave sessions', error));
+  }, []);
+
+  // Debounced autosave of the current deck and its undo history. A state that was just saved as a
+  // project is skipped, so a pending autosave cannot bring back the session the save removed.
+  useEffect(() => {
+    if (!autosaveSessionId || currentSlides.length === 0) return;
+    const timeoutId = window.setTimeout(() => {
+      const saved = savedStateRef.current;
+      if (saved && saved.history === history && saved.fonts === customFonts && saved.guides === deckGuides && saved.name === projectName) return;
+      saveAutosaveSession(autosaveSessionId, projectName, history, customFonts, deckGuides)
+        .catch((error) => console.error('Autosave failed', error));
+    }, AUTOSAVE_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeoutId);
+  }, [autosaveSessionId, projectName, history, customFonts, deckGuides]);
+
+  const fontOptions: FontOption[] = [
+    ...BUILTIN_FONTS,
+    ...customFonts.map((font) => ({ name: font.family, value: font.family })),
+  ];
+
+  const updateHistory = (newSlides: SlideData[], label: string, coalesceKey: string | null = null) => {
+    setHistory((prev) =>
+      pushHistory(prev, newSlides, {
+        label,
+        limit: HISTORY_LIMIT,
+        maxBytes: HISTORY_MAX_BYTES,
+        coalesceWindowMs: HISTORY_COALESCE_MS,
+        coalesceKey,
+      })
+    );
   };
 
   const resetEraseMode = () => {
@@ -73,11 +203,6 @@ const App: React.FC = () => {
     setEraseRedoPaths([]);
   };
 
-  const cloneSlideWithOverlays = (slide: SlideData): SlideData => ({
-    ...slide,
-    overlays: slide.overlays.map((overlay) => ({ ...overlay, rect: { ...overlay.rect } })),
-  });
-
   const renderEraseMaskData = (slide: SlideData, paths: ErasePath[]): Uint8ClampedArray => {
     const canvas = document.createElement('canvas');
     canvas.width = slide.width;
@@ -147,35 +272,52 @@ const App: React.FC = () => {
     return canvas.toDataURL('image/png');
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    const supported = files.filter(isImportableFile);
+    if (supported.length < files.length) {
+      alert('지원하지 않는 형식의 파일은 제외되었습니다.');
+    }
+    if (supported.length > 0) setPendingImportFiles(supported);
+  };
+
+  const handleImportConfirm = async (files: File[], placement: SlideInsertPlacement, extractPdfText: boolean) => {
+    // Replacing cannot be undone: the history, checkpoints, fonts and guides of the current deck go with it.
+    if (
+      placement === 'replace' &&
+      currentSlides.length > 0 &&
+      !window.confirm('현재 슬라이드와 작업 기록, 체크포인트, 추가한 글꼴, 안내선이 모두 지워집니다. 새 파일로 바꾸시겠습니까?')
+    ) return;
+    setPendingImportFiles(null);
     setIsProcessing(true);
     try {
-      let newSlides: SlideData[] = [];
-      if (file.type === 'application/pdf') {
-        newSlides = await convertPdfToImages(file);
-      } else if (file.type.startsWith('image/')) {
-        const imageDataUrl = await readFileAsDataUrl(file);
-        const img = new Image();
-        img.src = imageDataUrl;
-        await new Promise((resolve, reject) => {
-          img.onload = resolve;
-          img.onerror = () => reject(new Error("Failed to load uploaded image."));
-        });
-        newSlides = [{
-          index: 0,
-          dataUrl: imageDataUrl,
-          width: img.width,
-          height: img.height,
-          overlays: []
-        }];
+      const { slides: importedSlides, failed } = await convertFilesToSlides(files, { extractText: extractPdfText });
+      if (failed.length > 0) {
+        alert(`다음 파일을 변환하지 못했습니다:\n${failed.join('\n')}`);
       }
-
-      // Initialize History
-      setHistory([newSlides]);
-      setHistoryIndex(0);
-      setActiveSlideIdx(0);
+      if (importedSlides.length === 0) return;
+
+      const result = insertSlides(currentSlides, importedSlides.map(keepOriginal), placement, activeSlideIdx);
+      if (placement === 'replace' || currentSlides.length === 0) {
+        // A replaced deck starts a new document, so its history and autosave session start over too.
+        // Fonts and deck guides belonged to the replaced deck; ones added to an empty editor are kept.
+        setHistory(createHistory(result.slides));
+        setCheckpoints([]);
+        if (currentSlides.length > 0) {
+          setCustomFonts([]);
+          setDeckGuides([]);
+        }
+        setProjectName(files[0].name.replace(/\.[^.]+$/, '') || 'untitled');
+        setProjectCreatedAt(undefined);
+        setAutosaveSessionId(createId());
+      } else {
+        updateHistory(result.slides, `슬라이드 ${importedSlides.length}장 가져오기`);
+        if (!autosaveSessionId) setAutosaveSessionId(createId());
+      }
+      setActiveSlideIdx(result.insertedIndex);
+      setSelection(null);
       setSelectedOverlayId(null);
       resetEraseMode();
     } catch (err) {
@@ -186,9 +328,139 @@ const App: React.FC = () => {
     }
   };
 
+  const handleProjectOpen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsProcessing(true);
+    try {
+      const project = await loadProjectFile(file);
+      await registerCustomFonts(project.fonts || []);
+      setCustomFonts(project.fonts || []);
+      setDeckGuides(project.guides || []);
+      setHistory(
+        createHistoryFromSnapshots(project.history, project.historyIndex, '이전 작업', project.historyLabels, {
+          limit: HISTORY_LIMIT,
+          maxBytes: HISTORY_MAX_BYTES,
+        })
+      );
+      setCheckpoints(project.checkpoints || []);
+      setActiveSlideIdx(0);
+      setSelection(null);
+      setSelectedOverlayId(null);
+      setProjectName(project.name);
+      setProjectCreatedAt(project.createdAt);
+      setAutosaveSessionId(createId());
+      resetEraseMode();
+    } catch (error: any) {
+      console.error(error);
+      const errorMsg = error?.message || error?.toString() || '알 수 없는 오류';
+      alert(`프로젝트를 불러오지 못했습니다.\n\n오류 상세: ${errorMsg}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRestoreSession = async (id: string) => {
+    const summary = recoverySessions.find((session) => session.id === id);
+    setRecoverySessions([]);
+    setIsProcessing(true);
+    try {
+      const session = await loadAutosaveSession(id);
+      await registerCustomFonts(session.fonts);
+      setCustomFonts(session.fonts);
+      setDeckGuides(session.guides);
+      setHistory(session.history);
+      setCheckpoints([]);
+      setActiveSlideIdx(0);
+      setSelection(null);
+      setSelectedOverlayId(null);
+      setProjectName(summary?.name || 'untitled');
+      setProjectCreatedAt(undefined);
+      setAutosaveSessionId(id);
+      resetEraseMode();
+    } catch (error) {
+      console.error(error);
+      alert('자동 저장된 작업을 복원하지 못했습니다.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDiscardSession = async (id: string) => {
+    setRecoverySessions((prev) => prev.filter((session) => session.id !== id));
+    try {
+      await deleteAutosaveSession(id);
+    } catch (error) {
+      console.error('Failed to discard autosave session', error);
+    }
+  };
+
+  const handleDiscardAllSessions = async () => {
+    if (!window.confirm('자동 저장된 모든 작업을 삭제하시겠습니까?')) return;
+    setRecoverySessions([]);
+    try {
+      await clearAutosaveSessions();
+    } catch (error) {
+      console.error('Failed to clear autosave sessions', error);
+    }
+  };
+
+  const handleProjectSave = async () => {
+    if (currentSlides.length === 0) return;
+    setIsProcessing(true);
+    try {
+      const createdAt = projectCreatedAt || new Date().toISOString();
+      const { snapshots, index, labels } = getHistorySnapshots(history);
+      await saveProjectFile(
+        {
+          name: projectName,
+          createdAt,
+          history: snapshots,
+          historyIndex: index,
+          historyLabels: labels,
+          checkpoints,
+          fonts: customFonts,
+          guides: deckGuides,
+        },
+        `${projectName}${PROJECT_FILE_EXTENSION}`
+      );
+      setProjectCreatedAt(createdAt);
+      // The deck is safe in the project file now, so it no longer needs to be offered for recovery.
+      savedStateRef.current = { history, fonts: customFonts, guides: deckGuides, name: projectName };
+      if (autosaveSessionId) {
+        deleteAutosaveSession(autosaveSessionId).catch((error) => console.error('Failed to remove saved autosave session', error));
+      }
+    } catch (error) {
+      console.error(error);
+      alert('프로젝트 저장 중 오류가 발생했습니다.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleAddFont = async (file: File): Promise<string | null> => {
+    try {
+      const font = await readFontFile(file, fontOptions.map((option) => option.value));
+      setCustomFonts((prev) => [...prev, font]);
+      return font.family;
+    } catch (error: any) {
+      console.error(error);
+      const errorMsg = error?.message || error?.toString() || '알 수 없는 오류';
+      alert(`폰트를 불러오지 못했습니다. TTF, OTF, WOFF 파일인지 확인하세요.\n\n오류 상세: ${errorMsg}`);
+      return null;
+    }
+  };
+
   const handleAddImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file || currentSlides.length === 0) return;
+    if (!file) return;
+    await addImageOverlay(file);
+  };
+
+  // Shared by the image upload button and images pasted from the system clipboard.
+  const addImageOverlay = async (file: Blob) => {
+    if (currentSlides.length === 0) return;
 
     try {
       const imageSrc = await readFileAsDataUrl(file);
@@ -232,7 +504,7 @@ const App: React.FC = () => {
     const newSlides = currentSlides.map((s, idx) =>
       idx === activeSlideIdx ? { ...s, overlays: [...s.overlays, overlay] } : s
     );
-    updateHistory(newSlides);
+    updateHistory(newSlides, overlay.type === 'image' ? '이미지 추가' : '텍스트 추가');
 
     if (keepSelection) {
       // Keep selection and advance to next slide for repeated application
@@ -247,11 +519,95 @@ const App: React.FC = () => {
     }
   };
 
-  const handleUpdateOverlays = (overlays: TextOverlay[]) => {
+  // Slide guides are part of the slide and go through history. Deck guides are an editor setting
+  // shared by every slide; history records slides only, so they change without an undo step
+  // (the canvas labels that scope accordingly).
+  const handleGuidesChange = (scope: GuideScope, guides: Guide[]) => {
+    if (scope === 'deck') {
+      setDeckGuides(guides);
+      return;
+    }
+    const newSlides = currentSlides.map((s, idx) =>
+      idx === activeSlideIdx ? { ...s, guides } : s
+    );
+    updateHistory(newSlides, '가이드 변경');
+  };
+
+  // Typing into an overlay or dragging it sends many updates; they coalesce into one undo step.
+  const handleUpdateOverlays = (overlays: TextOverlay[], label: string = '오버레이 편집') => {
+    const slide = currentSlides[activeSlideIdx];
+    if (!slide) return;
     const newSlides = currentSlides.map((s, idx) =>
       idx === activeSlideIdx ? { ...s, overlays } : s
     );
-    updateHistory(newSlides);
+    updateHistory(newSlides, label, getOverlayEditKey(activeSlideIdx, slide.overlays, overlays));
+  };
+
+  const handleDetectText = async () => {
+    const slide = currentSlides[activeSlideIdx];
+    if (!slide) return;
+    setIsDetectingText(true);
+    try {
+      const blocks = await detectTextBlocks(slide.dataUrl);
+      const drafts = detectedBlocksToOverlays(blocks, slide.width, slide.height, slide.overlays)
+        .map((draft) => ({ ...draft, fontFamily: matchFontFamily(draft.fontFamily, fontOptions) }));
+      if (drafts.length === 0) {
+        alert('새로 감지된 텍스트가 없습니다.');
+      }
+      setDetectionDrafts(drafts);
+      setSelection(null);
+      setSelectedOverlayId(null);
+    } catch (error: any) {
+      console.error(error);
+      const errorMsg = error?.message || error?.toString() || '알 수 없는 오류';
+      alert(`텍스트 감지에 실패했습니다.\n\n오류 상세: ${errorMsg}`);
+    } finally {
+      setIsDetectingText(false);
+    }
+  };
+
+  const handleAcceptDetections = (ids: string[]) => {
+    const accepted = detectionDrafts.filter((draft) => ids.includes(draft.id));
+    if (accepted.length === 0) return;
+    const newSlides = currentSlides.map((s, idx) =>
+      idx === activeSlideIdx ? { ...s, overlays: [...s.overlays, ...accepted] } : s
+    );
+    updateHistory(newSlides, `감지된 텍스트 ${accepted.length}개 추가`);
+    setDetectionDrafts((prev) => prev.filter((draft) => !ids.includes(draft.id)));
+  };
+
+  const handleRejectDetections = (ids: string[]) => {
+    setDetectionDrafts((prev) => prev.filter((draft) => !ids.includes(draft.id)));
+  };
+
+  const handleFindNavigate = (slideIndex: number, overlayId: string) => {
+    setActiveSlideIdx(slideIndex);
+    setSelection(null);
+    setSelectedOverlayId(overlayId);
+  };
+
+  // Every replacement across the deck lands as a single history step, so one undo reverts it.
+  const handleFindReplace = (options: FindOptions, replacement: string, selectedKeys: Set<string>) => {
+    const result = replaceInSlides(currentSlides, options, replacement, selectedKeys);
+    if (result.replacedCount === 0) return;
+    updateHistory(result.slides, `찾아 바꾸기 (${result.replacedCount}개)`);
+  };
+
+  // Translations from every slide land as one history step. Overlays deleted in the meantime are skipped.
+  const handleApplyTranslations = (results: TranslationResult[]) => {
+    const patchesBySlide = new Map(results.map((result) => [result.slideIndex, new Map(result.patches.map((patch) => [patch.id, patch]))]));
+    const newSlides = currentSlides.map((slide, index) => {
+      const patches = patchesBySlide.get(index);
+      if (!patches) return slide;
+      return {
+        ...slide,
+        overlays: slide.overlays.map((overlay) => {
+          const patch = patches.get(overlay.id);
+          return patch ? { ...overlay, ...patch } : overlay;
+        })
+      };
+    });
+    updateHistory(newSlides, '번역 적용');
   };
 
   const handleErasePathCommit = (path: ErasePath) => {
@@ -279,45 +635,122 @@ const App: React.FC = () => {
   };
 
   const handleUndo = useCallback(() => {
-    if (historyIndex > 0) {
-      setHistoryIndex(prev => prev - 1);
+    if (canUndo(history)) {
+      setHistory(undoHistory);
       setSelectedOverlayId(null);
     }
-  }, [historyIndex]);
+  }, [history]);
 
   const handleRedo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
-      setHistoryIndex(prev => prev + 1);
+    if (canRedo(history)) {
+      setHistory(redoHistory);
       setSelectedOverlayId(null);
     }
-  }, [historyIndex, history.length]);
+  }, [history]);
+
+  const handleHistoryJump = (position: number) => {
+    const next = jumpToHistory(history, position);
+    setHistory(next);
+    setActiveSlideIdx((prev) => Math.min(prev, Math.max(0, next.present.length - 1)));
+    setSelection(null);
+    setSelectedOverlayId(null);
+    resetEraseMode();
+  };
+
+  const handleAddCheckpoint = (name: string) => {
+    setCheckpoints((prev) => [...prev, { id: createId(), name, createdAt: Date.now(), slides: currentSlides }]);
+  };
+
+  // Restoring is a regular history step, so it can be undone like any other edit.
+  const handleRestoreCheckpoint = (id: string) => {
+    const checkpoint = checkpoints.find((item) => item.id === id);
+    if (!checkpoint) return;
+    updateHistory(checkpoint.slides, `체크포인트 "${checkpoint.name}" 복원`);
+    setActiveSlideIdx((prev) => Math.min(prev, checkpoint.slides.length - 1));
+    setSelection(null);
+    setSelectedOverlayId(null);
+    resetEraseMode();
+  };
+
+  const handleDeleteCheckpoint = (id: string) => {
+    setCheckpoints((prev) => prev.filter((item) => item.id !== id));
+  };
 
   const handleDeleteAll = () => {
     const newSlides = currentSlides.map((s, idx) =>
       idx === activeSlideIdx ? { ...s, overlays: [] } : s
     );
-    updateHistory(newSlides);
+    updateHistory(newSlides, `슬라이드 ${activeSlideIdx + 1} 오버레이 모두 삭제`);
     setSelectedOverlayId(null);
     resetEraseMode();
   };
 
+  const activeOverlays = currentSlides[activeSlideIdx]?.overlays || [];
+  // Locked layers can be selected from the layers panel but must stay where they are,
+  // so arranging, grouping, deleting and cutting only act on the editable part of the selection.
+  const arrangeableIds = activeOverlays
+    .filter((overlay) => selectedOverlayIds.includes(overlay.id) && isOverlayEditable(overlay))
+    .map((overlay) => overlay.id);
+
   const handleDeleteSelectedOverlay = useCallback(() => {
-    if (!selectedOverlayId) return;
+    if (arrangeableIds.length === 0) return;
     const slide = currentSlides[activeSlideIdx];
     if (!slide) return;
 
-    const overlays = slide.overlays.filter((overlay) => overlay.id !== selectedOverlayId);
+    const overlays = slide.overlays.filter((overlay) => !arrangeableIds.includes(overlay.id));
     const newSlides = currentSlides.map((s, idx) =>
       idx === activeSlideIdx ? { ...s, overlays } : s
     );
-    updateHistory(newSlides);
+    updateHistory(newSlides, '오버레이 삭제');
     setSelectedOverlayId(null);
     setSelection(null);
-  }, [selectedOverlayId, currentSlides, activeSlideIdx]);
+  }, [selectedOverlayIds, currentSlides, activeSlideIdx]);
+
+  const handleAlignOverlays = (edge: AlignEdge) => {
+    handleUpdateOverlays(alignOverlays(activeOverlays, arrangeableIds, edge), '정렬');
+  };
+
+  const handleDistributeOverlays = (axis: DistributeAxis) => {
+    handleUpdateOverlays(distributeOverlays(activeOverlays, arrangeableIds, axis), '간격 균등');
+  };
+
+  const handleGroupOverlays = useCallback(() => {
+    if (arrangeableIds.length < 2) return;
+    handleUpdateOverlays(groupOverlays(activeOverlays, arrangeableIds, createId()), '그룹');
+  }, [selectedOverlayIds, currentSlides, activeSlideIdx]);
+
+  // Pasted overlays land on the active slide, which may be a different one from where they were copied.
+  const handlePasteOverlays = (overlays: TextOverlay[], label: string = '붙여넣기') => {
+    const slide = currentSlides[activeSlideIdx];
+    if (!slide || overlays.length === 0) return;
+    const pasted = cloneOverlaysForPaste(overlays, getPasteOffset(slide.overlays, overlays, PASTE_OFFSET));
+    handleUpdateOverlays([...slide.overlays, ...pasted], label);
+    setSelection(null);
+    setSelectedOverlayIds(pasted.map((overlay) => overlay.id));
+  };
+
+  const handleDuplicateOverlays = useCallback(() => {
+    handlePasteOverlays(activeOverlays.filter((overlay) => selectedOverlayIds.includes(overlay.id)), '오버레이 복제');
+  }, [selectedOverlayIds, currentSlides, activeSlideIdx]);
+
+  const handleUngroupOverlays = useCallback(() => {
+    if (!activeOverlays.some((overlay) => selectedOverlayIds.includes(overlay.id) && overlay.groupId)) return;
+    handleUpdateOverlays(ungroupOverlays(activeOverlays, selectedOverlayIds), '그룹 해제');
+  }, [selectedOverlayIds, currentSlides, activeSlideIdx]);
 
   // Keyboard shortcuts for Undo/Redo
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'h') {
+        if (currentSlides.length > 0) {
+          setIsTranslateOpen(false);
+          setIsHistoryOpen(false);
+          setIsFindReplaceOpen(true);
+        }
+        e.preventDefault();
+        return;
+      }
+
       const target = e.target as HTMLElement;
       const isInput = target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || target?.isContentEditable;
       if (isInput) return;
@@ -334,14 +767,74 @@ const App: React.FC = () => {
         return;
       }
 
-      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedOverlayId) {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'd') {
+        if (selectedOverlayIds.length > 0 && !isEraseMode) handleDuplicateOverlays();
+        e.preventDefault();
+        return;
+      }
+
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'g') {
+        if (e.shiftKey) handleUngroupOverlays();
+        else handleGroupOverlays();
+        e.preventDefault();
+        return;
+      }
+
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedOverlayIds.length > 0) {
         handleDeleteSelectedOverlay();
         e.preventDefault();
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleUndo, handleRedo, handleDeleteSelectedOverlay, selectedOverlayId, isEraseMode]);
+  }, [handleUndo, handleRedo, handleDeleteSelectedOverlay, handleGroupOverlays, handleUngroupOverlays, handleDuplicateOverlays, selectedOverlayIds, isEraseMode, currentSlides.length]);
+
+  // Ctrl+C/X/V arrive as clipboard events, which are the only way to read and write a custom clipboard format.
+  useEffect(() => {
+    const isEditableTarget = (target: EventTarget | null) => {
+      const element = target as HTMLElement | null;
+      return element?.tagName === 'INPUT' || element?.tagName === 'TEXTAREA' || !!element?.isContentEditable;
+    };
+
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || !e.clipboardData || isEraseMode) return;
+      // Text highlighted elsewhere on the page is copied the normal way.
+      if (window.getSelection()?.isCollapsed === false) return;
+      // Cutting leaves locked and hidden layers in place, so only the layers it removes are copied.
+      const copiedIds = e.type === 'cut' ? arrangeableIds : selectedOverlayIds;
+      const overlays = activeOverlays.filter((overlay) => copiedIds.includes(overlay.id));
+      if (overlays.length === 0) return;
+
+      e.clipboardData.setData(OVERLAY_CLIPBOARD_MIME, serializeOverlayClipboard(overlays));
+      e.clipboardData.setData('text/plain', overlays.map((overlay) => overlay.newText).filter(Boolean).join('\n'));
+      e.preventDefault();
+      if (e.type === 'cut') handleDeleteSelectedOverlay();
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || !e.clipboardData || isEraseMode || currentSlides.length === 0) return;
+      const overlays = parseOverlayClipboard(e.clipboardData.getData(OVERLAY_CLIPBOARD_MIME));
+      if (overlays) {
+        handlePasteOverlays(overlays);
+        e.preventDefault();
+        return;
+      }
+      const imageFile = Array.from(e.clipboardData.files).find((file) => file.type.startsWith('image/'));
+      if (imageFile) {
+        addImageOverlay(imageFile);
+        e.preventDefault();
+      }
+    };
+
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('cut', handleCopy);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('copy', handleCopy);
+      window.removeEventListener('cut', handleCopy);
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, [selectedOverlayIds, currentSlides, activeSlideIdx, isEraseMode, handleDeleteSelectedOverlay]);
 
   const handleDownloadImages = async () => {
     if (currentSlides.length === 0) return;
@@ -375,7 +868,10 @@ const App: React.FC = () => {
     if (currentSlides.length === 0) return;
     setIsProcessing(true);
     try {
-      await downloadAsPdf(currentSlides, 'edited_slides.pdf');
+      const { unsearchableOverlayCount } = await downloadAsPdf(currentSlides, 'edited_slides.pdf', { mode: pdfExportMode, fonts: customFonts });
+      if (unsearchableOverlayCount > 0) {
+        alert(`PDF를 저장했습니다. 다만 텍스트 상자 ${unsearchableOverlayCount}개는 글자를 담은 TrueType(.ttf) 글꼴이 없어 검색되지 않습니다. 한글·일본어 글꼴(.ttf)을 추가한 뒤 다시 저장해 주세요.`);
+      }
     } catch (error) {
       console.error(error);
       alert('PDF 생성 중 오류가 발생했습니다.');
@@ -388,7 +884,7 @@ const App: React.FC = () => {
     if (currentSlides.length === 0) return;
     setIsProcessing(true);
     try {
-      await downloadAsPpt(currentSlides, 'edited_slides.pptx');
+      await downloadAsPpt(currentSlides, 'edited_slides.pptx', { mode: pptExportMode });
     } catch (error) {
       console.error(error);
       alert('PPT 생성 중 오류가 발생했습니다.');
@@ -399,8 +895,8 @@ const App: React.FC = () => {
 
   const handleSlideDelete = (index: number) => {
     if (currentSlides.length <= 1) return;
-    const newSlides = currentSlides.filter((_, i) => i !== index);
-    updateHistory(newSlides);
+    const newSlides = renumberSlides(currentSlides.filter((_, i) => i !== index));
+    updateHistory(newSlides, `슬라이드 ${index + 1} 삭제`);
     if (activeSlideIdx >= newSlides.length) {
       setActiveSlideIdx(newSlides.length - 1);
     } else if (activeSlideIdx > index) {
@@ -411,9 +907,19 @@ const App: React.FC = () => {
     resetEraseMode();
   };
 
+  const handleSlideRevert = (index: number) => {
+    const newSlides = currentSlides.map((slide, idx) => (idx === index ? revertSlideToOriginal(slide) : slide));
+    updateHistory(newSlides, `슬라이드 ${index + 1} 원본으로 되돌리기`);
+    if (index === activeSlideIdx) {
+      setSelection(null);
+      setSelectedOverlayId(null);
+      resetEraseMode();
+    }
+  };
+
   const handleSlideDuplicate = (index: number) => {
     const result = duplicateSlideAtIndex(currentSlides, index);
-    updateHistory(result.slides);
+    updateHistory(result.slides, `슬라이드 ${index + 1} 복제`);
     setActiveSlideIdx(result.insertedIndex);
     setSelection(null);
     setSelectedOverlayId(null);
@@ -424,7 +930,7 @@ const App: React.FC = () => {
     const newSlides = [...currentSlides];
     const [moved] = newSlides.splice(fromIndex, 1);
     newSlides.splice(toIndex, 0, moved);
-    updateHistory(newSlides);
+    updateHistory(renumberSlides(newSlides), `슬라이드 ${fromIndex + 1} 이동`);
     // Update active index to follow the active slide
     if (activeSlideIdx === fromIndex) {
       setActiveSlideIdx(toIndex);
@@ -466,22 +972,23 @@ const App: React.FC = () => {
       }
 
       let workingDataUrl = currentSlide.dataUrl;
-      for (const rect of targetRects) {
-        const cropped = await cropImageDataUrl(workingDataUrl, rect);
-        const cleaned = await removeTextFromImage(cropped);
-        if (cleaned) {
-          workingDataUrl = await pasteImageDataUrl(workingDataUrl, cleaned, rect);
+      if (eraseEngine === 'local') {
+        workingDataUrl = await inpaintDataUrl(workingDataUrl, Uint8Array.from(mask));
+      } else {
+        for (const rect of targetRects) {
+          const cropped = await cropImageDataUrl(workingDataUrl, rect);
+          const cleaned = await removeTextFromImage(cropped);
+          if (cleaned) {
+            workingDataUrl = await pasteImageDataUrl(workingDataUrl, cleaned, rect);
+          }
         }
       }
 
-      const withOriginalCopy = duplicateSlideAtIndex(currentSlides, activeSlideIdx).slides;
-      withOriginalCopy[activeSlideIdx] = {
-        ...withOriginalCopy[activeSlideIdx],
-        dataUrl: workingDataUrl,
-        overlays: [],
-      };
-
-      updateHistory(withOriginalCopy);
+      // The imported slide is kept on the slide itself, so it can be reverted instead of cluttering the deck with a copy.
+      const newSlides = currentSlides.map((slide, idx) =>
+        idx === activeSlideIdx ? { ...keepOriginal(slide), dataUrl: workingDataUrl, overlays: [] } : slide
+      );
+      updateHistory(newSlides, `슬라이드 ${activeSlideIdx + 1} 텍스트 지우기`);
       setSelection(null);
       setSelectedOverlayId(null);
       resetEraseMode();
@@ -494,35 +1001,27 @@ const App: React.FC = () => {
     }
   };
 
-  const handleRemoveTextAll = async () => {
-    if (currentSlides.length === 0) return;
-    if (!window.confirm("현재 슬라이드의 모든 텍스트를 제거하고 배경을 복원하시겠습니까?\n이 작업은 약 5~10초 정도 소요됩니다.")) return;
-
-    setIsProcessing(true);
-    try {
-      const currentSlide = currentSlides[activeSlideIdx];
-      const cleanImage = await removeAllTextFromSlide(currentSlide.dataUrl);
-
-      if (cleanImage) {
-        const originalCopy = cloneSlideWithOverlays(currentSlide);
-        const newSlides = currentSlides.map((s, idx) =>
-          idx === activeSlideIdx ? { ...s, dataUrl: cleanImage, overlays: [] } : s
-        );
-        newSlides.splice(activeSlideIdx + 1, 0, originalCopy);
-        updateHistory(newSlides);
-        setSelection(null);
-        setSelectedOverlayId(null);
-        resetEraseMode();
-      } else {
-        alert("텍스트 제거에 실패했습니다. AI 모델 응답이 비어있습니다.");
-      }
-    } catch (error: any) {
-      console.error(error);
-      const errorMsg = error?.message || error?.toString() || '알 수 없는 오류';
-      alert(`텍스트 제거에 실패했습니다.\n\n오류 상세: ${errorMsg}`);
-    } finally {
-      setIsProcessing(false);
-    }
+  // Results name the slides they were made for. A slide that no longer shows the source image
+  // (moved, deleted or edited while the batch ran) is left alone rather than overwritten.
+  const handleBatchRemoveAccept = (results: BatchRemoveResult[]) => {
+    const newSlides = [...currentSlides];
+    let skippedCount = 0;
+    results.forEach(({ slideIndices, sourceDataUrl, cleanDataUrl }) => {
+      slideIndices.forEach((index) => {
+        const slide = newSlides[index];
+        if (slide?.dataUrl !== sourceDataUrl) {
+          skippedCount += 1;
+          return;
+        }
+        newSlides[index] = { ...keepOriginal(slide), dataUrl: cleanDataUrl, overlays: [] };
+      });
+    });
+    updateHistory(newSlides, '텍스트 전체 제거');
+    if (skippedCount > 0) alert(`처리 중에 바뀐 슬라이드 ${skippedCount}장은 적용하지 않았습니다.`);
+    setIsBatchRemoveOpen(false);
+    setSelection(null);
+    setSelectedOverlayId(null);
+    resetEraseMode();
   };
 
   return (
@@ -573,8 +1072,25 @@ const App: React.FC = () => {
             style={{ backgroundColor: theme.neutralButtonBg, color: theme.neutralButtonText, borderColor: theme.headerBorder }}
           >
             <FileUp size={18} /><span>파일 업로드</span>
-            <input type="file" accept=".pdf,image/*" className="hidden" onChange={handleFileUpload} />
+            <input type="file" accept={IMPORT_ACCEPT} multiple className="hidden" onChange={handleFileUpload} />
           </label>
+          <label
+            className="flex items-center gap-2 px-4 py-2 rounded-lg cursor-pointer transition-colors text-sm font-medium border"
+            style={{ backgroundColor: theme.neutralButtonBg, color: theme.neutralButtonText, borderColor: theme.headerBorder }}
+            title="프로젝트 열기 (.slideproj)"
+          >
+            <FolderOpen size={18} /><span>프로젝트 열기</span>
+            <input type="file" accept={PROJECT_FILE_EXTENSION} className="hidden" onChange={handleProjectOpen} />
+          </label>
+          <button
+            onClick={handleProjectSave}
+            disabled={currentSlides.length === 0 || isProcessing}
+            className="flex items-center gap-2 px-4 py-2 disabled:opacity-50 rounded-lg text-sm font-medium border transition-colors"
+            style={{ backgroundColor: theme.neutralButtonBg, color: theme.neutralButtonText, borderColor: theme.headerBorder }}
+            title="편집 상태와 히스토리를 프로젝트 파일로 저장"
+          >
+            <Save size={18} /><span>프로젝트 저장</span>
+          </button>
           <label
             className="flex items-center gap-2 px-4 py-2 rounded-lg cursor-pointer transition-colors text-sm font-medium border"
             style={{ backgroundColor: theme.neutralButtonBg, color: theme.neutralButtonText, borderColor: theme.headerBorder }}
@@ -597,12 +1113,50 @@ const App: React.FC = () => {
           </button>
 
           <button
-            onClick={handleRemoveTextAll}
-            disabled={currentSlides.length === 0 || isProcessing}
+            onClick={handleDetectText}
+            disabled={currentSlides.length === 0 || isDetectingText || isProcessing}
+            className="flex items-center gap-2 px-4 py-2 disabled:opacity-50 rounded-lg text-sm font-medium border transition-colors"
+            style={{ backgroundColor: theme.neutralButtonBg, color: theme.neutralButtonText, borderColor: theme.headerBorder }}
+            title="슬라이드 전체의 텍스트 영역을 감지해 편집 후보로 제안합니다"
+          >
+            <ScanText size={18} /><span>{isDetectingText ? '감지 중...' : '텍스트 자동 감지'}</span>
+          </button>
+
+          <button
+            onClick={() => { setIsTranslateOpen(false); setIsHistoryOpen(false); setIsFindReplaceOpen(true); }}
+            disabled={currentSlides.length === 0 || isFindReplaceOpen}
+            className="flex items-center gap-2 px-4 py-2 disabled:opacity-50 rounded-lg text-sm font-medium border transition-colors"
+            style={{ backgroundColor: theme.neutralButtonBg, color: theme.neutralButtonText, borderColor: theme.headerBorder }}
+            title="찾아 바꾸기 (Ctrl+H)"
+          >
+            <Replace size={18} /><span>찾아 바꾸기</span>
+          </button>
+
+          <button
+            onClick={() => setIsLayersOpen(true)}
+            disabled={currentSlides.length === 0 || isLayersOpen}
+            className="flex items-center gap-2 px-4 py-2 disabled:opacity-50 rounded-lg text-sm font-medium border transition-colors"
+            style={{ backgroundColor: theme.neutralButtonBg, color: theme.neutralButtonText, borderColor: theme.headerBorder }}
+          >
+            <Layers size={18} /><span>레이어</span>
+          </button>
+
+          <button
+            onClick={() => { setIsFindReplaceOpen(false); setIsHistoryOpen(false); setIsTranslateOpen(true); }}
+            disabled={currentSlides.length === 0 || isTranslateOpen}
             className="flex items-center gap-2 px-4 py-2 disabled:opacity-50 rounded-lg text-sm font-medium border transition-colors"
             style={{ backgroundColor: theme.neutralButtonBg, color: theme.neutralButtonText, borderColor: theme.headerBorder }}
           >
-            <Eraser size={18} /><span>{isProcessing ? '처리 중...' : '텍스트 전체 제거'}</span>
+            <Languages size={18} /><span>번역</span>
+          </button>
+
+          <button
+            onClick={() => setIsBatchRemoveOpen(true)}
+            disabled={currentSlides.length === 0 || isBatchRemoveOpen}
+            className="flex items-center gap-2 px-4 py-2 disabled:opacity-50 rounded-lg text-sm font-medium border transition-colors"
+            style={{ backgroundColor: theme.neutralButtonBg, color: theme.neutralButtonText, borderColor: theme.headerBorder }}
+          >
+            <Eraser size={18} /><span>텍스트 전체 제거</span>
           </button>
 
           <div className="w-px h-6 mx-2" style={{ backgroundColor: theme.headerBorder }}></div>
@@ -623,6 +1177,16 @@ const App: React.FC = () => {
           >
             <FileText size={18} /><span>PDF 다운로드</span>
           </button>
+          <select
+            value={pdfExportMode}
+            onChange={(e) => setPdfExportMode(e.target.value as PdfExportMode)}
+            className="px-2 py-2 rounded-lg text-xs border focus:outline-none"
+            style={{ backgroundColor: theme.neutralButtonBg, color: theme.neutralButtonText, borderColor: theme.headerBorder }}
+            title="PDF 내보내기 방식"
+          >
+            <option value="image">이미지 PDF</option>
+            <option value="searchable">검색 가능한 PDF</option>
+          </select>
           <button
             onClick={handleDownloadPpt}
             disabled={currentSlides.length === 0}
@@ -631,6 +1195,16 @@ const App: React.FC = () => {
           >
             <Presentation size={18} /><span>PPT 다운로드</span>
           </button>
+          <select
+            value={pptExportMode}
+            onChange={(e) => setPptExportMode(e.target.value as PptExportMode)}
+            className="px-2 py-2 rounded-lg text-xs border focus:outline-none"
+            style={{ backgroundColor: theme.neutralButtonBg, color: theme.neutralButtonText, borderColor: theme.headerBorder }}
+            title="PPT 내보내기 방식"
+          >
+            <option value="image">이미지 슬라이드</option>
+            <option value="editable">편집 가능한 텍스트</option>
+          </select>
         </div>
       </header>
       <main className="flex flex-1 overflow-hidden">
@@ -647,6 +1221,7 @@ const App: React.FC = () => {
             }}
             onSlideDelete={handleSlideDelete}
             onSlideDuplicate={handleSlideDuplicate}
+            onSlideRevert={handleSlideRevert}
             onSlideReorder={handleSlideReorder}
             isCollapsed={slidePanelCollapsed}
             onToggleCollapse={() => setSlidePanelCollapsed(prev => !prev)}
@@ -662,7 +1237,7 @@ const App: React.FC = () => {
           <div className="flex flex-col gap-2 w-full px-2">
             <button
               onClick={handleUndo}
-              disabled={historyIndex <= 0}
+              disabled={!canUndo(history)}
               className="p-2.5 rounded-lg disabled:opacity-30 border transition-all flex items-center justify-center"
               style={{ backgroundColor: theme.neutralButtonBg, color: theme.neutralButtonText, borderColor: theme.sidePanelBorder }}
               title="실행 취소 (Ctrl+Z)"
@@ -671,13 +1246,22 @@ const App: React.FC = () => {
             </button>
             <button
               onClick={handleRedo}
-              disabled={historyIndex >= history.length - 1}
+              disabled={!canRedo(history)}
               className="p-2.5 rounded-lg disabled:opacity-30 border transition-all flex items-center justify-center"
               style={{ backgroundColor: theme.neutralButtonBg, color: theme.neutralButtonText, borderColor: theme.sidePanelBorder }}
               title="다시 실행 (Ctrl+Shift+Z)"
             >
               <Redo2 size={18} />
             </button>
+            <button
+              onClick={() => { setIsFindReplaceOpen(false); setIsTranslateOpen(false); setIsHistoryOpen(true); }}
+              disabled={currentSlides.length === 0 || isHistoryOpen}
+              className="p-2.5 rounded-lg disabled:opacity-30 border transition-all flex items-center justify-center"
+              style={{ backgroundColor: theme.neutralButtonBg, color: theme.neutralButtonText, borderColor: theme.sidePanelBorder }}
+              title="작업 기록"
+            >
+              <HistoryIcon size={18} />
+            </button>
           </div>
           <div className="w-6 h-px" style={{ backgroundColor: theme.sidePanelBorder }}></div>
           <button
@@ -726,6 +1310,16 @@ const App: React.FC = () => {
               <button onClick={() => { setErasePaths([]); setEraseRedoPaths([]); }} className="p-1 rounded text-slate-600" title="영역 초기화">
                 <CircleOff size={16} />
               </button>
+              <select
+                value={eraseEngine}
+                onChange={(e) => setEraseEngine(e.target.value as InpaintEngine)}
+                className="px-1.5 py-1 rounded-md text-xs border border-slate-300 text-slate-700 bg-white focus:outline-none"
+                title="배경 복원 엔진"
+              >
+                {(Object.keys(INPAINT_ENGINE_LABELS) as InpaintEngine[]).map((engine) => (
+                  <option key={engine} value={engine}>{INPAINT_ENGINE_LABELS[engine]}</option>
+                ))}
+              </select>
               <button onClick={handleApplyEraseMode} className="px-2 py-1 rounded-md text-xs font-semibold bg-indigo-600 text-white flex items-center gap-1">
                 <Check size={14} /> 적용
               </button>
@@ -737,12 +1331,12 @@ const App: React.FC = () => {
           {isProcessing ? (
             <div className="flex-1 flex flex-col items-center justify-center gap-4">
               <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-              <p className="text-slate-400 font-medium">AI가 슬라이드를 분석 및 복원 중입니다...</p>
+              <p className="text-slate-400 font-medium">슬라이드를 분석 및 복원 중입니다...</p>
             </div>
           ) : currentSlides.length > 0 ? (
             <EditorCanvas
               slide={currentSlides[activeSlideIdx]}
-              selectedOverlayId={selectedOverlayId}
+              selectedOverlayIds={selectedOverlayIds}
               draftOverlay={draftOverlay}
               isDark={theme.isDark}
               isEraseMode={isEraseMode}
@@ -751,20 +1345,36 @@ const App: React.FC = () => {
               erasePaths={erasePaths}
               onErasePathCommit={handleErasePathCommit}
               onSelectionChange={(rect) => { setSelection(rect); if (rect) setSelectedOverlayId(null); }}
-              onOverlaySelect={setSelectedOverlayId}
+              onOverlaySelect={setSelectedOverlayIds}
               onUpdateOverlays={handleUpdateOverlays}
+              proposedOverlays={detectionDrafts}
+              highlightedProposalId={highlightedDraftId}
+              deckGuides={deckGuides}
+              onGuidesChange={handleGuidesChange}
             />
           ) : (
             <div className="flex-1 flex flex-col items-center justify-center p-8 text-center" style={{ color: theme.textSecondary }}>
               <div className="w-40 h-40 mb-10 rounded-[2.5rem] flex items-center justify-center border-2 border-dashed" style={{ backgroundColor: theme.neutralButtonBg, borderColor: theme.sidePanelBorder }}><ImageIcon size={64} className="opacity-10" /></div>
               <h3 className="text-2xl font-black mb-3 tracking-tight" style={{ color: theme.textPrimary }}>Slide AI Editor</h3>
-              <p className="max-w-xs mx-auto text-sm leading-relaxed mb-10" style={{ color: theme.textSecondary }}>PDF 또는 이미지를 업로드하여 지능형 텍스트 교체를 시작하세요.</p>
+              <p className="max-w-xs mx-auto text-sm leading-relaxed mb-10" style={{ color: theme.textSecondary }}>PDF, PPTX 또는 이미지를 업로드하여 지능형 텍스트 교체를 시작하세요.</p>
               <label className="px-10 py-4 text-white rounded-2xl font-black cursor-pointer shadow-2xl transition-all hover:scale-105 active:scale-95" style={{ backgroundColor: theme.primaryButtonBg }}>
                 파일 선택
-                <input type="file" accept=".pdf,image/*" className="hidden" onChange={handleFileUpload} />
+                <input type="file" accept={IMPORT_ACCEPT} multiple className="hidden" onChange={handleFileUpload} />
               </label>
             </div>
           )}
+          {selectedOverlayIds.length > 1 && !isEraseMode && (
+            <ArrangeToolbar
+              selectedCount={selectedOverlayIds.length}
+              canDistribute={countArrangeUnits(activeOverlays, arrangeableIds) >= 3}
+              canUngroup={activeOverlays.some((overlay) => selectedOverlayIds.includes(overlay.id) && !!overlay.groupId)}
+              isDark={theme.isDark}
+              onAlign={handleAlignOverlays}
+              onDistribute={handleDistributeOverlays}
+              onGroup={handleGroupOverlays}
+              onUngroup={handleUngroupOverlays}
+            />
+          )}
         </div>
         <Sidebar
           activeSlide={currentSlides[activeSlideIdx]}
@@ -773,9 +1383,88 @@ const App: React.FC = () => {
           onApplyOverlay={handleApplyOverlay}
           onUpdateOverlays={handleUpdateOverlays}
           onDraftChange={setDraftOverlay}
+          fontOptions={fontOptions}
+          onAddFont={handleAddFont}
           isDark={theme.isDark}
         />
       </main>
+      <DetectionReviewPanel
+        drafts={detectionDrafts}
+        isDark={theme.isDark}
+        highlightedId={highlightedDraftId}
+        onHighlight={setHighlightedDraftId}
+        onAccept={handleAcceptDetections}
+        onReject={handleRejectDetections}
+      />
+      {isLayersOpen && currentSlides.length > 0 && (
+        <LayersPanel
+          overlays={activeOverlays}
+          selectedOverlayIds={selectedOverlayIds}
+          isDark={theme.isDark}
+          onSelect={(ids) => { setSelection(null); setSelectedOverlayIds(ids); }}
+          onUpdateOverlays={handleUpdateOverlays}
+          onClose={() => setIsLayersOpen(false)}
+        />
+      )}
+      {isHistoryOpen && currentSlides.length > 0 && (
+        <HistoryPanel
+          history={history}
+          checkpoints={checkpoints}
+          isDark={theme.isDark}
+          onJump={handleHistoryJump}
+          onAddCheckpoint={handleAddCheckpoint}
+          onRestoreCheckpoint={handleRestoreCheckpoint}
+          onDeleteCheckpoint={handleDeleteCheckpoint}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+      {isFindReplaceOpen && currentSlides.length > 0 && (
+        <FindReplacePanel
+          slides={currentSlides}
+          activeSlideIdx={activeSlideIdx}
+          isDark={theme.isDark}
+          onNavigate={handleFindNavigate}
+          onReplace={handleFindReplace}
+          onClose={() => setIsFindReplaceOpen(false)}
+        />
+      )}
+      {isTranslateOpen && currentSlides.length > 0 && (
+        <TranslatePanel
+          slides={currentSlides}
+          activeSlideIdx={activeSlideIdx}
+          selectedOverlayId={selectedOverlayId}
+          isDark={theme.isDark}
+          onApply={handleApplyTranslations}
+          onClose={() => setIsTranslateOpen(false)}
+        />
+      )}
+      {isBatchRemoveOpen && currentSlides.length > 0 && (
+        <BatchRemovePanel
+          slides={currentSlides}
+          activeSlideIdx={activeSlideIdx}
+          isDark={theme.isDark}
+          onAccept={handleBatchRemoveAccept}
+          onClose={() => setIsBatchRemoveOpen(false)}
+        />
+      )}
+      {pendingImportFiles && (
+        <ImportDialog
+          files={pendingImportFiles}
+          isDark={theme.isDark}
+          slideCount={currentSlides.length}
+          activeSlideIdx={activeSlideIdx}
+          onConfirm={handleImportConfirm}
+          onCancel={() => setPendingImportFiles(null)}
+        />
+      )}
+      <RecoveryDialog
+        sessions={recoverySessions}
+        isDark={theme.isDark}
+        onRestore={handleRestoreSession}
+        onDiscard={handleDiscardSession}
+        onDiscardAll={handleDiscardAllSessions}
+        onClose={() => setRecoverySessions([])}
+      />
     </div>
   );
 };
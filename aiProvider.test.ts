@@ -0,0 +1,160 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import handler from './api/gemini';
+import { isAiAction, resolveAiProvider, runAiAction, validateAiPayload } from './api/_providers';
+import { normalizeDetectedBlocks, normalizeOcrResult, normalizeTranslations } from './api/_providers/shared';
+
+describe('resolveAiProvider', () => {
+  it('defaults to gemini and honours AI_PROVIDER', () => {
+    expect(resolveAiProvider({}).name).toBe('gemini');
+    expect(resolveAiProvider({ AI_PROVIDER: 'OpenAI' }).name).toBe('openai');
+    expect(resolveAiProvider({ AI_PROVIDER: 'mock' }).name).toBe('mock');
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => resolveAiProvider({ AI_PROVIDER: 'nope' })).toThrow(/Unknown AI_PROVIDER/);
+  });
+
+  it('defers the missing-key error until a request is made', async () => {
+    const provider = resolveAiProvider({ AI_PROVIDER: 'gemini' });
+    await expect(provider.rewriteText('hi')).rejects.toThrow(/Missing API key/);
+  });
+});
+
+describe('runAiAction', () => {
+  const mock = resolveAiProvider({ AI_PROVIDER: 'mock' });
+
+  it('dispatches every action to the provider', async () => {
+    const image = 'data:image/png;base64,AAAA';
+    expect(await runAiAction(mock, 'analyzeTextInImage', { base64Image: image })).toMatchObject({ text: 'Sample text' });
+    expect(await runAiAction(mock, 'generateTextSuggestion', { originalText: ' 안녕하세요 ' })).toBe('안녕하세요');
+    expect(await runAiAction(mock, 'removeTextFromImage', { base64Image: image })).toBe(image);
+    expect(await runAiAction(mock, 'removeAllTextFromSlide', { base64Image: image })).toBe(image);
+    expect(await runAiAction(mock, 'detectTextBlocks', { base64Image: image })).toHaveLength(2);
+    expect(await runAiAction(mock, 'translateTexts', { texts: ['안녕', '세계'], targetLanguage: 'en' }))
+      .toEqual(['[en] 안녕', '[en] 세계']);
+  });
+
+  it('rejects unsupported translation targets', async () => {
+    await expect(runAiAction(mock, 'translateTexts', { texts: ['hi'], targetLanguage: 'fr' })).rejects.toThrow(/Unsupported target language/);
+  });
+
+  it('keeps translations aligned with their inputs', () => {
+    expect(normalizeTranslations({ translations: ['Hello', ' '] }, ['안녕', '세계'])).toEqual(['Hello', '세계']);
+    expect(() => normalizeTranslations({ translations: ['Hello'] }, ['안녕', '세계'])).toThrow(/1 translations for 2 texts/);
+  });
+
+  it('normalizes detected boxes and drops malformed ones', () => {
+    const blocks = normalizeDetectedBlocks({
+      blocks: [
+        { box_2d: [100, 200, 300, 800], text: 'Hello', fontSize: 50, fontColor: '#123456' },
+        { box_2d: [500, 500, 400, 600], text: 'inverted' },
+        { box_2d: [0, 0, 10, 10], text: '   ' },
+      ],
+    });
+
+    expect(blocks).toHaveLength(1);
+    const { x, y, width, height } = blocks[0].rect;
+    [x, y, width, height].forEach((value, i) => expect(value).toBeCloseTo([0.2, 0.1, 0.6, 0.2][i]));
+    expect(blocks[0].fontSize).toBe(0.05);
+    expect(blocks[0].fontColor).toBe('#123456');
+  });
+
+  it('falls back to defaults for missing or mistyped OCR fields', () => {
+    expect(normalizeOcrResult({ text: 'Hi', fontSize: '24', fontWeight: 7, fontColor: null })).toEqual({
+      text: 'Hi',
+      fontSize: 24,
+      fontWeight: 'normal',
+      fontColor: '#000000',
+      fontFamily: 'sans-serif',
+      backgroundColor: '#ffffff',
+    });
+    expect(normalizeOcrResult('not an object').text).toBe('');
+    expect(normalizeDetectedBlocks([{ box_2d: [0, 0, 10, 10], text: 42 }, null])).toEqual([]);
+  });
+
+  it('recognises supported actions only', () => {
+    expect(isAiAction('removeTextFromImage')).toBe(true);
+    expect(isAiAction('deleteEverything')).toBe(false);
+  });
+});
+
+describe('validateAiPayload', () => {
+  it('flags unsupported translation targets and passes everything else', () => {
+    expect(validateAiPayload('translateTexts', { texts: ['hi'], targetLanguage: 'fr' })).toMatch(/Unsupported target language "fr"/);
+    expect(validateAiPayload('translateTexts', { texts: ['hi'], targetLanguage: 'constructor' })).toMatch(/Unsupported/);
+    expect(validateAiPayload('translateTexts', { texts: ['hi'], targetLanguage: 'JA' })).toBeNull();
+    expect(validateAiPayload('removeTextFromImage', {})).toBeNull();
+  });
+});
+
+describe('api handler', () => {
+  const createResponse = () => {
+    const res = {
+      statusCode: 0,
+      body: undefined as unknown,
+      status(code: number) {
+        res.statusCode = code;
+        return res;
+      },
+      json(body: unknown) {
+        res.body = body;
+      },
+    };
+    return res;
+  };
+
+  it('answers 400 for an unsupported translation target', async () => {
+    const res = createResponse();
+    await handler({ method: 'POST', body: { action: 'translateTexts', payload: { texts: ['hi'], targetLanguage: 'fr' } } }, res);
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({ error: expect.stringMatching(/Unsupported target language/) });
+  });
+});
+
+describe('openai provider', () => {
+  const provider = resolveAiProvider({ AI_PROVIDER: 'openai', OPENAI_API_KEY: 'key', OPENAI_BASE_URL: 'http://models.local/v1/' });
+  const image = 'data:image/png;base64,AAAA';
+
+  const mockFetch = (status: number, body: unknown) => {
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify(body), { status }));
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  };
+  const chatReply = (content: string) => ({ choices: [{ message: { content } }] });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('reads OCR styles from a JSON chat completion', async () => {
+    const fetchMock = mockFetch(200, chatReply(JSON.stringify({ text: '안녕', fontSize: 30, fontColor: '#111111' })));
+
+    expect(await provider.analyzeText(image)).toMatchObject({ text: '안녕', fontSize: 30, fontColor: '#111111', fontWeight: 'normal' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://models.local/v1/chat/completions');
+    expect(init?.headers).toMatchObject({ Authorization: 'Bearer key' });
+    expect(JSON.parse(String(init?.body))).toMatchObject({ model: 'gpt-4o-mini', response_format: { type: 'json_object' } });
+  });
+
+  it('returns the rewritten text, or the original when the reply is empty', async () => {
+    mockFetch(200, chatReply('  더 나은 문장  '));
+    expect(await provider.rewriteText('문장')).toBe('더 나은 문장');
+    mockFetch(200, { choices: [] });
+    expect(await provider.rewriteText('문장')).toBe('문장');
+  });
+
+  it('turns an image edit into a data URL', async () => {
+    const fetchMock = mockFetch(200, { data: [{ b64_json: 'BBBB' }] });
+    expect(await provider.removeText(image)).toBe('data:image/png;base64,BBBB');
+    expect(fetchMock.mock.calls[0][0]).toBe('http://models.local/v1/images/edits');
+    expect(fetchMock.mock.calls[0][1]?.body).toBeInstanceOf(FormData);
+
+    mockFetch(200, { data: [] });
+    await expect(provider.removeText(image)).rejects.toThrow('No image data');
+  });
+
+  it('surfaces the error message of a non-2xx response', async () => {
+    mockFetch(401, { error: { message: 'Invalid API key' } });
+    await expect(provider.rewriteText('hi')).rejects.toThrow('Invalid API key');
+    mockFetch(503, 'unavailable');
+    await expect(provider.rewriteText('hi')).rejects.toThrow('OpenAI-compatible request failed (503)');
+  });
+});
@@ -0,0 +1,131 @@
+import { GoogleGenAI, Modality, Type } from "@google/genai";
+import type { AiProvider, ProviderEnv } from "./types";
+import {
+  DETECT_PROMPT,
+  INPAINT_PROMPT,
+  OCR_PROMPT,
+  buildRewritePrompt,
+  buildTranslatePrompt,
+  normalizeDetectedBlocks,
+  normalizeOcrResult,
+  normalizeTranslations,
+  parseInlineData,
+  readJsonPath,
+  readJsonString,
+} from "./shared";
+
+const DEFAULT_IMAGE_MODEL = "gemini-2.5-flash-image";
+const DEFAULT_TEXT_MODEL = "gemini-2.0-flash";
+
+const extractImageDataUrl = (response: unknown): string | null => {
+  const parts = readJsonPath(response, "candidates", 0, "content", "parts");
+  for (const part of Array.isArray(parts) ? parts : []) {
+    const data = readJsonString(part, "inlineData", "data");
+    if (data) {
+      const responseMime = readJsonString(part, "inlineData", "mimeType") || "image/png";
+      return `data:${responseMime};base64,${data}`;
+    }
+  }
+  return null;
+};
+
+export const createGeminiProvider = (env: ProviderEnv): AiProvider => {
+  const textModel = env.GEMINI_TEXT_MODEL || DEFAULT_TEXT_MODEL;
+  const imageModel = env.GEMINI_IMAGE_MODEL || DEFAULT_IMAGE_MODEL;
+
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (client) return client;
+    const apiKey = env.API_KEY || env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error("Missing API key. Set API_KEY or GEMINI_API_KEY in deployment environment.");
+    }
+    client = new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  return {
+    name: "gemini",
+
+    analyzeText: async (base64Image) => {
+      const { data, mimeType } = parseInlineData(base64Image, "image/png");
+      const response = await getClient().models.generateContent({
+        model: textModel,
+        contents: {
+          parts: [{ inlineData: { mimeType, data } }, { text: OCR_PROMPT }],
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              text: { type: Type.STRING },
+              fontSize: { type: Type.NUMBER },
+              fontWeight: { type: Type.STRING },
+              fontColor: { type: Type.STRING },
+              fontFamily: { type: Type.STRING },
+              backgroundColor: { type: Type.STRING },
+            },
+            required: ["text", "fontSize", "fontWeight", "fontColor", "fontFamily", "backgroundColor"],
+          },
+        },
+      });
+
+      return normalizeOcrResult(JSON.parse(response.text || "{}"));
+    },
+
+    rewriteText: async (originalText) => {
+      const response = await getClient().models.generateContent({
+        model: textModel,
+        contents: buildRewritePrompt(originalText),
+      });
+      return response.text?.trim() || originalText;
+    },
+
+    removeText: async (base64Image) => {
+      const { data, mimeType } = parseInlineData(base64Image);
+      const response = await getClient().models.generateContent({
+        model: imageModel,
+        contents: {
+          parts: [{ inlineData: { mimeType, data } }, { text: INPAINT_PROMPT }],
+        },
+        config: {
+          responseModalities: [Modality.IMAGE, Modality.TEXT],
+        },
+      });
+
+      const imageDataUrl = extractImageDataUrl(response);
+      if (imageDataUrl) return imageDataUrl;
+
+      const textOutput = response?.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (textOutput) {
+        throw new Error(`Model returned text instead of image: ${String(textOutput).slice(0, 120)}`);
+      }
+
+      throw new Error("No image data in model response.");
+    },
+
+    detectTextBlocks: async (base64Image) => {
+      const { data, mimeType } = parseInlineData(base64Image, "image/png");
+      const response = await getClient().models.generateContent({
+        model: textModel,
+        contents: {
+          parts: [{ inlineData: { mimeType, data } }, { text: DETECT_PROMPT }],
+        },
+        config: { responseMimeType: "application/json" },
+      });
+
+      return normalizeDetectedBlocks(JSON.parse(response.text || "{}"));
+    },
+
+    translateTexts: async (texts, targetLanguage) => {
+      const response = await getClient().models.generateContent({
+        model: textModel,
+        contents: buildTranslatePrompt(texts, targetLanguage),
+        config: { responseMimeType: "application/json" },
+      });
+
+      return normalizeTranslations(JSON.parse(response.text || "{}"), texts);
+    },
+  };
+};
@@ -0,0 +1,66 @@
+import type { AiAction } from "../../types";
+import type { AiProvider, ProviderEnv } from "./types";
+import { getTranslationLanguageError, parseTranslationLanguage } from "./shared";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAiProvider } from "./openai";
+import { createMockProvider } from "./mock";
+
+export type { AiProvider, ProviderEnv } from "./types";
+
+export const AI_PROVIDER_NAMES = ["gemini", "openai", "mock"] as const;
+export type AiProviderName = (typeof AI_PROVIDER_NAMES)[number];
+
+const AI_ACTIONS: AiAction[] = [
+  "analyzeTextInImage",
+  "generateTextSuggestion",
+  "removeTextFromImage",
+  "removeAllTextFromSlide",
+  "detectTextBlocks",
+  "translateTexts",
+];
+
+export const isAiAction = (value: unknown): value is AiAction => AI_ACTIONS.includes(value as AiAction);
+
+// Payload problems the caller can fix, found before a provider runs so the handler can answer 400.
+export const validateAiPayload = (action: AiAction, payload: Record<string, unknown>): string | null => {
+  if (action === "translateTexts") return getTranslationLanguageError(payload.targetLanguage);
+  return null;
+};
+
+// Picks the backend from AI_PROVIDER (default: gemini).
+export const resolveAiProvider = (env: ProviderEnv): AiProvider => {
+  const name = (env.AI_PROVIDER || "gemini").trim().toLowerCase();
+  switch (name) {
+    case "gemini":
+      return createGeminiProvider(env);
+    case "openai":
+      return createOpenAiProvider(env);
+    case "mock":
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${name}". Use one of: ${AI_PROVIDER_NAMES.join(", ")}.`);
+  }
+};
+
+export const runAiAction = async (
+  provider: AiProvider,
+  action: AiAction,
+  payload: Record<string, unknown>
+): Promise<unknown> => {
+  switch (action) {
+    case "analyzeTextInImage":
+      return provider.analyzeText(String(payload.base64Image || ""));
+    case "generateTextSuggestion":
+      return provider.rewriteText(String(payload.originalText || ""));
+    case "removeTextFromImage":
+    case "removeAllTextFromSlide":
+      return provider.removeText(String(payload.base64Image || ""));
+    case "detectTextBlocks":
+      return provider.detectTextBlocks(String(payload.base64Image || ""));
+    case "translateTexts": {
+      const texts = Array.isArray(payload.texts) ? payload.texts.map(String) : [];
+      const targetLanguage = parseTranslationLanguage(payload.targetLanguage);
+      return texts.length > 0 ? provider.translateTexts(texts, targetLanguage) : [];
+    }
+  }
+};
@@ -0,0 +1,43 @@
+import type { AiProvider } from "./types";
+
+// Deterministic stand-in for tests and offline demos: no network, same output for the same input.
+export const createMockProvider = (): AiProvider => ({
+  name: "mock",
+
+  analyzeText: async () => ({
+    text: "Sample text",
+    fontSize: 24,
+    fontWeight: "normal",
+    fontColor: "#000000",
+    fontFamily: "sans-serif",
+    backgroundColor: "#ffffff",
+  }),
+
+  rewriteText: async (originalText) => originalText.trim(),
+
+  // Returns the image unchanged, which is enough to exercise the editor's apply paths.
+  removeText: async (base64Image) => base64Image,
+
+  detectTextBlocks: async () => [
+    {
+      text: "Sample title",
+      fontSize: 0.08,
+      fontWeight: "bold",
+      fontColor: "#000000",
+      fontFamily: "sans-serif",
+      backgroundColor: "#ffffff",
+      rect: { x: 0.1, y: 0.1, width: 0.8, height: 0.12 },
+    },
+    {
+      text: "Sample body text",
+      fontSize: 0.04,
+      fontWeight: "normal",
+      fontColor: "#333333",
+      fontFamily: "sans-serif",
+      backgroundColor: "#ffffff",
+      rect: { x: 0.1, y: 0.3, width: 0.6, height: 0.06 },
+    },
+  ],
+
+  translateTexts: async (texts, targetLanguage) => texts.map((text) => `[${targetLanguage}] ${text}`),
+});
@@ -0,0 +1,120 @@
+import type { AiProvider, ProviderEnv } from "./types";
+import {
+  DETECT_PROMPT,
+  INPAINT_PROMPT,
+  OCR_PROMPT,
+  buildRewritePrompt,
+  buildTranslatePrompt,
+  normalizeDetectedBlocks,
+  normalizeOcrResult,
+  normalizeTranslations,
+  parseInlineData,
+  readJsonString,
+} from "./shared";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_TEXT_MODEL = "gpt-4o-mini";
+const DEFAULT_IMAGE_MODEL = "gpt-image-1";
+
+// Works with OpenAI itself and with self-hosted servers that expose the same REST surface
+// (chat completions for OCR, text detection, rewrites and translation, image edits for inpainting).
+export const createOpenAiProvider = (env: ProviderEnv): AiProvider => {
+  const baseUrl = (env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const textModel = env.OPENAI_TEXT_MODEL || DEFAULT_TEXT_MODEL;
+  const imageModel = env.OPENAI_IMAGE_MODEL || DEFAULT_IMAGE_MODEL;
+
+  const authHeaders = (): Record<string, string> => {
+    const apiKey = env.OPENAI_API_KEY;
+    return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+  };
+
+  const request = async (path: string, init: RequestInit): Promise<unknown> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { ...authHeaders(), ...(init.headers as Record<string, string> | undefined) },
+    });
+    const body: unknown = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(readJsonString(body, "error", "message") || `OpenAI-compatible request failed (${response.status})`);
+    }
+    return body;
+  };
+
+  const chat = async (messages: unknown[], jsonResponse = false): Promise<string> => {
+    const body = await request("/chat/completions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: textModel,
+        messages,
+        ...(jsonResponse ? { response_format: { type: "json_object" } } : {}),
+      }),
+    });
+    return readJsonString(body, "choices", 0, "message", "content");
+  };
+
+  return {
+    name: "openai",
+
+    analyzeText: async (base64Image) => {
+      const content = await chat(
+        [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: OCR_PROMPT },
+              { type: "image_url", image_url: { url: base64Image } },
+            ],
+          },
+        ],
+        true
+      );
+      return normalizeOcrResult(JSON.parse(content || "{}"));
+    },
+
+    rewriteText: async (originalText) => {
+      const content = await chat([{ role: "user", content: buildRewritePrompt(originalText) }]);
+      return content.trim() || originalText;
+    },
+
+    removeText: async (base64Image) => {
+      const { data, mimeType } = parseInlineData(base64Image);
+      const form = new FormData();
+      form.append("model", imageModel);
+      form.append("prompt", INPAINT_PROMPT);
+      form.append("image", new Blob([Buffer.from(data, "base64")], { type: mimeType }), "image.png");
+
+      const body = await request("/images/edits", { method: "POST", body: form });
+      const b64Json = readJsonString(body, "data", 0, "b64_json");
+      if (b64Json) return `data:image/png;base64,${b64Json}`;
+      const url = readJsonString(body, "data", 0, "url");
+      if (url) {
+        const image = await fetch(url);
+        const bytes = Buffer.from(await image.arrayBuffer());
+        return `data:${image.headers.get("content-type") || "image/png"};base64,${bytes.toString("base64")}`;
+      }
+      throw new Error("No image data in model response.");
+    },
+
+    detectTextBlocks: async (base64Image) => {
+      const content = await chat(
+        [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: DETECT_PROMPT },
+              { type: "image_url", image_url: { url: base64Image } },
+            ],
+          },
+        ],
+        true
+      );
+      return normalizeDetectedBlocks(JSON.parse(content || "{}"));
+    },
+
+    translateTexts: async (texts, targetLanguage) => {
+      const content = await chat([{ role: "user", content: buildTranslatePrompt(texts, targetLanguage) }], true);
+      return normalizeTranslations(JSON.parse(content || "{}"), texts);
+    },
+  };
+};
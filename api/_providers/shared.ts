@@ -0,0 +1,166 @@
+import type { DetectedTextBlock, OCRResult, TranslationLanguage } from "../../types";
+
+export const OCR_PROMPT = `Analyze this image snippet.
+          
+          TASK 1: Extract the exact text.
+          TASK 2: Measure the CSS styles to replicate the text appearance.
+          
+          CRITICAL FOR FONT SIZE: 
+          - Measure the pixel height of the uppercase letters in the image. 
+          - Return that EXACT number as 'fontSize'. 
+          - Do not underestimate. If the text fills the height of the image, the fontSize should be equal to the image height.
+          - Example: If the image is 50px high and text fills it, fontSize is 50.
+
+          Return JSON:
+          {
+            "text": "content",
+            "fontSize": number,
+            "fontWeight": "normal" | "bold",
+            "fontColor": "#hex",
+            "fontFamily": "font name",
+            "backgroundColor": "#hex"
+          }`;
+
+export const buildRewritePrompt = (originalText: string) => `Context: A user is editing a slide presentation.
+    Task: Rewrite the following text to be more professional, concise, or natural.
+    If it is a sentence fragment, complete it logically. 
+    If it is Korean, keep it in Korean.
+    
+    Original Text: "${originalText}"
+    
+    Return ONLY the suggested text string.`;
+
+export const INPAINT_PROMPT =
+  "Remove all text from this image. Fill the text areas with the surrounding background pattern (inpainting). Keep everything else the same. Return only the edited image.";
+
+export const parseInlineData = (base64Image: string, fallbackMimeType = "image/png") => {
+  const mimeMatch = base64Image.match(/data:([a-zA-Z0-9]+\/[a-zA-Z0-9-.+]+).*,.*/);
+  const mimeType = mimeMatch?.[1] || fallbackMimeType;
+  const data = base64Image.includes(",") ? base64Image.split(",")[1] : base64Image;
+  return { mimeType, data };
+};
+
+// Model and server responses are untrusted JSON, so they are read as unknown and narrowed field by field.
+type JsonRecord = Record<string, unknown>;
+
+const isJsonRecord = (value: unknown): value is JsonRecord =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// Walks nested objects and arrays; any missing or mistyped step yields undefined.
+export const readJsonPath = (value: unknown, ...path: (string | number)[]): unknown =>
+  path.reduce<unknown>((current, key) => {
+    if (typeof key === "number") return Array.isArray(current) ? current[key] : undefined;
+    return isJsonRecord(current) ? current[key] : undefined;
+  }, value);
+
+export const readJsonString = (value: unknown, ...path: (string | number)[]): string => {
+  const found = readJsonPath(value, ...path);
+  return typeof found === "string" ? found : "";
+};
+
+export const normalizeOcrResult = (parsed: unknown): OCRResult => {
+  const fontSize = Number(readJsonPath(parsed, "fontSize"));
+  return {
+    text: readJsonString(parsed, "text"),
+    fontSize: Number.isFinite(fontSize) && fontSize > 0 ? fontSize : 16,
+    fontWeight: readJsonString(parsed, "fontWeight") || "normal",
+    fontColor: readJsonString(parsed, "fontColor") || "#000000",
+    fontFamily: readJsonString(parsed, "fontFamily") || "sans-serif",
+    backgroundColor: readJsonString(parsed, "backgroundColor") || "#ffffff",
+  };
+};
+
+// Accepts either a bare array or an object holding the array under `key`.
+const readJsonList = (parsed: unknown, key: string): unknown[] => {
+  if (Array.isArray(parsed)) return parsed;
+  const list = readJsonPath(parsed, key);
+  return Array.isArray(list) ? list : [];
+};
+
+export const DETECT_PROMPT = `Find every block of text on this slide image.
+Group lines that belong to the same paragraph or title into one block.
+
+For each block return:
+- "box_2d": [ymin, xmin, ymax, xmax] of the block, normalized to 0-1000
+- "text": the exact text, with line breaks as \\n
+- "fontSize": the height of one line of text, normalized to 0-1000 of the image height
+- "fontWeight": "normal" | "bold"
+- "fontColor": "#hex"
+- "fontFamily": font name
+- "backgroundColor": "#hex" of the area right behind the text
+
+Return JSON: { "blocks": [ ... ] }`;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Converts the model's 0-1000 boxes into fractional rects, dropping malformed or empty entries.
+export const normalizeDetectedBlocks = (parsed: unknown): DetectedTextBlock[] => {
+  const result: DetectedTextBlock[] = [];
+
+  for (const block of readJsonList(parsed, "blocks")) {
+    const box = readJsonPath(block, "box_2d");
+    if (!Array.isArray(box) || box.length !== 4 || !readJsonString(block, "text").trim()) continue;
+    const [ymin, xmin, ymax, xmax] = box.map((value: unknown) => clamp01(Number(value) / 1000));
+    if (![ymin, xmin, ymax, xmax].every(Number.isFinite) || xmax <= xmin || ymax <= ymin) continue;
+
+    const ocr = normalizeOcrResult(block);
+    result.push({
+      ...ocr,
+      fontSize: clamp01(Number(readJsonPath(block, "fontSize")) / 1000) || (ymax - ymin),
+      rect: { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin },
+    });
+  }
+
+  return result;
+};
+
+const LANGUAGE_NAMES: Record<TranslationLanguage, string> = {
+  ko: "Korean",
+  en: "English",
+  ja: "Japanese",
+};
+
+const isTranslationLanguage = (value: string): value is TranslationLanguage =>
+  Object.keys(LANGUAGE_NAMES).includes(value);
+
+const toLanguageCode = (value: unknown) => String(value || "").toLowerCase();
+
+const unsupportedLanguageMessage = (language: string) =>
+  `Unsupported target language "${language}". Use one of: ${Object.keys(LANGUAGE_NAMES).join(", ")}.`;
+
+// Lets the handler reject a bad target language as a client error before any provider runs.
+export const getTranslationLanguageError = (value: unknown): string | null => {
+  const language = toLanguageCode(value);
+  return isTranslationLanguage(language) ? null : unsupportedLanguageMessage(language);
+};
+
+export const parseTranslationLanguage = (value: unknown): TranslationLanguage => {
+  const language = toLanguageCode(value);
+  if (!isTranslationLanguage(language)) {
+    throw new Error(unsupportedLanguageMessage(language));
+  }
+  return language;
+};
+
+// All texts of a slide go out in one request so the model sees them in context.
+export const buildTranslatePrompt = (texts: string[], targetLanguage: TranslationLanguage) => {
+  const languageName = LANGUAGE_NAMES[targetLanguage];
+  return `Context: A user is localizing a slide presentation.
+Task: Translate each text in the JSON array below into ${languageName}.
+- Keep the meaning, tone and line breaks (\\n) of each text.
+- Keep product names, numbers, units and code unchanged.
+- Keep each translation about as short as the original; it has to fit the same box on the slide.
+- If a text is already in ${languageName}, return it unchanged.
+
+Texts: ${JSON.stringify(texts)}
+
+Return JSON: { "translations": [ ... ] } with exactly ${texts.length} strings, in the same order.`;
+};
+
+export const normalizeTranslations = (parsed: unknown, texts: string[]): string[] => {
+  const translations = readJsonList(parsed, "translations");
+  if (translations.length !== texts.length) {
+    throw new Error(`Model returned ${translations.length} translations for ${texts.length} texts.`);
+  }
+  return translations.map((translation, index) => (typeof translation === "string" && translation.trim() ? translation : texts[index]));
+};
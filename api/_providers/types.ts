@@ -0,0 +1,14 @@
+import type { DetectedTextBlock, OCRResult, TranslationLanguage } from "../../types";
+
+// What the editor needs from a model backend. Images travel as data URLs in both directions.
+export interface AiProvider {
+  name: string;
+  analyzeText(base64Image: string): Promise<OCRResult>;
+  rewriteText(originalText: string): Promise<string>;
+  removeText(base64Image: string): Promise<string>;
+  detectTextBlocks(base64Image: string): Promise<DetectedTextBlock[]>;
+  // Returns one translation per input text, in the same order.
+  translateTexts(texts: string[], targetLanguage: TranslationLanguage): Promise<string[]>;
+}
+
+export type ProviderEnv = Record<string, string | undefined>;
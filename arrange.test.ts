@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  alignOverlays,
+  distributeOverlays,
+  expandToGroups,
+  getOverlayBounds,
+  groupOverlays,
+  resizeOverlays,
+  rotateOverlays,
+  ungroupOverlays,
+} from './utils/arrange';
+import { Rect, TextOverlay } from './types';
+
+const createOverlay = (id: string, rect: Rect, extra: Partial<TextOverlay> = {}): TextOverlay => ({
+  id,
+  type: 'text',
+  rect,
+  originalText: id,
+  newText: id,
+  fontSize: 12,
+  fontWeight: 'normal',
+  fontColor: '#000',
+  fontFamily: 'Inter',
+  backgroundColor: 'transparent',
+  vAlign: 'top',
+  hAlign: 'left',
+  ...extra,
+});
+
+const xs = (overlays: TextOverlay[]) => overlays.map((overlay) => overlay.rect.x);
+
+describe('getOverlayBounds', () => {
+  it('covers the rotated corners', () => {
+    const bounds = getOverlayBounds(createOverlay('a', { x: 0, y: 0, width: 100, height: 20 }, { rotation: 90 }));
+    expect(bounds.x).toBeCloseTo(40);
+    expect(bounds.y).toBeCloseTo(-40);
+    expect(bounds.width).toBeCloseTo(20);
+    expect(bounds.height).toBeCloseTo(100);
+  });
+});
+
+describe('expandToGroups', () => {
+  it('selects every member of a clicked group', () => {
+    const overlays = [
+      createOverlay('a', { x: 0, y: 0, width: 10, height: 10 }, { groupId: 'g' }),
+      createOverlay('b', { x: 20, y: 0, width: 10, height: 10 }, { groupId: 'g' }),
+      createOverlay('c', { x: 40, y: 0, width: 10, height: 10 }),
+    ];
+    expect(expandToGroups(overlays, ['b'])).toEqual(['a', 'b']);
+    expect(expandToGroups(overlays, ['c'])).toEqual(['c']);
+  });
+});
+
+describe('alignOverlays', () => {
+  const overlays = [
+    createOverlay('a', { x: 10, y: 0, width: 20, height: 10 }),
+    createOverlay('b', { x: 50, y: 30, width: 40, height: 10 }),
+  ];
+
+  it('aligns left, center and right edges to the selection bounds', () => {
+    expect(xs(alignOverlays(overlays, ['a', 'b'], 'left'))).toEqual([10, 10]);
+    expect(xs(alignOverlays(overlays, ['a', 'b'], 'center'))).toEqual([40, 30]);
+    expect(xs(alignOverlays(overlays, ['a', 'b'], 'right'))).toEqual([70, 50]);
+  });
+
+  it('aligns top edges', () => {
+    expect(alignOverlays(overlays, ['a', 'b'], 'top').map((overlay) => overlay.rect.y)).toEqual([0, 0]);
+  });
+
+  it('moves a group as one unit', () => {
+    const grouped = [
+      createOverlay('a', { x: 10, y: 0, width: 10, height: 10 }, { groupId: 'g' }),
+      createOverlay('b', { x: 30, y: 0, width: 10, height: 10 }, { groupId: 'g' }),
+      createOverlay('c', { x: 0, y: 20, width: 100, height: 10 }),
+    ];
+    expect(xs(alignOverlays(grouped, ['a', 'b', 'c'], 'right'))).toEqual([70, 90, 0]);
+  });
+
+  it('leaves a lone overlay in place', () => {
+    expect(alignOverlays(overlays, ['a'], 'left')).toBe(overlays);
+  });
+});
+
+describe('distributeOverlays', () => {
+  it('makes the gaps equal and keeps the outer overlays fixed', () => {
+    const overlays = [
+      createOverlay('a', { x: 0, y: 0, width: 10, height: 10 }),
+      createOverlay('b', { x: 15, y: 0, width: 20, height: 10 }),
+      createOverlay('c', { x: 90, y: 0, width: 10, height: 10 }),
+    ];
+    expect(xs(distributeOverlays(overlays, ['a', 'b', 'c'], 'horizontal'))).toEqual([0, 40, 90]);
+  });
+
+  it('needs at least three units', () => {
+    const overlays = [
+      createOverlay('a', { x: 0, y: 0, width: 10, height: 10 }),
+      createOverlay('b', { x: 15, y: 0, width: 20, height: 10 }),
+    ];
+    expect(distributeOverlays(overlays, ['a', 'b'], 'vertical')).toBe(overlays);
+  });
+});
+
+describe('group transforms', () => {
+  it('scales positions and sizes into the new box', () => {
+    const overlays = [
+      createOverlay('a', { x: 0, y: 0, width: 10, height: 10 }),
+      createOverlay('b', { x: 90, y: 40, width: 10, height: 10 }),
+    ];
+    const result = resizeOverlays(overlays, ['a', 'b'], { x: 0, y: 0, width: 100, height: 50 }, { x: 0, y: 0, width: 200, height: 50 });
+    expect(result.map((overlay) => overlay.rect)).toEqual([
+      { x: 0, y: 0, width: 20, height: 10 },
+      { x: 180, y: 40, width: 20, height: 10 },
+    ]);
+    expect(result[0].fontSize).toBe(12);
+  });
+
+  it('rotates around the shared centre', () => {
+    const overlays = [createOverlay('a', { x: 90, y: -5, width: 20, height: 10 })];
+    const [rotated] = rotateOverlays(overlays, ['a'], { x: 0, y: 0 }, 90);
+    expect(rotated.rotation).toBe(90);
+    expect(rotated.rect.x + rotated.rect.width / 2).toBeCloseTo(0);
+    expect(rotated.rect.y + rotated.rect.height / 2).toBeCloseTo(100);
+  });
+
+  it('groups and ungroups', () => {
+    const overlays = [
+      createOverlay('a', { x: 0, y: 0, width: 10, height: 10 }),
+      createOverlay('b', { x: 20, y: 0, width: 10, height: 10 }),
+    ];
+    const grouped = groupOverlays(overlays, ['a', 'b'], 'g');
+    expect(grouped.map((overlay) => overlay.groupId)).toEqual(['g', 'g']);
+    expect(ungroupOverlays(grouped, ['a']).map((overlay) => overlay.groupId)).toEqual([undefined, 'g']);
+  });
+});
@@ -0,0 +1,97 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearAutosaveSessions,
+  deleteAutosaveSession,
+  listAutosaveSessions,
+  loadAutosaveSession,
+  saveAutosaveSession,
+} from './services/autosaveService';
+import { createHistory, pushHistory, undoHistory } from './utils/history';
+import { SlideData, TextOverlay } from './types';
+
+// Node has no FileReader, so Blobs are read back through their bytes instead.
+vi.mock('./services/imageUtils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./services/imageUtils')>()),
+  readFileAsDataUrl: async (blob: Blob) =>
+    `data:${blob.type};base64,${Buffer.from(await blob.arrayBuffer()).toString('base64')}`,
+}));
+
+const createOverlay = (text: string): TextOverlay => ({
+  id: `o-${text}`,
+  type: 'text',
+  rect: { x: 0, y: 0, width: 100, height: 20 },
+  originalText: text,
+  newText: text,
+  fontSize: 12,
+  fontWeight: 'normal',
+  fontColor: '#000',
+  fontFamily: 'Inter',
+  backgroundColor: 'transparent',
+  vAlign: 'top',
+  hAlign: 'left',
+});
+
+const createSlide = (index: number): SlideData => {
+  const slide: SlideData = {
+    index,
+    dataUrl: `data:image/png;base64,${btoa(`slide ${index}`)}`,
+    width: 1920,
+    height: 1080,
+    overlays: [createOverlay(`slide ${index}`)],
+  };
+  return { ...slide, original: { dataUrl: slide.dataUrl, overlays: slide.overlays } };
+};
+
+const editText = (slides: SlideData[], slideIndex: number, text: string): SlideData[] =>
+  slides.map((slide, idx) => (idx === slideIndex ? { ...slide, overlays: [createOverlay(text)] } : slide));
+
+const push = (history: ReturnType<typeof createHistory>, slides: SlideData[], label: string) =>
+  pushHistory(history, slides, { label, limit: 100, coalesceWindowMs: 0 });
+
+describe('autosave sessions', () => {
+  beforeEach(() => clearAutosaveSessions());
+  afterEach(() => vi.restoreAllMocks());
+
+  it('lists and loads back a saved deck with its undo history', async () => {
+    const deck = [createSlide(0), createSlide(1)];
+    let history = push(createHistory(deck), editText(deck, 0, 'first'), '텍스트 수정');
+    history = push(history, editText(history.present, 1, 'second'), '텍스트 수정');
+    history = undoHistory(history);
+    const fonts = [{ family: 'Custom', fileName: 'custom.ttf', dataUrl: 'data:font/ttf;base64,AA==' }];
+
+    await saveAutosaveSession('a', 'deck', history, fonts, [{ id: 'g', axis: 'x', position: 10 }]);
+
+    expect(await listAutosaveSessions()).toEqual([{ id: 'a', name: 'deck', updatedAt: expect.any(Number), slideCount: 2 }]);
+    const session = await loadAutosaveSession('a');
+    expect(session.fonts).toEqual(fonts);
+    expect(session.guides).toEqual([{ id: 'g', axis: 'x', position: 10 }]);
+    expect(session.history.present.map((slide) => slide.overlays[0].newText)).toEqual(['first', 'slide 1']);
+    expect(session.history.present[0].dataUrl).toBe(deck[0].dataUrl);
+    expect(session.history.past.map((entry) => entry.label)).toEqual(['텍스트 수정']);
+    expect(session.history.future).toHaveLength(1);
+
+    // Slides shared between the deck and the undo steps come back shared, and unedited ones keep their original.
+    expect(session.history.future[0].patch.removed[0]).toBe(session.history.present[1]);
+    expect(session.history.present[1].original?.overlays).toBe(session.history.present[1].overlays);
+  });
+
+  it('keeps only the most recent sessions', async () => {
+    const history = createHistory([createSlide(0)]);
+    const now = vi.spyOn(Date, 'now');
+    for (let i = 0; i < 7; i++) {
+      now.mockReturnValue(1000 * (i + 1));
+      await saveAutosaveSession(`s${i}`, `deck ${i}`, history);
+    }
+
+    const sessions = await listAutosaveSessions();
+    expect(sessions.map((session) => session.id)).toEqual(['s6', 's5', 's4', 's3', 's2']);
+    await expect(loadAutosaveSession('s0')).rejects.toThrow('not found');
+  });
+
+  it('forgets a deleted session', async () => {
+    await saveAutosaveSession('a', 'deck', createHistory([createSlide(0)]));
+    await deleteAutosaveSession('a');
+    expect(await listAutosaveSessions()).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { cloneOverlaysForPaste, getPasteOffset, parseOverlayClipboard, serializeOverlayClipboard } from './utils/clipboard';
+import { TextOverlay } from './types';
+
+const createOverlay = (id: string, x: number, y: number, extra: Partial<TextOverlay> = {}): TextOverlay => ({
+  id,
+  type: 'text',
+  rect: { x, y, width: 50, height: 20 },
+  originalText: id,
+  newText: id,
+  fontSize: 12,
+  fontWeight: 'normal',
+  fontColor: '#000000',
+  fontFamily: 'Inter',
+  backgroundColor: 'transparent',
+  vAlign: 'top',
+  hAlign: 'left',
+  ...extra,
+});
+
+describe('overlay clipboard payload', () => {
+  it('round-trips overlays', () => {
+    const overlays = [createOverlay('a', 10, 20, { runs: [{ text: 'a', bold: true }] })];
+    const parsed = parseOverlayClipboard(serializeOverlayClipboard(overlays));
+    expect(parsed?.[0].rect).toEqual(overlays[0].rect);
+    expect(parsed?.[0].runs).toEqual(overlays[0].runs);
+  });
+
+  it('ignores foreign clipboard data', () => {
+    expect(parseOverlayClipboard('plain text')).toBeNull();
+    expect(parseOverlayClipboard(JSON.stringify({ version: 1, overlays: [] }))).toBeNull();
+    expect(parseOverlayClipboard(JSON.stringify({ overlays: [createOverlay('a', 0, 0)] }))).toBeNull();
+  });
+});
+
+describe('getPasteOffset', () => {
+  it('pastes in place on a slide without the originals', () => {
+    expect(getPasteOffset([], [createOverlay('a', 10, 10)], 20)).toEqual({ x: 0, y: 0 });
+  });
+
+  it('steps past earlier copies on the same slide', () => {
+    const existing = [createOverlay('a', 10, 10), createOverlay('b', 30, 30)];
+    expect(getPasteOffset(existing, [createOverlay('a', 10, 10)], 20)).toEqual({ x: 40, y: 40 });
+  });
+});
+
+describe('cloneOverlaysForPaste', () => {
+  it('assigns fresh ids and a new shared group', () => {
+    const source = [createOverlay('a', 0, 0, { groupId: 'g' }), createOverlay('b', 10, 0, { groupId: 'g' })];
+    const pasted = cloneOverlaysForPaste(source, { x: 5, y: 5 });
+    expect(pasted.map((overlay) => overlay.id)).not.toContain('a');
+    expect(pasted[0].id).not.toBe(pasted[1].id);
+    expect(pasted[0].groupId).toBe(pasted[1].groupId);
+    expect(pasted[0].groupId).not.toBe('g');
+    expect(pasted[1].rect).toMatchObject({ x: 15, y: 5 });
+    expect(source[1].rect.x).toBe(10);
+  });
+});
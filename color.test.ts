@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { detectBorderColor, detectForegroundColor, isTransparentColor, parseCssColor, rgbToHex } from './utils/color';
+
+describe('parseCssColor', () => {
+  it('parses short and long hex notations', () => {
+    expect(parseCssColor('#fff')).toEqual({ hex: 'FFFFFF', alpha: 1 });
+    expect(parseCssColor('#1a2b3c')).toEqual({ hex: '1A2B3C', alpha: 1 });
+    expect(parseCssColor('#00000080')?.alpha).toBeCloseTo(128 / 255);
+  });
+
+  it('parses rgb and rgba functions', () => {
+    expect(parseCssColor('rgb(255, 0, 16)')).toEqual({ hex: 'FF0010', alpha: 1 });
+    expect(parseCssColor('rgba(0,0,0,0)')).toEqual({ hex: '000000', alpha: 0 });
+  });
+
+  it('returns null for unsupported values', () => {
+    expect(parseCssColor('not-a-color')).toBeNull();
+    expect(parseCssColor('#12')).toBeNull();
+  });
+});
+
+describe('color helpers', () => {
+  it('detects transparent colors used for overlay backgrounds', () => {
+    expect(isTransparentColor('transparent')).toBe(true);
+    expect(isTransparentColor('rgba(0,0,0,0)')).toBe(true);
+    expect(isTransparentColor('#ffffff')).toBe(false);
+  });
+
+  it('formats rgb channels as hex', () => {
+    expect(rgbToHex(255, 8, 300)).toBe('#ff08ff');
+  });
+});
+
+describe('region color detection', () => {
+  const fillRegion = (width: number, height: number, color: [number, number, number]) => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < data.length; i += 4) data.set([...color, 255], i);
+    return data;
+  };
+
+  it('picks the dominant border color and the glyph color inside', () => {
+    const data = fillRegion(20, 20, [250, 250, 250]);
+    for (let y = 8; y < 12; y++) {
+      for (let x = 4; x < 16; x++) data.set([20, 40, 200, 255], (y * 20 + x) * 4);
+    }
+
+    const background = detectBorderColor(data, 20, 20);
+    expect(background).toBe('#fafafa');
+    expect(detectForegroundColor(data, 20, 20, background)).toBe('#1428c8');
+  });
+
+  it('falls back to a contrasting color when no glyph pixels stand out', () => {
+    expect(detectForegroundColor(fillRegion(4, 4, [10, 10, 10]), 4, 4, '#0a0a0a')).toBe('#ffffff');
+  });
+});
@@ -0,0 +1,84 @@
+
+import React from 'react';
+import { AlignEdge, DistributeAxis } from '../utils/arrange';
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  Group,
+  LucideIcon,
+  Ungroup
+} from 'lucide-react';
+
+interface ArrangeToolbarProps {
+  selectedCount: number;
+  canDistribute: boolean;
+  canUngroup: boolean;
+  isDark: boolean;
+  onAlign: (edge: AlignEdge) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  onGroup: () => void;
+  onUngroup: () => void;
+}
+
+const ALIGN_BUTTONS: { edge: AlignEdge; label: string; Icon: LucideIcon }[] = [
+  { edge: 'left', label: '왼쪽 맞춤', Icon: AlignStartVertical },
+  { edge: 'center', label: '가운데 맞춤', Icon: AlignCenterVertical },
+  { edge: 'right', label: '오른쪽 맞춤', Icon: AlignEndVertical },
+  { edge: 'top', label: '위쪽 맞춤', Icon: AlignStartHorizontal },
+  { edge: 'middle', label: '중간 맞춤', Icon: AlignCenterHorizontal },
+  { edge: 'bottom', label: '아래쪽 맞춤', Icon: AlignEndHorizontal },
+];
+
+const ArrangeToolbar: React.FC<ArrangeToolbarProps> = ({
+  selectedCount,
+  canDistribute,
+  canUngroup,
+  isDark,
+  onAlign,
+  onDistribute,
+  onGroup,
+  onUngroup,
+}) => {
+  const panelStyle = {
+    backgroundColor: isDark ? '#0f131a' : '#ffffff',
+    borderColor: isDark ? '#1f2430' : '#e5e7eb',
+    color: isDark ? '#d1d5db' : '#1f2937'
+  };
+  const subtleTextColor = isDark ? '#94a3b8' : '#64748b';
+  const buttonClassName = 'p-1.5 rounded-md hover:bg-indigo-500/10 disabled:opacity-30 disabled:hover:bg-transparent';
+  const divider = <div className="w-px h-4" style={{ backgroundColor: panelStyle.borderColor }}></div>;
+
+  return (
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 flex items-center gap-1 px-3 py-1.5 rounded-xl border shadow-2xl" style={panelStyle}>
+      <span className="text-xs font-semibold mr-1" style={{ color: subtleTextColor }}>{selectedCount}개 선택</span>
+      {divider}
+      {ALIGN_BUTTONS.map(({ edge, label, Icon }) => (
+        <button key={edge} onClick={() => onAlign(edge)} className={buttonClassName} title={label}>
+          <Icon size={16} />
+        </button>
+      ))}
+      {divider}
+      <button onClick={() => onDistribute('horizontal')} disabled={!canDistribute} className={buttonClassName} title="가로 간격 균등">
+        <AlignHorizontalDistributeCenter size={16} />
+      </button>
+      <button onClick={() => onDistribute('vertical')} disabled={!canDistribute} className={buttonClassName} title="세로 간격 균등">
+        <AlignVerticalDistributeCenter size={16} />
+      </button>
+      {divider}
+      <button onClick={onGroup} className={buttonClassName} title="그룹 (Ctrl+G)">
+        <Group size={16} />
+      </button>
+      <button onClick={onUngroup} disabled={!canUngroup} className={buttonClassName} title="그룹 해제 (Ctrl+Shift+G)">
+        <Ungroup size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default ArrangeToolbar;
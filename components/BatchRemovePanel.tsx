@@ -0,0 +1,291 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { SlideData } from '../types';
+import { removeAllTextFromSlide } from '../services/geminiService';
+import { INPAINT_ENGINE_LABELS, InpaintEngine, inpaintRects } from '../services/inpaintService';
+import { runTaskQueue } from '../utils/taskQueue';
+import { MaskRect } from '../utils/inpaint';
+import { BATCH_TEXT_REMOVAL_CONCURRENCY } from '../constants';
+import { AlertCircle, Check, Eraser, Loader2, RotateCcw, Square, X } from 'lucide-react';
+
+// Slides are named by their index when the batch started; the source image lets the caller
+// skip any of them that were moved or edited before the result was applied.
+export interface BatchRemoveResult {
+  slideIndices: number[];
+  sourceDataUrl: string;
+  cleanDataUrl: string;
+}
+
+type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+interface JobItem {
+  slideIndices: number[]; // Selected slides sharing this image; the first one identifies the job
+  sourceDataUrl: string;
+  textRects: MaskRect[];
+  status: JobStatus;
+  cleanDataUrl?: string;
+  error?: string;
+  accepted: boolean;
+}
+
+interface BatchRemovePanelProps {
+  slides: SlideData[];
+  activeSlideIdx: number;
+  isDark: boolean;
+  onAccept: (results: BatchRemoveResult[]) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  queued: '대기',
+  running: '처리 중',
+  done: '완료',
+  failed: '실패',
+  cancelled: '취소됨',
+};
+
+const BatchRemovePanel: React.FC<BatchRemovePanelProps> = ({ slides, activeSlideIdx, isDark, onAccept, onClose }) => {
+  const [selected, setSelected] = useState<Set<number>>(() => new Set([activeSlideIdx]));
+  const [jobs, setJobs] = useState<JobItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [engine, setEngine] = useState<InpaintEngine>('gemini');
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Closing the panel abandons the job.
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const panelStyle = {
+    backgroundColor: isDark ? '#0f131a' : '#ffffff',
+    borderColor: isDark ? '#1f2430' : '#e5e7eb',
+    color: isDark ? '#d1d5db' : '#1f2937'
+  };
+  const rowStyle = {
+    backgroundColor: isDark ? 'rgba(30, 41, 59, 0.5)' : '#f8fafc',
+    borderColor: isDark ? '#334155' : '#e2e8f0'
+  };
+  const subtleTextColor = isDark ? '#94a3b8' : '#64748b';
+
+  const updateJob = (slideIndex: number, patch: Partial<JobItem>) => {
+    setJobs((prev) => prev.map((job) => (job.slideIndices[0] === slideIndex ? { ...job, ...patch } : job)));
+  };
+
+  const runJobs = async (targets: JobItem[]) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+
+    await runTaskQueue(
+      targets,
+      async (job, _index, signal) => {
+        if (engine === 'local') {
+          // The local engine has no text detection of its own; it clears the regions of existing text overlays.
+          if (job.textRects.length === 0) throw new Error('로컬 엔진은 텍스트 오버레이가 있는 영역만 지울 수 있습니다.');
+          return inpaintRects(job.sourceDataUrl, job.textRects, 2);
+        }
+        const cleanDataUrl = await removeAllTextFromSlide(job.sourceDataUrl, signal);
+        if (!cleanDataUrl) throw new Error('AI 모델 응답이 비어있습니다.');
+        return cleanDataUrl;
+      },
+      {
+        concurrency: BATCH_TEXT_REMOVAL_CONCURRENCY,
+        signal: controller.signal,
+        onTaskStart: (index) => updateJob(targets[index].slideIndices[0], { status: 'running', error: undefined }),
+        onTaskSettle: (index, result) => {
+          const [slideIndex] = targets[index].slideIndices;
+          if (result.status === 'fulfilled') {
+            updateJob(slideIndex, { status: 'done', cleanDataUrl: result.value, accepted: true });
+          } else if (controller.signal.aborted) {
+            updateJob(slideIndex, { status: 'cancelled' });
+          } else if (result.status === 'rejected') {
+            const { reason } = result;
+            updateJob(slideIndex, { status: 'failed', error: reason instanceof Error ? reason.message : String(reason) });
+          }
+        },
+      }
+    );
+
+    setJobs((prev) => prev.map((job) => (job.status === 'queued' ? { ...job, status: 'cancelled' } : job)));
+    controllerRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleStart = () => {
+    // The same image may appear on several slides (e.g. duplicates); process it once for all of them.
+    const bySource = new Map<string, JobItem>();
+    [...selected].sort((a, b) => a - b).forEach((index) => {
+      const slide = slides[index];
+      if (!slide) return;
+      const existing = bySource.get(slide.dataUrl);
+      if (existing) {
+        existing.slideIndices.push(index);
+        return;
+      }
+      // Rotated text boxes are masked as drawn, so their corners are cleared and nothing outside them is.
+      const textRects = slide.overlays
+        .filter((overlay) => overlay.type !== 'image')
+        .map((overlay) => ({ ...overlay.rect, rotation: overlay.rotation }));
+      bySource.set(slide.dataUrl, { slideIndices: [index], sourceDataUrl: slide.dataUrl, textRects, status: 'queued', accepted: false });
+    });
+    const targets = Array.from(bySource.values());
+    if (targets.length === 0) return;
+    setJobs(targets);
+    runJobs(targets);
+  };
+
+  const handleRetry = () => {
+    const targets = jobs.filter((job) => job.status === 'failed' || job.status === 'cancelled');
+    if (targets.length === 0) return;
+    const retryIndices = new Set(targets.map((job) => job.slideIndices[0]));
+    setJobs((prev) => prev.map((job) => (retryIndices.has(job.slideIndices[0]) ? { ...job, status: 'queued', error: undefined } : job)));
+    runJobs(targets.map((job) => ({ ...job, status: 'queued' })));
+  };
+
+  const handleApply = () => {
+    const results = jobs.flatMap(({ slideIndices, sourceDataUrl, cleanDataUrl, status, accepted }): BatchRemoveResult[] =>
+      status === 'done' && accepted && cleanDataUrl ? [{ slideIndices, sourceDataUrl, cleanDataUrl }] : []
+    );
+    if (results.length > 0) onAccept(results);
+  };
+
+  const toggleSlide = (index: number) => {
+    const next = new Set(selected);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    setSelected(next);
+  };
+
+  const doneCount = jobs.filter((job) => job.status === 'done').length;
+  const acceptedCount = jobs.filter((job) => job.status === 'done' && job.accepted).length;
+  const retryableCount = jobs.filter((job) => job.status === 'failed' || job.status === 'cancelled').length;
+  const settledCount = jobs.filter((job) => job.status !== 'queued' && job.status !== 'running').length;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40 w-[26rem] max-h-[75vh] rounded-2xl border shadow-2xl flex flex-col" style={panelStyle}>
+      <div className="px-4 py-3 border-b flex items-center justify-between" style={{ borderColor: panelStyle.borderColor }}>
+        <h2 className="text-sm font-bold flex items-center gap-2">
+          <Eraser size={16} className="text-blue-400" />
+          텍스트 전체 제거
+          {jobs.length > 0 && (
+            <span className="text-xs font-mono" style={{ color: subtleTextColor }}>{settledCount}/{jobs.length}</span>
+          )}
+        </h2>
+        <button onClick={onClose} className="p-1 rounded" style={{ color: subtleTextColor }} title={isRunning ? '작업 취소 후 닫기' : '닫기'}>
+          <X size={16} />
+        </button>
+      </div>
+
+      {jobs.length === 0 ? (
+        <>
+          <div className="px-4 pt-3 flex items-center gap-3 text-xs">
+            <button onClick={() => setSelected(new Set(slides.map((_, i) => i)))} className="font-semibold text-indigo-400">전체 선택</button>
+            <button onClick={() => setSelected(new Set([activeSlideIdx]))} className="font-semibold" style={{ color: subtleTextColor }}>현재 슬라이드만</button>
+            <span className="ml-auto" style={{ color: subtleTextColor }}>{selected.size}장 선택</span>
+          </div>
+          <div className="flex-1 overflow-y-auto p-4 grid grid-cols-4 gap-2">
+            {slides.map((slide, index) => (
+              <button
+                key={`batch-${index}`}
+                onClick={() => toggleSlide(index)}
+                className={`relative rounded-md overflow-hidden border-2 ${selected.has(index) ? 'border-indigo-500' : 'border-transparent opacity-60'}`}
+              >
+                <img src={slide.dataUrl} alt={`Slide ${index + 1}`} className="w-full aspect-[16/9] object-contain" style={{ backgroundColor: rowStyle.backgroundColor }} />
+                <span className="absolute bottom-0.5 right-1 text-[10px] font-bold text-white drop-shadow">{index + 1}</span>
+              </button>
+            ))}
+          </div>
+        </>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {jobs.map((job) => (
+            <div key={job.slideIndices[0]} className="rounded-xl border p-2 space-y-2" style={rowStyle}>
+              <div className="flex items-center gap-2 text-xs">
+                <span className="font-semibold">슬라이드 {job.slideIndices.map((index) => index + 1).join(', ')}</span>
+                <span className="flex items-center gap-1" style={{ color: job.status === 'failed' ? '#f87171' : subtleTextColor }}>
+                  {job.status === 'running' && <Loader2 size={12} className="animate-spin" />}
+                  {job.status === 'failed' && <AlertCircle size={12} />}
+                  {STATUS_LABELS[job.status]}
+                </span>
+                {job.status === 'done' && (
+                  <label className="ml-auto flex items-center gap-1 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={job.accepted}
+                      onChange={(e) => updateJob(job.slideIndices[0], { accepted: e.target.checked })}
+                    />
+                    적용
+                  </label>
+                )}
+              </div>
+              {job.error && <p className="text-[11px] text-red-400 break-all">{job.error}</p>}
+              {job.cleanDataUrl && (
+                <div className="grid grid-cols-2 gap-2">
+                  <figure>
+                    <img src={job.sourceDataUrl} alt="before" className="w-full rounded object-contain" />
+                    <figcaption className="text-[10px] text-center" style={{ color: subtleTextColor }}>이전</figcaption>
+                  </figure>
+                  <figure>
+                    <img src={job.cleanDataUrl} alt="after" className="w-full rounded object-contain" />
+                    <figcaption className="text-[10px] text-center" style={{ color: subtleTextColor }}>이후</figcaption>
+                  </figure>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="px-4 py-3 border-t flex items-center gap-2" style={{ borderColor: panelStyle.borderColor }}>
+        {jobs.length === 0 ? (
+          <>
+            <select
+              value={engine}
+              onChange={(e) => setEngine(e.target.value as InpaintEngine)}
+              className="px-2 py-1.5 rounded-md text-xs border bg-transparent focus:outline-none"
+              style={{ borderColor: panelStyle.borderColor }}
+              title="배경 복원 엔진"
+            >
+              {(Object.keys(INPAINT_ENGINE_LABELS) as InpaintEngine[]).map((value) => (
+                <option key={value} value={value}>{INPAINT_ENGINE_LABELS[value]}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleStart}
+              disabled={selected.size === 0}
+              className="ml-auto px-3 py-1.5 rounded-md text-xs font-semibold bg-indigo-600 text-white disabled:opacity-50"
+            >
+              {selected.size}장 처리 시작
+            </button>
+          </>
+        ) : isRunning ? (
+          <button
+            onClick={() => controllerRef.current?.abort()}
+            className="ml-auto px-3 py-1.5 rounded-md text-xs font-semibold border flex items-center gap-1"
+            style={{ borderColor: panelStyle.borderColor }}
+          >
+            <Square size={12} /> 취소
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={handleRetry}
+              disabled={retryableCount === 0}
+              className="px-3 py-1.5 rounded-md text-xs font-semibold border flex items-center gap-1 disabled:opacity-40"
+              style={{ borderColor: panelStyle.borderColor }}
+            >
+              <RotateCcw size={12} /> 실패 항목 재시도 ({retryableCount})
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={acceptedCount === 0}
+              className="ml-auto px-3 py-1.5 rounded-md text-xs font-semibold bg-indigo-600 text-white flex items-center gap-1 disabled:opacity-50"
+            >
+              <Check size={12} /> {acceptedCount}/{doneCount}장 적용
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchRemovePanel;
@@ -0,0 +1,94 @@
+
+import React from 'react';
+import { TextOverlay } from '../types';
+import { Check, ScanText, X } from 'lucide-react';
+
+interface DetectionReviewPanelProps {
+  drafts: TextOverlay[];
+  isDark: boolean;
+  highlightedId: string | null;
+  onHighlight: (id: string | null) => void;
+  onAccept: (ids: string[]) => void;
+  onReject: (ids: string[]) => void;
+}
+
+const DetectionReviewPanel: React.FC<DetectionReviewPanelProps> = ({
+  drafts,
+  isDark,
+  highlightedId,
+  onHighlight,
+  onAccept,
+  onReject,
+}) => {
+  if (drafts.length === 0) return null;
+
+  const panelStyle = {
+    backgroundColor: isDark ? '#0f131a' : '#ffffff',
+    borderColor: isDark ? '#1f2430' : '#e5e7eb',
+    color: isDark ? '#d1d5db' : '#1f2937'
+  };
+  const rowStyle = (isHighlighted: boolean) => ({
+    backgroundColor: isHighlighted
+      ? (isDark ? 'rgba(245, 158, 11, 0.15)' : '#fffbeb')
+      : (isDark ? 'rgba(30, 41, 59, 0.5)' : '#f8fafc'),
+    borderColor: isHighlighted ? '#f59e0b' : (isDark ? '#334155' : '#e2e8f0')
+  });
+  const subtleTextColor = isDark ? '#94a3b8' : '#64748b';
+  const allIds = drafts.map((draft) => draft.id);
+
+  return (
+    <div className="fixed bottom-6 left-56 z-40 w-80 max-h-[70vh] rounded-2xl border shadow-2xl flex flex-col" style={panelStyle}>
+      <div className="px-4 py-3 border-b flex items-center justify-between" style={{ borderColor: panelStyle.borderColor }}>
+        <h2 className="text-sm font-bold flex items-center gap-2">
+          <ScanText size={16} className="text-amber-400" />
+          감지된 텍스트
+          <span className="text-xs font-mono" style={{ color: subtleTextColor }}>{drafts.length}</span>
+        </h2>
+        <button onClick={() => onReject(allIds)} className="p-1 rounded" style={{ color: subtleTextColor }} title="모두 거절하고 닫기">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2" onMouseLeave={() => onHighlight(null)}>
+        {drafts.map((draft) => (
+          <div
+            key={draft.id}
+            onMouseEnter={() => onHighlight(draft.id)}
+            className="flex items-start gap-2 rounded-xl border px-3 py-2"
+            style={rowStyle(draft.id === highlightedId)}
+          >
+            <div className="flex-1 min-w-0">
+              <p className="text-sm whitespace-pre-wrap break-words" style={{ fontWeight: draft.fontWeight === 'bold' ? 700 : 400 }}>
+                {draft.newText}
+              </p>
+              <p className="text-[10px] mt-1 flex items-center gap-1" style={{ color: subtleTextColor }}>
+                <span className="inline-block w-2.5 h-2.5 rounded-sm border" style={{ backgroundColor: draft.fontColor, borderColor: panelStyle.borderColor }} />
+                {draft.fontFamily} · {draft.fontSize}px
+              </p>
+            </div>
+            <button onClick={() => onAccept([draft.id])} className="p-1 rounded text-emerald-500 hover:bg-emerald-500/10" title="적용">
+              <Check size={14} />
+            </button>
+            <button onClick={() => onReject([draft.id])} className="p-1 rounded hover:text-red-400" style={{ color: subtleTextColor }} title="거절">
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="px-4 py-3 border-t flex items-center justify-between" style={{ borderColor: panelStyle.borderColor }}>
+        <button onClick={() => onReject(allIds)} className="text-xs font-semibold text-red-400 hover:text-red-300">
+          모두 거절
+        </button>
+        <button
+          onClick={() => onAccept(allIds)}
+          className="px-3 py-1.5 rounded-md text-xs font-semibold bg-indigo-600 text-white flex items-center gap-1"
+        >
+          <Check size={12} /> 모두 적용
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DetectionReviewPanel;
@@ -1,11 +1,28 @@
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { SlideData, Rect, Point, HandleType, TextOverlay, ErasePath } from '../types';
-import { COLORS, HANDLE_SIZE, MIN_RECT_SIZE, ZOOM_STEP, MAX_ZOOM, MIN_ZOOM, PAN_STEP } from '../constants';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import { SlideData, Rect, Point, HandleType, TextOverlay, ErasePath, Guide, GuideAxis, GuideScope } from '../types';
+import {
+  COLORS,
+  DEFAULT_GRID_SIZE,
+  HANDLE_SIZE,
+  MIN_RECT_SIZE,
+  RULER_SIZE,
+  SNAP_THRESHOLD,
+  ZOOM_STEP,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  PAN_STEP
+} from '../constants';
+import { applyOverlayTransform, drawOverlayContent } from '../utils/overlayRenderer';
+import { expandToGroups, getOverlayBounds, getSelectionBounds, moveOverlays, resizeOverlays, rotateOverlays } from '../utils/arrange';
+import { SnapContext, SnapLine, snapMove, snapPosition, snapResize } from '../utils/snapping';
+import { createId } from '../utils/id';
+import { isOverlayEditable, isOverlayVisible } from '../utils/layers';
+import { Grid3x3, Ruler } from 'lucide-react';
 
 interface EditorCanvasProps {
   slide: SlideData;
-  selectedOverlayId: string | null;
+  selectedOverlayIds: string[];
   draftOverlay: Partial<TextOverlay> | null; // New prop for live preview
   isDark: boolean;
   isEraseMode: boolean;
@@ -14,13 +31,83 @@ interface EditorCanvasProps {
   erasePaths: ErasePath[];
   onErasePathCommit: (path: ErasePath) => void;
   onSelectionChange: (rect: Rect | null) => void;
-  onOverlaySelect: (id: string | null) => void;
+  onOverlaySelect: (ids: string[]) => void;
   onUpdateOverlays: (overlays: TextOverlay[]) => void;
+  proposedOverlays?: TextOverlay[]; // Detected text awaiting review
+  highlightedProposalId?: string | null;
+  deckGuides: Guide[];
+  onGuidesChange: (scope: GuideScope, guides: Guide[]) => void;
 }
 
+interface GuideDrag {
+  id: string | null; // null while a new guide is being pulled out of a ruler
+  scope: GuideScope;
+  axis: GuideAxis;
+  position: number;
+}
+
+// Deck guides live outside the slides, and undo history only records slides, so the label says so.
+const GUIDE_SCOPE_LABELS: Record<GuideScope, string> = {
+  slide: '이 슬라이드',
+  deck: '전체 슬라이드 (되돌리기 안 됨)',
+};
+
+// Screen distance within which a guide can be grabbed.
+const GUIDE_HIT_TOLERANCE = 4;
+
+// Stable default so the draw callback isn't recreated on every render.
+const NO_PROPOSALS: TextOverlay[] = [];
+const NO_GUIDES: Guide[] = [];
+
+const toImage = (src?: string): HTMLImageElement | null => {
+  if (!src) return null;
+  const img = new Image();
+  img.src = src;
+  return img;
+};
+
+// Picks a tick spacing that keeps ruler labels at least ~50 screen pixels apart.
+const getRulerStep = (zoom: number): number => {
+  const steps = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000];
+  return steps.find(step => step * zoom >= 50) ?? steps[steps.length - 1];
+};
+
+// Frame, resize handles and rotation stick around a selected overlay or a multi-selection.
+const drawSelectionFrame = (ctx: CanvasRenderingContext2D, rect: Rect, zoom: number) => {
+  ctx.strokeStyle = COLORS.primary;
+  ctx.lineWidth = 2 / zoom;
+  ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+
+  const handleSize = HANDLE_SIZE / zoom;
+  const handles: Point[] = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width / 2, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height / 2 },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x + rect.width / 2, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height / 2 },
+  ];
+  ctx.fillStyle = COLORS.handle;
+  handles.forEach(h => {
+    ctx.fillRect(h.x - handleSize / 2, h.y - handleSize / 2, handleSize, handleSize);
+  });
+
+  ctx.beginPath();
+  ctx.moveTo(rect.x + rect.width / 2, rect.y);
+  ctx.lineTo(rect.x + rect.width / 2, rect.y - (30 / zoom));
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.arc(rect.x + rect.width / 2, rect.y - (30 / zoom), handleSize, 0, Math.PI * 2);
+  ctx.fillStyle = COLORS.handle;
+  ctx.fill();
+};
+
 const EditorCanvas: React.FC<EditorCanvasProps> = ({ 
   slide, 
-  selectedOverlayId,
+  selectedOverlayIds,
   draftOverlay,
   isDark,
   isEraseMode,
@@ -30,7 +117,11 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
   onErasePathCommit,
   onSelectionChange, 
   onOverlaySelect,
-  onUpdateOverlays 
+  onUpdateOverlays,
+  proposedOverlays = NO_PROPOSALS,
+  highlightedProposalId = null,
+  deckGuides,
+  onGuidesChange
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -53,6 +144,27 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
   const [startPoint, setStartPoint] = useState<Point | null>(null);
   const [image, setImage] = useState<HTMLImageElement | null>(null);
   const [initialRotation, setInitialRotation] = useState(0);
+  const [marquee, setMarquee] = useState<Rect | null>(null);
+  const [snapGuides, setSnapGuides] = useState<SnapLine[]>([]);
+  const [showRulers, setShowRulers] = useState(false);
+  const [showGrid, setShowGrid] = useState(false);
+  const [gridSize, setGridSize] = useState(DEFAULT_GRID_SIZE);
+  const [newGuideScope, setNewGuideScope] = useState<GuideScope>('slide');
+  const [guideDrag, setGuideDrag] = useState<GuideDrag | null>(null);
+  // Overlay moves, resizes and rotations are computed from the overlays as they were when the drag
+  // started, so snapping to a guide never accumulates into drift away from the cursor.
+  const transformStartRef = useRef<{ overlays: TextOverlay[]; ids: string[]; bounds: Rect; origin: Point } | null>(null);
+
+  // Locked and hidden overlays can stay selected (e.g. from the layers panel) but get no handles here.
+  const transformableIds = useMemo(
+    () => selectedOverlayIds.filter(id => slide.overlays.some(o => o.id === id && isOverlayEditable(o))),
+    [selectedOverlayIds, slide.overlays]
+  );
+  const selectedOverlayId = transformableIds.length === 1 ? transformableIds[0] : null;
+  const slideGuides = slide.guides || NO_GUIDES;
+  const groupBounds = transformableIds.length > 1
+    ? getSelectionBounds(slide.overlays.filter(o => transformableIds.includes(o.id)))
+    : null;
   
   // State for draft image loading
   const [draftImage, setDraftImage] = useState<HTMLImageElement | null>(null);
@@ -184,112 +296,17 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
   const drawOverlay = useCallback((ctx: CanvasRenderingContext2D, overlay: Partial<TextOverlay> & { rect: Rect }, isSelected: boolean) => {
     ctx.save();
     
-    // Rotate/Transform context
-    const cx = overlay.rect.x + overlay.rect.width / 2;
-    const cy = overlay.rect.y + overlay.rect.height / 2;
-    
-    ctx.translate(cx, cy);
-    if (overlay.rotation) ctx.rotate((overlay.rotation * Math.PI) / 180);
-    if (overlay.flipHorizontal) ctx.scale(-1, 1);
-    if (overlay.flipVertical) ctx.scale(1, -1);
-    ctx.translate(-cx, -cy);
-
-    // Draw Content
-    if (overlay.type === 'image' && overlay.id && userImageCache.current.has(overlay.id)) {
-      const uImg = userImageCache.current.get(overlay.id);
-      if (uImg) ctx.drawImage(uImg, overlay.rect.x, overlay.rect.y, overlay.rect.width, overlay.rect.height);
-    } 
-    else if (overlay.type === 'image' && overlay.imageSrc) {
-       // Fallback/Direct draw for draft or non-cached
-       const img = new Image();
-       img.src = overlay.imageSrc;
-       ctx.drawImage(img, overlay.rect.x, overlay.rect.y, overlay.rect.width, overlay.rect.height);
-    }
-    else {
-      // Text Overlay
-      if (overlay.backgroundImage && overlay.id && bgImageCache.current.has(overlay.id)) {
-        const bgImg = bgImageCache.current.get(overlay.id);
-        if (bgImg) ctx.drawImage(bgImg, overlay.rect.x, overlay.rect.y, overlay.rect.width, overlay.rect.height);
-      } else if (overlay.backgroundImage) {
-         const img = new Image();
-         img.src = overlay.backgroundImage;
-         ctx.drawImage(img, overlay.rect.x, overlay.rect.y, overlay.rect.width, overlay.rect.height);
-      } else {
-        ctx.fillStyle = overlay.backgroundColor || 'transparent';
-        ctx.fillRect(overlay.rect.x, overlay.rect.y, overlay.rect.width, overlay.rect.height);
-      }
+    applyOverlayTransform(ctx, overlay);
 
-      // Text
-      if (overlay.newText) {
-         ctx.fillStyle = overlay.fontColor || '#000000';
-         const fSize = overlay.fontSize || 16;
-         ctx.font = `${overlay.fontWeight || 'normal'} ${fSize}px ${overlay.fontFamily || 'sans-serif'}, sans-serif`;
-         if (ctx.letterSpacing !== undefined) ctx.letterSpacing = `${overlay.letterSpacing || 0}px`;
-         
-         const lines = overlay.newText.split('\n');
-         const lineHeight = fSize * 1.2;
-         const totalTextHeight = lines.length * lineHeight;
-
-         // Visual adjustment: push text down slightly because standard baseline 'top' is very high
-         // Adding 15% of font size as a downward nudge.
-         const yNudge = fSize * 0.15;
-
-         ctx.textAlign = (overlay.hAlign || 'left') as CanvasTextAlign;
-         ctx.textBaseline = 'top';
-
-         let tx = overlay.rect.x;
-         if (overlay.hAlign === 'center') tx = overlay.rect.x + overlay.rect.width / 2;
-         else if (overlay.hAlign === 'right') tx = overlay.rect.x + overlay.rect.width;
-
-         let ty = overlay.rect.y;
-         if (overlay.vAlign === 'middle') ty = overlay.rect.y + (overlay.rect.height - totalTextHeight) / 2;
-         else if (overlay.vAlign === 'bottom') ty = overlay.rect.y + overlay.rect.height - totalTextHeight;
-
-         // Apply the nudge
-         ty += yNudge;
-
-         lines.forEach((line, index) => {
-            ctx.fillText(line, tx, ty + index * lineHeight);
-         });
-         if (ctx.letterSpacing !== undefined) ctx.letterSpacing = '0px';
-      }
-    }
-
-    // Draw Selection Box & Handles if selected
-    if (isSelected) {
-       ctx.strokeStyle = COLORS.primary;
-       ctx.lineWidth = 2 / zoom;
-       ctx.strokeRect(overlay.rect.x, overlay.rect.y, overlay.rect.width, overlay.rect.height);
-
-       // Handles
-       const handleSize = HANDLE_SIZE / zoom;
-       const handles: Point[] = [
-          { x: overlay.rect.x, y: overlay.rect.y },
-          { x: overlay.rect.x + overlay.rect.width / 2, y: overlay.rect.y },
-          { x: overlay.rect.x + overlay.rect.width, y: overlay.rect.y },
-          { x: overlay.rect.x + overlay.rect.width, y: overlay.rect.y + overlay.rect.height / 2 },
-          { x: overlay.rect.x + overlay.rect.width, y: overlay.rect.y + overlay.rect.height },
-          { x: overlay.rect.x + overlay.rect.width / 2, y: overlay.rect.y + overlay.rect.height },
-          { x: overlay.rect.x, y: overlay.rect.y + overlay.rect.height },
-          { x: overlay.rect.x, y: overlay.rect.y + overlay.rect.height / 2 },
-       ];
-
-       ctx.fillStyle = COLORS.handle;
-       handles.forEach(h => {
-          ctx.fillRect(h.x - handleSize / 2, h.y - handleSize / 2, handleSize, handleSize);
-       });
+    const cachedImage = overlay.id ? userImageCache.current.get(overlay.id) : undefined;
+    const cachedBackground = overlay.id ? bgImageCache.current.get(overlay.id) : undefined;
+    drawOverlayContent(ctx, overlay, {
+      // Fallback/Direct draw for draft or non-cached
+      image: overlay.type === 'image' ? cachedImage || toImage(overlay.imageSrc) : null,
+      background: overlay.backgroundImage ? cachedBackground || toImage(overlay.backgroundImage) : null,
+    });
 
-       // Rotation Handle (Top Stick)
-       ctx.beginPath();
-       ctx.moveTo(overlay.rect.x + overlay.rect.width / 2, overlay.rect.y);
-       ctx.lineTo(overlay.rect.x + overlay.rect.width / 2, overlay.rect.y - (30 / zoom));
-       ctx.stroke();
-       
-       ctx.beginPath();
-       ctx.arc(overlay.rect.x + overlay.rect.width / 2, overlay.rect.y - (30 / zoom), handleSize, 0, Math.PI * 2);
-       ctx.fillStyle = COLORS.handle;
-       ctx.fill();
-    }
+    if (isSelected) drawSelectionFrame(ctx, overlay.rect, zoom);
 
     ctx.restore();
   }, [userImageCache, bgImageCache, zoom]);
@@ -312,11 +329,67 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
 
     ctx.drawImage(image, 0, 0);
 
-    slide.overlays.forEach(overlay => {
+    slide.overlays.filter(isOverlayVisible).forEach(overlay => {
        const isSelected = overlay.id === selectedOverlayId;
        drawOverlay(ctx, overlay, isSelected);
     });
 
+    // Very fine grids are skipped while the size is still being typed.
+    if (showGrid && gridSize >= 5) {
+       ctx.save();
+       ctx.beginPath();
+       for (let x = gridSize; x < slide.width; x += gridSize) {
+          ctx.moveTo(x, 0);
+          ctx.lineTo(x, slide.height);
+       }
+       for (let y = gridSize; y < slide.height; y += gridSize) {
+          ctx.moveTo(0, y);
+          ctx.lineTo(slide.width, y);
+       }
+       ctx.strokeStyle = isDark ? 'rgba(148, 163, 184, 0.35)' : 'rgba(100, 116, 139, 0.35)';
+       ctx.lineWidth = 1 / zoom;
+       ctx.stroke();
+       ctx.restore();
+    }
+
+    if (transformableIds.length > 1) {
+       const selectedOverlays = slide.overlays.filter(o => transformableIds.includes(o.id));
+       selectedOverlays.forEach(overlay => {
+          ctx.save();
+          applyOverlayTransform(ctx, overlay);
+          ctx.strokeStyle = COLORS.primary;
+          ctx.lineWidth = 1 / zoom;
+          ctx.setLineDash([4 / zoom, 3 / zoom]);
+          ctx.strokeRect(overlay.rect.x, overlay.rect.y, overlay.rect.width, overlay.rect.height);
+          ctx.restore();
+       });
+       const bounds = getSelectionBounds(selectedOverlays);
+       if (bounds) drawSelectionFrame(ctx, bounds, zoom);
+    }
+
+    // Automatically filled text (e.g. translations) carries a badge until someone reviews it.
+    slide.overlays.forEach(overlay => {
+       if (!overlay.needsReview || overlay.hidden) return;
+       ctx.save();
+       applyOverlayTransform(ctx, overlay);
+       ctx.beginPath();
+       ctx.arc(overlay.rect.x + overlay.rect.width, overlay.rect.y, 5 / zoom, 0, Math.PI * 2);
+       ctx.fillStyle = '#f59e0b';
+       ctx.fill();
+       ctx.restore();
+    });
+
+    proposedOverlays.forEach(proposal => {
+       const isHighlighted = proposal.id === highlightedProposalId;
+       if (isHighlighted) drawOverlay(ctx, proposal, false);
+       ctx.save();
+       ctx.strokeStyle = '#f59e0b';
+       ctx.lineWidth = (isHighlighted ? 3 : 2) / zoom;
+       ctx.setLineDash([6 / zoom, 4 / zoom]);
+       ctx.strokeRect(proposal.rect.x, proposal.rect.y, proposal.rect.width, proposal.rect.height);
+       ctx.restore();
+    });
+
     if (isEraseMode) {
       const previewPaths = currentErasePath ? [...erasePaths, currentErasePath] : erasePaths;
       const maskCanvas = document.createElement('canvas');
@@ -350,6 +423,30 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
       }
     }
 
+    if (snapGuides.length > 0) {
+       ctx.save();
+       ctx.strokeStyle = COLORS.snapGuide;
+       ctx.lineWidth = 1 / zoom;
+       snapGuides.forEach(guide => {
+          ctx.beginPath();
+          ctx.moveTo(guide.x1, guide.y1);
+          ctx.lineTo(guide.x2, guide.y2);
+          ctx.stroke();
+       });
+       ctx.restore();
+    }
+
+    if (marquee) {
+       ctx.save();
+       ctx.strokeStyle = COLORS.primary;
+       ctx.lineWidth = 1 / zoom;
+       ctx.setLineDash([4 / zoom, 3 / zoom]);
+       ctx.strokeRect(marquee.x, marquee.y, marquee.width, marquee.height);
+       ctx.fillStyle = COLORS.overlay;
+       ctx.fillRect(marquee.x, marquee.y, marquee.width, marquee.height);
+       ctx.restore();
+    }
+
     // Draw Drawing Selection (Blue Box)
     if (selection) {
        // Standard Selection Box for new areas
@@ -386,12 +483,97 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
     }
 
     ctx.restore();
-  }, [image, slide, slide.overlays, selection, zoom, offset, selectedOverlayId, draftOverlay, drawOverlay, isEraseMode, erasePaths, currentErasePath]);
+
+    // Guides and rulers are drawn in screen space so they span the whole canvas at any zoom.
+    const visibleGuides: (Guide & { scope: GuideScope })[] = [
+      ...slideGuides.map(guide => ({ ...guide, scope: 'slide' as const })),
+      ...deckGuides.map(guide => ({ ...guide, scope: 'deck' as const })),
+    ].filter(guide => guide.id !== guideDrag?.id);
+    if (guideDrag) visibleGuides.push({ id: '', axis: guideDrag.axis, position: guideDrag.position, scope: guideDrag.scope });
+    ctx.save();
+    ctx.strokeStyle = COLORS.guide;
+    ctx.lineWidth = 1;
+    visibleGuides.forEach(guide => {
+       // Deck-wide guides are dashed so they can be told apart from this slide's own.
+       ctx.setLineDash(guide.scope === 'deck' ? [6, 4] : []);
+       ctx.beginPath();
+       if (guide.axis === 'x') {
+          const x = Math.round(offset.x + guide.position * zoom) + 0.5;
+          ctx.moveTo(x, 0);
+          ctx.lineTo(x, canvas.height);
+       } else {
+          const y = Math.round(offset.y + guide.position * zoom) + 0.5;
+          ctx.moveTo(0, y);
+          ctx.lineTo(canvas.width, y);
+       }
+       ctx.stroke();
+    });
+    ctx.restore();
+
+    if (showRulers) {
+       const step = getRulerStep(zoom);
+       const rulerBg = isDark ? '#11151d' : '#f8fafc';
+       const rulerInk = isDark ? '#94a3b8' : '#64748b';
+       ctx.save();
+       ctx.fillStyle = rulerBg;
+       ctx.fillRect(0, 0, canvas.width, RULER_SIZE);
+       ctx.fillRect(0, 0, RULER_SIZE, canvas.height);
+       ctx.strokeStyle = rulerInk;
+       ctx.fillStyle = rulerInk;
+       ctx.lineWidth = 1;
+       ctx.font = '10px sans-serif';
+       ctx.textBaseline = 'top';
+
+       ctx.beginPath();
+       const firstX = Math.floor(-offset.x / zoom / step) * step;
+       for (let x = firstX; offset.x + x * zoom < canvas.width; x += step / 2) {
+          const sx = Math.round(offset.x + x * zoom) + 0.5;
+          const isMajor = x % step === 0;
+          ctx.moveTo(sx, RULER_SIZE);
+          ctx.lineTo(sx, isMajor ? 0 : RULER_SIZE / 2);
+          if (isMajor) ctx.fillText(String(x), sx + 2, 2);
+       }
+       const firstY = Math.floor(-offset.y / zoom / step) * step;
+       for (let y = firstY; offset.y + y * zoom < canvas.height; y += step / 2) {
+          const sy = Math.round(offset.y + y * zoom) + 0.5;
+          const isMajor = y % step === 0;
+          ctx.moveTo(RULER_SIZE, sy);
+          ctx.lineTo(isMajor ? 0 : RULER_SIZE / 2, sy);
+          if (isMajor) {
+             ctx.save();
+             ctx.translate(2, sy - 2);
+             ctx.rotate(-Math.PI / 2);
+             ctx.fillText(String(y), 0, 0);
+             ctx.restore();
+          }
+       }
+       ctx.stroke();
+
+       ctx.fillStyle = rulerBg;
+       ctx.fillRect(0, 0, RULER_SIZE, RULER_SIZE);
+       ctx.strokeStyle = isDark ? '#1f2430' : '#e5e7eb';
+       ctx.beginPath();
+       ctx.moveTo(0, RULER_SIZE + 0.5);
+       ctx.lineTo(canvas.width, RULER_SIZE + 0.5);
+       ctx.moveTo(RULER_SIZE + 0.5, 0);
+       ctx.lineTo(RULER_SIZE + 0.5, canvas.height);
+       ctx.stroke();
+       ctx.restore();
+    }
+  }, [image, slide, slide.overlays, selection, zoom, offset, selectedOverlayId, transformableIds, marquee, snapGuides, showGrid, gridSize, showRulers, slideGuides, deckGuides, guideDrag, isDark, draftOverlay, drawOverlay, isEraseMode, erasePaths, currentErasePath, proposedOverlays, highlightedProposalId]);
 
   useEffect(() => {
     draw();
   }, [draw]);
 
+  // Text drawn while a font was still loading used the fallback face; draw again once it arrives.
+  useEffect(() => {
+    if (!document.fonts) return;
+    const handleFontsLoaded = () => draw();
+    document.fonts.addEventListener('loadingdone', handleFontsLoaded);
+    return () => document.fonts.removeEventListener('loadingdone', handleFontsLoaded);
+  }, [draw]);
+
   const getCanvasCoords = (e: React.MouseEvent | any): Point => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
@@ -454,7 +636,7 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
     const localP = rotation ? rotatePoint(p, center, -rotation) : p;
 
     // Check Rotation Handle (Top)
-    if (selectedOverlayId) {
+    if (transformableIds.length > 0) {
         const rotHandlePos = { x: rect.x + rect.width / 2, y: rect.y - (30 / zoom) };
         if (Math.abs(localP.x - rotHandlePos.x) < tolerance && Math.abs(localP.y - rotHandlePos.y) < tolerance) {
             return 'rotate';
@@ -477,6 +659,39 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
     return null;
   };
 
+  // The box whose handles respond to the mouse: the multi-selection frame, the selected overlay or the drawn area.
+  const getTransformTarget = (): { rect: Rect; rotation: number } | null => {
+    if (groupBounds) return { rect: groupBounds, rotation: 0 };
+    const ov = selectedOverlayId ? slide.overlays.find(o => o.id === selectedOverlayId) : undefined;
+    if (ov) return { rect: ov.rect, rotation: ov.rotation || 0 };
+    return selection ? { rect: selection, rotation: 0 } : null;
+  };
+
+  const getSnapContext = (overlays: TextOverlay[], movingIds: string[]): SnapContext => ({
+    others: overlays.filter(o => isOverlayVisible(o) && !movingIds.includes(o.id)).map(getOverlayBounds),
+    slideWidth: slide.width,
+    slideHeight: slide.height,
+    threshold: SNAP_THRESHOLD / zoom,
+    guides: [...slideGuides, ...deckGuides],
+  });
+
+  const getGuideAt = (screenP: Point): GuideDrag | null => {
+    const hit = (guide: Guide) => {
+      const screenPos = guide.axis === 'x' ? offset.x + guide.position * zoom : offset.y + guide.position * zoom;
+      return Math.abs((guide.axis === 'x' ? screenP.x : screenP.y) - screenPos) <= GUIDE_HIT_TOLERANCE;
+    };
+    const slideGuide = slideGuides.find(hit);
+    if (slideGuide) return { ...slideGuide, scope: 'slide' };
+    const deckGuide = deckGuides.find(hit);
+    return deckGuide ? { ...deckGuide, scope: 'deck' } : null;
+  };
+
+  // Position relative to the canvas element, the space rulers and guides are drawn in.
+  const getCanvasScreenCoords = (e: React.MouseEvent): Point => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return { x: e.clientX - (rect?.left || 0), y: e.clientY - (rect?.top || 0) };
+  };
+
   const handleMouseDown = (e: React.MouseEvent) => {
     if (isEraseMode) {
       if (e.button !== 0) return;
@@ -485,7 +700,7 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
       setCurrentErasePath({ mode: eraseTool, size: eraseBrushSize, points: [p] });
       setSelection(null);
       onSelectionChange(null);
-      onOverlaySelect(null);
+      onOverlaySelect([]);
       return;
     }
 
@@ -496,25 +711,27 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
     }
 
     const p = getCanvasCoords(e);
-    
-    // Check handles on current selection or selected overlay
-    let targetRect = selection;
-    let rotation = 0;
-    
-    if (selectedOverlayId) {
-       const ov = slide.overlays.find(o => o.id === selectedOverlayId);
-       if (ov) {
-         targetRect = ov.rect;
-         rotation = ov.rotation || 0;
-       }
+    const localP = getCanvasScreenCoords(e);
+
+    // Pulling out of a ruler creates a guide: the top ruler gives horizontal guides, the left one vertical.
+    if (showRulers && (localP.x < RULER_SIZE || localP.y < RULER_SIZE)) {
+      if (localP.x < RULER_SIZE && localP.y < RULER_SIZE) return;
+      const axis: GuideAxis = localP.y < RULER_SIZE ? 'y' : 'x';
+      setGuideDrag({ id: null, scope: newGuideScope, axis, position: axis === 'x' ? p.x : p.y });
+      return;
     }
 
-    if (targetRect) {
-      const handle = getHandleAt(p, targetRect, rotation);
+    // Check handles on current selection or selected overlay
+    const target = getTransformTarget();
+    if (target) {
+      const handle = getHandleAt(p, target.rect, target.rotation);
       if (handle) {
+        if (transformableIds.length > 0) {
+          transformStartRef.current = { overlays: slide.overlays, ids: transformableIds, bounds: target.rect, origin: p };
+        }
         if (handle === 'rotate') {
             setIsRotating(true);
-            setInitialRotation(rotation);
+            setInitialRotation(target.rotation);
         } else {
             setIsResizingSelection(true);
             setDragType(handle);
@@ -524,19 +741,49 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
       }
     }
 
+    const grabbedGuide = getGuideAt(localP);
+    if (grabbedGuide) {
+      setGuideDrag(grabbedGuide);
+      return;
+    }
+
     // Hit test for overlays (Top to bottom z-index)
-    const clickedOverlay = [...slide.overlays].reverse().find(o => isPointInRotatedRect(p, o.rect, o.rotation));
+    const clickedOverlay = [...slide.overlays].reverse().find(o => isOverlayEditable(o) && isPointInRotatedRect(p, o.rect, o.rotation));
     
     if (clickedOverlay) {
-      onOverlaySelect(clickedOverlay.id);
-      setIsDraggingOverlay(true);
-      setStartPoint(p);
+      const clickedIds = expandToGroups(slide.overlays, [clickedOverlay.id]);
       setSelection(null);
       onSelectionChange(null);
+      if (e.shiftKey) {
+        // Shift-click adds or removes the overlay (with its group) without starting a drag.
+        onOverlaySelect(selectedOverlayIds.includes(clickedOverlay.id)
+          ? selectedOverlayIds.filter(id => !clickedIds.includes(id))
+          : [...selectedOverlayIds, ...clickedIds]);
+        return;
+      }
+      // Pressing on any part of the current selection drags all of it.
+      const dragIds = selectedOverlayIds.includes(clickedOverlay.id) ? selectedOverlayIds : clickedIds;
+      const movableOverlays = slide.overlays.filter(o => dragIds.includes(o.id) && isOverlayEditable(o));
+      onOverlaySelect(dragIds);
+      transformStartRef.current = {
+        overlays: slide.overlays,
+        ids: movableOverlays.map(o => o.id),
+        bounds: getSelectionBounds(movableOverlays) as Rect,
+        origin: p,
+      };
+      setIsDraggingOverlay(true);
+      setStartPoint(p);
+      return;
+    }
+
+    if (e.shiftKey) {
+      // Shift-drag on empty space draws a marquee that adds every overlay it fully encloses.
+      setMarquee({ x: p.x, y: p.y, width: 0, height: 0 });
+      setStartPoint(p);
       return;
     }
 
-    onOverlaySelect(null);
+    onOverlaySelect([]);
     setIsDrawing(true);
     const newSelection = { x: p.x, y: p.y, width: 0, height: 0 };
     setSelection(newSelection);
@@ -552,26 +799,31 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
     if (canvasRef.current) {
       if (isEraseMode) canvasRef.current.style.cursor = 'crosshair';
       else if (isSpacePressed || isPanning) canvasRef.current.style.cursor = isPanning ? 'grabbing' : 'grab';
+      else if (guideDrag) canvasRef.current.style.cursor = guideDrag.axis === 'x' ? 'ew-resize' : 'ns-resize';
       else if (isRotating) canvasRef.current.style.cursor = 'alias';
       else if (isDraggingOverlay) canvasRef.current.style.cursor = 'grabbing';
       else if (isResizingSelection) canvasRef.current.style.cursor = 'nwse-resize';
       else {
           // Check hover
-          const hoveredOverlay = [...slide.overlays].reverse().find(o => isPointInRotatedRect(canvasP, o.rect, o.rotation));
+          const hoveredOverlay = [...slide.overlays].reverse().find(o => isOverlayEditable(o) && isPointInRotatedRect(canvasP, o.rect, o.rotation));
           if (hoveredOverlay) canvasRef.current.style.cursor = 'pointer';
           else canvasRef.current.style.cursor = 'default';
           
           // Check handle hover if something is selected
-          let targetRect = selection;
-          let rot = 0;
-          if (selectedOverlayId) {
-             const ov = slide.overlays.find(o => o.id === selectedOverlayId);
-             if (ov) { targetRect = ov.rect; rot = ov.rotation || 0; }
-          }
-          if (targetRect && getHandleAt(canvasP, targetRect, rot)) canvasRef.current.style.cursor = 'crosshair';
+          const target = getTransformTarget();
+          const hoveredGuide = getGuideAt(getCanvasScreenCoords(e));
+          if (target && getHandleAt(canvasP, target.rect, target.rotation)) canvasRef.current.style.cursor = 'crosshair';
+          else if (hoveredGuide) canvasRef.current.style.cursor = hoveredGuide.axis === 'x' ? 'ew-resize' : 'ns-resize';
       }
     }
 
+    if (guideDrag) {
+      const rawPosition = guideDrag.axis === 'x' ? canvasP.x : canvasP.y;
+      const others = { ...getSnapContext(slide.overlays, []), guides: [] };
+      setGuideDrag({ ...guideDrag, position: e.altKey ? rawPosition : snapPosition(rawPosition, guideDrag.axis, others) });
+      return;
+    }
+
     if (isEraseMode && isErasing) {
       setCurrentErasePath((prev) => {
         if (!prev) return prev;
@@ -588,10 +840,27 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
       return;
     }
 
-    if (isRotating && selectedOverlayId && startPoint) {
-       // Calculate Angle
-       const ov = slide.overlays.find(o => o.id === selectedOverlayId);
-       if (ov) {
+    if (marquee && startPoint) {
+      setMarquee({
+        x: Math.min(canvasP.x, startPoint.x),
+        y: Math.min(canvasP.y, startPoint.y),
+        width: Math.abs(canvasP.x - startPoint.x),
+        height: Math.abs(canvasP.y - startPoint.y),
+      });
+      return;
+    }
+
+    if (isRotating && startPoint) {
+       const groupDrag = transformStartRef.current && transformStartRef.current.ids.length > 1 ? transformStartRef.current : null;
+       const ov = selectedOverlayId ? slide.overlays.find(o => o.id === selectedOverlayId) : undefined;
+       if (groupDrag) {
+           // Turn the whole selection by the angle swept since the drag started.
+           const center = { x: groupDrag.bounds.x + groupDrag.bounds.width / 2, y: groupDrag.bounds.y + groupDrag.bounds.height / 2 };
+           const startAngle = Math.atan2(groupDrag.origin.y - center.y, groupDrag.origin.x - center.x);
+           const angle = (Math.atan2(canvasP.y - center.y, canvasP.x - center.x) - startAngle) * (180 / Math.PI);
+           onUpdateOverlays(rotateOverlays(groupDrag.overlays, groupDrag.ids, center, angle));
+       } else if (ov) {
+           // Calculate Angle
            const center = { 
                x: (ov.rect.x + ov.rect.width / 2) * zoom + offset.x, // Screen space center
                y: (ov.rect.y + ov.rect.height / 2) * zoom + offset.y 
@@ -622,38 +891,76 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
        const dx = (screenP.x - startPoint.x) / zoomFactor;
        const dy = (screenP.y - startPoint.y) / zoomFactor;
 
-       if (selection) {
+       const transformStart = transformStartRef.current;
+       if (transformStart) {
+            const totalDx = canvasP.x - transformStart.origin.x;
+            const totalDy = canvasP.y - transformStart.origin.y;
+            let newBounds = { ...transformStart.bounds };
+            if (dragType.includes('e')) newBounds.width += totalDx;
+            if (dragType.includes('w')) { newBounds.x += totalDx; newBounds.width -= totalDx; }
+            if (dragType.includes('s')) newBounds.height += totalDy;
+            if (dragType.includes('n')) { newBounds.y += totalDy; newBounds.height -= totalDy; }
+            newBounds = normalizeRect(newBounds);
+
+            const isGroup = transformStart.ids.length > 1;
+            const single = isGroup ? undefined : transformStart.overlays.find(o => o.id === transformStart.ids[0]);
+            // A rotated overlay's handles move along its own axes, which the slide guides don't share.
+            if (!e.altKey && dragType !== 'move' && (isGroup || !single?.rotation)) {
+                const snapped = snapResize(newBounds, dragType, getSnapContext(transformStart.overlays, transformStart.ids));
+                newBounds = normalizeRect(snapped.rect);
+                setSnapGuides(snapped.guides);
+            } else {
+                setSnapGuides([]);
+            }
+
+            onUpdateOverlays(isGroup
+              ? resizeOverlays(transformStart.overlays, transformStart.ids, transformStart.bounds, newBounds)
+              : transformStart.overlays.map(o => o.id === single?.id ? { ...o, rect: newBounds } : o));
+       } else if (selection) {
             let newRect = { ...selection };
             if (dragType.includes('e')) newRect.width += dx;
             if (dragType.includes('w')) { newRect.x += dx; newRect.width -= dx; }
             if (dragType.includes('s')) newRect.height += dy;
             if (dragType.includes('n')) { newRect.y += dy; newRect.height -= dy; }
             setSelection(normalizeRect(newRect));
-       } else if (selectedOverlayId) {
-            const ov = slide.overlays.find(o => o.id === selectedOverlayId);
-            if (ov) {
-                let newRect = { ...ov.rect };
-                if (dragType.includes('e')) newRect.width += dx;
-                if (dragType.includes('w')) { newRect.x += dx; newRect.width -= dx; }
-                if (dragType.includes('s')) newRect.height += dy;
-                if (dragType.includes('n')) { newRect.y += dy; newRect.height -= dy; }
-                newRect = normalizeRect(newRect);
-                
-                const newOverlays = slide.overlays.map(o => o.id === selectedOverlayId ? { ...o, rect: newRect } : o);
-                onUpdateOverlays(newOverlays);
-            }
        }
        setStartPoint(screenP);
-    } else if (isDraggingOverlay && selectedOverlayId && startPoint) {
-      const dx = canvasP.x - startPoint.x;
-      const dy = canvasP.y - startPoint.y;
-      const newOverlays = slide.overlays.map(ov => ov.id === selectedOverlayId ? { ...ov, rect: { ...ov.rect, x: ov.rect.x + dx, y: ov.rect.y + dy } } : ov);
-      onUpdateOverlays(newOverlays);
-      setStartPoint(canvasP);
+    } else if (isDraggingOverlay && transformStartRef.current) {
+      const transformStart = transformStartRef.current;
+      let dx = canvasP.x - transformStart.origin.x;
+      let dy = canvasP.y - transformStart.origin.y;
+      // Holding Alt moves freely.
+      if (!e.altKey) {
+        const moved = { ...transformStart.bounds, x: transformStart.bounds.x + dx, y: transformStart.bounds.y + dy };
+        const snapped = snapMove(moved, getSnapContext(transformStart.overlays, transformStart.ids));
+        dx += snapped.dx;
+        dy += snapped.dy;
+        setSnapGuides(snapped.guides);
+      } else {
+        setSnapGuides([]);
+      }
+      onUpdateOverlays(moveOverlays(transformStart.overlays, transformStart.ids, dx, dy));
     }
   };
 
   const handleMouseUp = () => {
+    if (guideDrag) {
+      const guides = guideDrag.scope === 'slide' ? slideGuides : deckGuides;
+      const limit = guideDrag.axis === 'x' ? slide.width : slide.height;
+      // Dropping a guide off the slide (e.g. back onto its ruler) removes it.
+      const isOnSlide = guideDrag.position >= 0 && guideDrag.position <= limit;
+      const { id, axis, position } = guideDrag;
+      if (id === null) {
+        if (isOnSlide) onGuidesChange(guideDrag.scope, [...guides, { id: createId(), axis, position }]);
+      } else {
+        onGuidesChange(guideDrag.scope, isOnSlide
+          ? guides.map(guide => guide.id === id ? { ...guide, position } : guide)
+          : guides.filter(guide => guide.id !== id));
+      }
+      setGuideDrag(null);
+      return;
+    }
+
     if (isEraseMode) {
       if (isErasing && currentErasePath) {
         onErasePathCommit(currentErasePath);
@@ -663,6 +970,20 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
       return;
     }
 
+    if (marquee) {
+      const enclosedIds = slide.overlays
+        .filter(o => {
+          if (!isOverlayEditable(o)) return false;
+          const bounds = getOverlayBounds(o);
+          return bounds.x >= marquee.x && bounds.y >= marquee.y
+            && bounds.x + bounds.width <= marquee.x + marquee.width
+            && bounds.y + bounds.height <= marquee.y + marquee.height;
+        })
+        .map(o => o.id);
+      onOverlaySelect(expandToGroups(slide.overlays, [...selectedOverlayIds, ...enclosedIds]));
+      setMarquee(null);
+    }
+
     if (isDrawing || isResizingSelection) {
       if (selection && (selection.width < MIN_RECT_SIZE || selection.height < MIN_RECT_SIZE)) {
         setSelection(null);
@@ -679,6 +1000,8 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
     setIsErasing(false);
     setCurrentErasePath(null);
     setStartPoint(null);
+    transformStartRef.current = null;
+    setSnapGuides([]);
   };
 
   return (
@@ -690,7 +1013,7 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
       <canvas ref={canvasRef} onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp} onContextMenu={(e) => e.preventDefault()} className="block w-full h-full" />
       {/* Updated Control Panel: Single line, wider */}
       <div
-        className="absolute top-4 left-1/2 -translate-x-1/2 px-5 py-2.5 rounded-full text-xs font-medium border shadow-2xl pointer-events-none flex items-center gap-4 backdrop-blur-sm whitespace-nowrap min-w-max"
+        className={`absolute ${showRulers ? 'top-8' : 'top-4'} left-1/2 -translate-x-1/2 px-5 py-2.5 rounded-full text-xs font-medium border shadow-2xl pointer-events-none flex items-center gap-4 backdrop-blur-sm whitespace-nowrap min-w-max`}
         style={{
           backgroundColor: isDark ? 'rgba(26,31,42,0.9)' : 'rgba(255,255,255,0.92)',
           borderColor: isDark ? '#1f2430' : '#e5e7eb',
@@ -739,12 +1062,79 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({
           <span>영역 선택</span>
         </div>
         <div className="w-px h-3" style={{ backgroundColor: isDark ? '#4b5563' : '#cbd5e1' }}></div>
+        <div className="flex items-center gap-2">
+          <span
+            className="px-1.5 py-0.5 rounded text-[10px] font-bold"
+            style={{ backgroundColor: isDark ? '#11151d' : '#eef0ff', color: isDark ? '#a5b4fc' : '#4f46e5' }}
+          >
+            Shift + Click/Drag
+          </span>
+          <span>다중 선택</span>
+        </div>
+        <div className="w-px h-3" style={{ backgroundColor: isDark ? '#4b5563' : '#cbd5e1' }}></div>
+        <div className="flex items-center gap-2">
+          <span
+            className="px-1.5 py-0.5 rounded text-[10px] font-bold"
+            style={{ backgroundColor: isDark ? '#11151d' : '#eef0ff', color: isDark ? '#a5b4fc' : '#4f46e5' }}
+          >
+            Alt + Drag
+          </span>
+          <span>스냅 해제</span>
+        </div>
+        <div className="w-px h-3" style={{ backgroundColor: isDark ? '#4b5563' : '#cbd5e1' }}></div>
         <div className="flex items-center gap-2">
            <span className="font-mono" style={{ color: isDark ? '#9ca3af' : '#64748b' }}>{Math.round(zoom * 100)}%</span>
         </div>
           </>
         )}
       </div>
+      <div
+        className="absolute bottom-4 right-4 px-2 py-1.5 rounded-xl text-xs border shadow-2xl flex items-center gap-1 backdrop-blur-sm"
+        style={{
+          backgroundColor: isDark ? 'rgba(26,31,42,0.9)' : 'rgba(255,255,255,0.92)',
+          borderColor: isDark ? '#1f2430' : '#e5e7eb',
+          color: isDark ? '#e5e7eb' : '#374151'
+        }}
+      >
+        <button
+          onClick={() => setShowRulers(prev => !prev)}
+          className={`p-1.5 rounded-md ${showRulers ? 'bg-indigo-600 text-white' : ''}`}
+          title="눈금자 (눈금자에서 끌어 안내선 추가)"
+        >
+          <Ruler size={14} />
+        </button>
+        {showRulers && (
+          <select
+            value={newGuideScope}
+            onChange={(e) => setNewGuideScope(e.target.value as GuideScope)}
+            className="px-1 py-1 rounded-md bg-transparent border text-xs"
+            style={{ borderColor: isDark ? '#1f2430' : '#e5e7eb' }}
+            title={'새 안내선을 저장할 범위\n이 슬라이드: 슬라이드와 함께 되돌리기 기록에 남습니다\n전체 슬라이드: 모든 슬라이드에 보이며, 되돌리기 기록에는 남지 않습니다'}
+          >
+            {(Object.keys(GUIDE_SCOPE_LABELS) as GuideScope[]).map(scope => (
+              <option key={scope} value={scope}>{GUIDE_SCOPE_LABELS[scope]}</option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => setShowGrid(prev => !prev)}
+          className={`p-1.5 rounded-md ${showGrid ? 'bg-indigo-600 text-white' : ''}`}
+          title="격자"
+        >
+          <Grid3x3 size={14} />
+        </button>
+        {showGrid && (
+          <input
+            type="number"
+            min={5}
+            value={gridSize}
+            onChange={(e) => setGridSize(Number(e.target.value))}
+            className="w-14 px-1 py-1 rounded-md bg-transparent border text-xs"
+            style={{ borderColor: isDark ? '#1f2430' : '#e5e7eb' }}
+            title="격자 간격 (px)"
+          />
+        )}
+      </div>
     </div>
   );
 };
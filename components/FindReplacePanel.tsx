@@ -0,0 +1,212 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SlideData } from '../types';
+import { FindOptions, OverlayMatch, TextRange, findMatches } from '../utils/findReplace';
+import { AlertCircle, Replace, X } from 'lucide-react';
+
+interface FindReplacePanelProps {
+  slides: SlideData[];
+  activeSlideIdx: number;
+  isDark: boolean;
+  onNavigate: (slideIndex: number, overlayId: string) => void;
+  onReplace: (options: FindOptions, replacement: string, selectedKeys: Set<string>) => void;
+  onClose: () => void;
+}
+
+const renderHighlighted = (text: string, ranges: TextRange[], markClassName: string) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((range, index) => {
+    if (range.start > cursor) parts.push(text.slice(cursor, range.start));
+    parts.push(<mark key={index} className={markClassName}>{text.slice(range.start, range.end)}</mark>);
+    cursor = range.end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return parts;
+};
+
+const FindReplacePanel: React.FC<FindReplacePanelProps> = ({
+  slides,
+  activeSlideIdx,
+  isDark,
+  onNavigate,
+  onReplace,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [useRegex, setUseRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  // Matches are included by default; only the ones the user unticks are tracked.
+  const [excludedKeys, setExcludedKeys] = useState<Set<string>>(new Set());
+  const queryInputRef = useRef<HTMLInputElement>(null);
+
+  const options: FindOptions = { query, useRegex, caseSensitive, wholeWord };
+
+  const { matches, error } = useMemo(() => {
+    try {
+      return { matches: findMatches(slides, options), error: null as string | null };
+    } catch (err) {
+      return { matches: [] as OverlayMatch[], error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [slides, query, useRegex, caseSensitive, wholeWord]);
+
+  useEffect(() => {
+    queryInputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    setExcludedKeys(new Set());
+  }, [query, useRegex, caseSensitive, wholeWord]);
+
+  const matchesBySlide = useMemo(() => {
+    const groups = new Map<number, OverlayMatch[]>();
+    matches.forEach((match) => {
+      const group = groups.get(match.slideIndex) || [];
+      group.push(match);
+      groups.set(match.slideIndex, group);
+    });
+    return Array.from(groups.entries());
+  }, [matches]);
+
+  // Only overlays whose current text matches can actually change.
+  const replaceableKeys = matches
+    .filter((match) => match.newTextRanges.length > 0 && !excludedKeys.has(match.key))
+    .map((match) => match.key);
+
+  const toggleMatch = (key: string) => {
+    setExcludedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const panelStyle = {
+    backgroundColor: isDark ? '#0f131a' : '#ffffff',
+    borderColor: isDark ? '#1f2430' : '#e5e7eb',
+    color: isDark ? '#d1d5db' : '#1f2937'
+  };
+  const rowStyle = {
+    backgroundColor: isDark ? 'rgba(30, 41, 59, 0.5)' : '#f8fafc',
+    borderColor: isDark ? '#334155' : '#e2e8f0'
+  };
+  const subtleTextColor = isDark ? '#94a3b8' : '#64748b';
+  const inputClassName = 'w-full px-2 py-1.5 rounded-md text-sm border bg-transparent focus:outline-none focus:border-indigo-500';
+  const markClassName = isDark ? 'bg-amber-500/40 text-inherit rounded-sm' : 'bg-amber-200 text-inherit rounded-sm';
+
+  return (
+    <div className="fixed top-20 right-6 z-40 w-[26rem] max-h-[75vh] rounded-2xl border shadow-2xl flex flex-col" style={panelStyle}>
+      <div className="px-4 py-3 border-b flex items-center justify-between" style={{ borderColor: panelStyle.borderColor }}>
+        <h2 className="text-sm font-bold flex items-center gap-2">
+          <Replace size={16} className="text-indigo-400" />
+          찾아 바꾸기
+          {query && !error && (
+            <span className="text-xs font-mono" style={{ color: subtleTextColor }}>{matches.length}</span>
+          )}
+        </h2>
+        <button onClick={onClose} className="p-1 rounded" style={{ color: subtleTextColor }} title="닫기">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="px-4 py-3 space-y-2 border-b" style={{ borderColor: panelStyle.borderColor }}>
+        <input
+          ref={queryInputRef}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+          placeholder="찾을 내용"
+          className={inputClassName}
+          style={{ borderColor: error ? '#f87171' : panelStyle.borderColor }}
+        />
+        <input
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+          placeholder={useRegex ? '바꿀 내용 ($1 등 그룹 참조 가능)' : '바꿀 내용'}
+          className={inputClassName}
+          style={{ borderColor: panelStyle.borderColor }}
+        />
+        <div className="flex items-center gap-3 text-xs" style={{ color: subtleTextColor }}>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={useRegex} onChange={(e) => setUseRegex(e.target.checked)} />
+            정규식
+          </label>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} />
+            대소문자 구분
+          </label>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={wholeWord} onChange={(e) => setWholeWord(e.target.checked)} />
+            단어 단위
+          </label>
+        </div>
+        {error && (
+          <p className="text-[11px] text-red-400 flex items-center gap-1 break-all">
+            <AlertCircle size={12} className="shrink-0" /> 잘못된 정규식: {error}
+          </p>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {query && !error && matches.length === 0 && (
+          <p className="text-xs text-center" style={{ color: subtleTextColor }}>일치하는 텍스트가 없습니다.</p>
+        )}
+        {matchesBySlide.map(([slideIndex, slideMatches]) => (
+          <div key={`find-${slideIndex}`} className="space-y-1.5">
+            <button
+              onClick={() => onNavigate(slideIndex, slideMatches[0].overlayId)}
+              className="flex items-center gap-2 text-xs font-semibold"
+            >
+              <img
+                src={slides[slideIndex].dataUrl}
+                alt={`Slide ${slideIndex + 1}`}
+                className={`w-16 aspect-[16/9] object-contain rounded border ${slideIndex === activeSlideIdx ? 'border-indigo-500' : ''}`}
+                style={{ backgroundColor: rowStyle.backgroundColor, borderColor: slideIndex === activeSlideIdx ? undefined : rowStyle.borderColor }}
+              />
+              슬라이드 {slideIndex + 1}
+              <span className="font-normal" style={{ color: subtleTextColor }}>{slideMatches.length}개</span>
+            </button>
+            {slideMatches.map((match) => (
+              <div key={match.key} className="flex items-start gap-2 rounded-xl border px-3 py-2" style={rowStyle}>
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={match.newTextRanges.length > 0 && !excludedKeys.has(match.key)}
+                  disabled={match.newTextRanges.length === 0}
+                  onChange={() => toggleMatch(match.key)}
+                  title={match.newTextRanges.length > 0 ? '바꾸기에 포함' : '원문에서만 일치하여 바꿀 내용이 없습니다'}
+                />
+                <button onClick={() => onNavigate(match.slideIndex, match.overlayId)} className="flex-1 min-w-0 text-left">
+                  <p className="text-sm whitespace-pre-wrap break-words">
+                    {renderHighlighted(match.newText, match.newTextRanges, markClassName)}
+                  </p>
+                  {match.originalText !== match.newText && (
+                    <p className="text-[11px] mt-1 whitespace-pre-wrap break-words" style={{ color: subtleTextColor }}>
+                      원문: {renderHighlighted(match.originalText, match.originalTextRanges, markClassName)}
+                    </p>
+                  )}
+                </button>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="px-4 py-3 border-t flex items-center justify-end" style={{ borderColor: panelStyle.borderColor }}>
+        <button
+          onClick={() => onReplace(options, replacement, new Set(replaceableKeys))}
+          disabled={!!error || replaceableKeys.length === 0}
+          className="px-3 py-1.5 rounded-md text-xs font-semibold bg-indigo-600 text-white disabled:opacity-50"
+        >
+          모두 바꾸기 ({replaceableKeys.length})
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FindReplacePanel;
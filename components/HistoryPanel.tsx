@@ -0,0 +1,126 @@
+
+import React, { useState } from 'react';
+import { DeckHistory, HistoryCheckpoint } from '../utils/history';
+import { Bookmark, History as HistoryIcon, RotateCcw, Trash2, X } from 'lucide-react';
+
+interface HistoryPanelProps {
+  history: DeckHistory;
+  checkpoints: HistoryCheckpoint[];
+  isDark: boolean;
+  onJump: (position: number) => void;
+  onAddCheckpoint: (name: string) => void;
+  onRestoreCheckpoint: (id: string) => void;
+  onDeleteCheckpoint: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  history,
+  checkpoints,
+  isDark,
+  onJump,
+  onAddCheckpoint,
+  onRestoreCheckpoint,
+  onDeleteCheckpoint,
+  onClose,
+}) => {
+  const [checkpointName, setCheckpointName] = useState('');
+
+  // Position 0 is the oldest kept state; each step after it is one history entry.
+  const steps = [
+    { label: '기록 시작', timestamp: 0 },
+    ...history.past,
+    ...history.future,
+  ];
+  const currentPosition = history.past.length;
+
+  const handleAddCheckpoint = () => {
+    onAddCheckpoint(checkpointName.trim() || `체크포인트 ${checkpoints.length + 1}`);
+    setCheckpointName('');
+  };
+
+  const panelStyle = {
+    backgroundColor: isDark ? '#0f131a' : '#ffffff',
+    borderColor: isDark ? '#1f2430' : '#e5e7eb',
+    color: isDark ? '#d1d5db' : '#1f2937'
+  };
+  const rowStyle = {
+    backgroundColor: isDark ? 'rgba(30, 41, 59, 0.5)' : '#f8fafc',
+    borderColor: isDark ? '#334155' : '#e2e8f0'
+  };
+  const subtleTextColor = isDark ? '#94a3b8' : '#64748b';
+  const inputClassName = 'flex-1 min-w-0 px-2 py-1.5 rounded-md text-sm border bg-transparent focus:outline-none focus:border-indigo-500';
+
+  return (
+    <div className="fixed top-20 right-6 z-40 w-80 max-h-[75vh] rounded-2xl border shadow-2xl flex flex-col" style={panelStyle}>
+      <div className="px-4 py-3 border-b flex items-center justify-between" style={{ borderColor: panelStyle.borderColor }}>
+        <h2 className="text-sm font-bold flex items-center gap-2">
+          <HistoryIcon size={16} className="text-indigo-400" />
+          작업 기록
+        </h2>
+        <button onClick={onClose} className="p-1 rounded" style={{ color: subtleTextColor }} title="닫기">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="px-4 py-3 space-y-2 border-b" style={{ borderColor: panelStyle.borderColor }}>
+        <div className="flex items-center gap-2">
+          <input
+            value={checkpointName}
+            onChange={(e) => setCheckpointName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAddCheckpoint(); }}
+            placeholder="체크포인트 이름"
+            className={inputClassName}
+            style={{ borderColor: panelStyle.borderColor }}
+          />
+          <button
+            onClick={handleAddCheckpoint}
+            className="px-3 py-1.5 rounded-md text-xs font-semibold bg-indigo-600 text-white"
+          >
+            저장
+          </button>
+        </div>
+        {checkpoints.map((checkpoint) => (
+          <div key={checkpoint.id} className="flex items-center gap-2 rounded-xl border px-3 py-1.5" style={rowStyle}>
+            <Bookmark size={14} className="shrink-0 text-indigo-400" />
+            <span className="flex-1 min-w-0 truncate text-xs font-semibold">{checkpoint.name}</span>
+            <span className="text-[10px] font-mono" style={{ color: subtleTextColor }}>{formatTime(checkpoint.createdAt)}</span>
+            <button onClick={() => onRestoreCheckpoint(checkpoint.id)} className="p-1 rounded" style={{ color: subtleTextColor }} title="이 체크포인트로 되돌리기">
+              <RotateCcw size={12} />
+            </button>
+            <button onClick={() => onDeleteCheckpoint(checkpoint.id)} className="p-1 rounded" style={{ color: subtleTextColor }} title="체크포인트 삭제">
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-1">
+        {steps.map((step, position) => {
+          const isCurrent = position === currentPosition;
+          const isUndone = position > currentPosition;
+          return (
+            <button
+              key={position}
+              onClick={() => onJump(position)}
+              disabled={isCurrent}
+              className={`w-full flex items-center gap-2 rounded-lg border px-3 py-1.5 text-left text-xs ${isCurrent ? 'border-indigo-500 font-semibold' : ''} ${isUndone ? 'opacity-50' : ''}`}
+              style={{ backgroundColor: rowStyle.backgroundColor, borderColor: isCurrent ? undefined : rowStyle.borderColor }}
+              title={isCurrent ? '현재 상태' : '이 시점으로 이동'}
+            >
+              <span className="flex-1 min-w-0 truncate">{step.label}</span>
+              {step.timestamp > 0 && (
+                <span className="text-[10px] font-mono" style={{ color: subtleTextColor }}>{formatTime(step.timestamp)}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
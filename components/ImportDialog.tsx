@@ -0,0 +1,163 @@
+
+import React, { useState } from 'react';
+import { SlideInsertPlacement } from '../utils/slideOperations';
+import { ArrowDown, ArrowUp, FileUp, Trash2, X } from 'lucide-react';
+
+interface ImportDialogProps {
+  files: File[];
+  isDark: boolean;
+  slideCount: number;
+  activeSlideIdx: number;
+  onConfirm: (files: File[], placement: SlideInsertPlacement, extractPdfText: boolean) => void;
+  onCancel: () => void;
+}
+
+const formatFileSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${Math.max(1, Math.round(bytes / 1024))}KB`;
+
+const ImportDialog: React.FC<ImportDialogProps> = ({
+  files,
+  isDark,
+  slideCount,
+  activeSlideIdx,
+  onConfirm,
+  onCancel,
+}) => {
+  const [orderedFiles, setOrderedFiles] = useState<File[]>(files);
+  const [placement, setPlacement] = useState<SlideInsertPlacement>(slideCount > 0 ? 'append' : 'replace');
+  const [extractPdfText, setExtractPdfText] = useState(false);
+
+  const hasPdf = orderedFiles.some((file) => file.type === 'application/pdf');
+
+  const panelStyle = {
+    backgroundColor: isDark ? '#0f131a' : '#ffffff',
+    borderColor: isDark ? '#1f2430' : '#e5e7eb',
+    color: isDark ? '#d1d5db' : '#1f2937'
+  };
+  const rowStyle = {
+    backgroundColor: isDark ? 'rgba(30, 41, 59, 0.5)' : '#f8fafc',
+    borderColor: isDark ? '#334155' : '#e2e8f0'
+  };
+  const subtleTextColor = isDark ? '#94a3b8' : '#64748b';
+
+  const moveFile = (from: number, to: number) => {
+    if (to < 0 || to >= orderedFiles.length) return;
+    const next = [...orderedFiles];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    setOrderedFiles(next);
+  };
+
+  const removeFile = (index: number) => {
+    setOrderedFiles(orderedFiles.filter((_, i) => i !== index));
+  };
+
+  const placementOptions: { value: SlideInsertPlacement; label: string; disabled: boolean }[] = [
+    { value: 'append', label: '덱 끝에 추가', disabled: slideCount === 0 },
+    { value: 'afterActive', label: `현재 슬라이드(${activeSlideIdx + 1}) 뒤에 삽입`, disabled: slideCount === 0 },
+    { value: 'replace', label: '기존 덱 교체', disabled: false },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm">
+      <div className="w-[30rem] max-h-[80vh] rounded-2xl border shadow-2xl flex flex-col" style={panelStyle}>
+        <div className="px-5 py-4 border-b flex items-center justify-between" style={{ borderColor: panelStyle.borderColor }}>
+          <h2 className="text-sm font-bold flex items-center gap-2">
+            <FileUp size={16} className="text-blue-400" />
+            파일 가져오기
+          </h2>
+          <button onClick={onCancel} className="p-1 rounded" style={{ color: subtleTextColor }} title="닫기">
+            <X size={16} />
+          </button>
+        </div>
+
+        <p className="px-5 pt-4 text-xs" style={{ color: subtleTextColor }}>
+          위에서부터 순서대로 슬라이드가 추가됩니다.
+        </p>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-2">
+          {orderedFiles.map((file, index) => (
+            <div key={`${file.name}-${file.lastModified}-${index}`} className="flex items-center gap-2 rounded-xl border px-3 py-2" style={rowStyle}>
+              <span className="w-5 text-xs font-semibold" style={{ color: subtleTextColor }}>{index + 1}</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold truncate">{file.name}</p>
+                <p className="text-[11px]" style={{ color: subtleTextColor }}>{formatFileSize(file.size)}</p>
+              </div>
+              <button
+                onClick={() => moveFile(index, index - 1)}
+                disabled={index === 0}
+                className="p-1 rounded disabled:opacity-30"
+                style={{ color: subtleTextColor }}
+                title="위로"
+              >
+                <ArrowUp size={14} />
+              </button>
+              <button
+                onClick={() => moveFile(index, index + 1)}
+                disabled={index === orderedFiles.length - 1}
+                className="p-1 rounded disabled:opacity-30"
+                style={{ color: subtleTextColor }}
+                title="아래로"
+              >
+                <ArrowDown size={14} />
+              </button>
+              <button
+                onClick={() => removeFile(index)}
+                className="p-1 rounded hover:text-red-400 transition-colors"
+                style={{ color: subtleTextColor }}
+                title="목록에서 제외"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-5 pb-4 space-y-2 text-xs">
+          <p className="font-semibold">추가 위치</p>
+          {placementOptions.map((option) => (
+            <label
+              key={option.value}
+              className={`flex items-center gap-2 ${option.disabled ? 'opacity-40' : 'cursor-pointer'}`}
+            >
+              <input
+                type="radio"
+                name="import-placement"
+                value={option.value}
+                checked={placement === option.value}
+                disabled={option.disabled}
+                onChange={() => setPlacement(option.value)}
+              />
+              {option.label}
+            </label>
+          ))}
+          {hasPdf && (
+            <label className="flex items-center gap-2 pt-2 cursor-pointer">
+              <input type="checkbox" checked={extractPdfText} onChange={(e) => setExtractPdfText(e.target.checked)} />
+              PDF 텍스트 레이어를 편집 가능한 텍스트로 추출
+            </label>
+          )}
+        </div>
+
+        <div className="px-5 py-3 border-t flex items-center justify-end gap-2" style={{ borderColor: panelStyle.borderColor }}>
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 rounded-md text-xs font-semibold border"
+            style={{ borderColor: panelStyle.borderColor }}
+          >
+            취소
+          </button>
+          <button
+            onClick={() => onConfirm(orderedFiles, placement, extractPdfText)}
+            disabled={orderedFiles.length === 0}
+            className="px-3 py-1.5 rounded-md text-xs font-semibold bg-indigo-600 text-white disabled:opacity-50"
+          >
+            가져오기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,226 @@
+
+import React, { useState } from 'react';
+import { TextOverlay } from '../types';
+import { bringForward, bringToFront, moveOverlayToIndex, sendBackward, sendToBack } from '../utils/layers';
+import {
+  ArrowDown,
+  ArrowDownToLine,
+  ArrowUp,
+  ArrowUpToLine,
+  Eye,
+  EyeOff,
+  GripVertical,
+  Layers,
+  Lock,
+  LucideIcon,
+  Unlock,
+  X
+} from 'lucide-react';
+
+interface LayersPanelProps {
+  overlays: TextOverlay[];
+  selectedOverlayIds: string[];
+  isDark: boolean;
+  onSelect: (ids: string[]) => void;
+  onUpdateOverlays: (overlays: TextOverlay[]) => void;
+  onClose: () => void;
+}
+
+const ORDER_BUTTONS: {
+  label: string;
+  Icon: LucideIcon;
+  apply: (overlays: TextOverlay[], ids: string[]) => TextOverlay[];
+}[] = [
+  { label: '맨 앞으로', Icon: ArrowUpToLine, apply: bringToFront },
+  { label: '앞으로', Icon: ArrowUp, apply: bringForward },
+  { label: '뒤로', Icon: ArrowDown, apply: sendBackward },
+  { label: '맨 뒤로', Icon: ArrowDownToLine, apply: sendToBack },
+];
+
+const LayersPanel: React.FC<LayersPanelProps> = ({
+  overlays,
+  selectedOverlayIds,
+  isDark,
+  onSelect,
+  onUpdateOverlays,
+  onClose,
+}) => {
+  // Indices are into the displayed list, which shows the front-most layer first.
+  const [dragOverIdx, setDragOverIdx] = useState<number | null>(null);
+  const [draggingIdx, setDraggingIdx] = useState<number | null>(null);
+
+  const layers = [...overlays].reverse();
+  const toArrayIndex = (displayIndex: number) => overlays.length - 1 - displayIndex;
+
+  const handleDragStart = (e: React.DragEvent, index: number) => {
+    setDraggingIdx(index);
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', layers[index].id);
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDragOverIdx(index);
+  };
+
+  const handleDrop = (e: React.DragEvent, toIndex: number) => {
+    e.preventDefault();
+    const id = e.dataTransfer.getData('text/plain');
+    const next = moveOverlayToIndex(overlays, id, toArrayIndex(toIndex));
+    if (next !== overlays) onUpdateOverlays(next);
+    setDragOverIdx(null);
+    setDraggingIdx(null);
+  };
+
+  const handleDragEnd = () => {
+    setDragOverIdx(null);
+    setDraggingIdx(null);
+  };
+
+  const handleRowClick = (e: React.MouseEvent, overlay: TextOverlay) => {
+    // Hidden layers stay unselectable, for the same reason hiding one drops it from the selection.
+    if (overlay.hidden) return;
+    if (e.shiftKey) {
+      onSelect(
+        selectedOverlayIds.includes(overlay.id)
+          ? selectedOverlayIds.filter((id) => id !== overlay.id)
+          : [...selectedOverlayIds, overlay.id]
+      );
+    } else {
+      onSelect([overlay.id]);
+    }
+  };
+
+  const updateLayer = (id: string, updates: Partial<TextOverlay>) => {
+    onUpdateOverlays(overlays.map((overlay) => (overlay.id === id ? { ...overlay, ...updates } : overlay)));
+  };
+
+  const toggleHidden = (e: React.MouseEvent, overlay: TextOverlay) => {
+    e.stopPropagation();
+    updateLayer(overlay.id, { hidden: !overlay.hidden });
+    // A hidden layer cannot stay selected, since there is nothing on the canvas to show for it.
+    if (!overlay.hidden && selectedOverlayIds.includes(overlay.id)) {
+      onSelect(selectedOverlayIds.filter((id) => id !== overlay.id));
+    }
+  };
+
+  const toggleLocked = (e: React.MouseEvent, overlay: TextOverlay) => {
+    e.stopPropagation();
+    updateLayer(overlay.id, { locked: !overlay.locked });
+  };
+
+  const handleReorder = (apply: (overlays: TextOverlay[], ids: string[]) => TextOverlay[]) => {
+    const next = apply(overlays, selectedOverlayIds);
+    if (next.some((overlay, index) => overlay !== overlays[index])) onUpdateOverlays(next);
+  };
+
+  const panelStyle = {
+    backgroundColor: isDark ? '#0f131a' : '#ffffff',
+    borderColor: isDark ? '#1f2430' : '#e5e7eb',
+    color: isDark ? '#d1d5db' : '#1f2937'
+  };
+  const rowStyle = {
+    backgroundColor: isDark ? 'rgba(30, 41, 59, 0.5)' : '#f8fafc',
+    borderColor: isDark ? '#334155' : '#e2e8f0'
+  };
+  const subtleTextColor = isDark ? '#94a3b8' : '#64748b';
+  const iconButtonClassName = 'p-1 rounded hover:bg-indigo-500/10 disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div className="fixed top-20 left-56 z-40 w-72 max-h-[75vh] rounded-2xl border shadow-2xl flex flex-col" style={panelStyle}>
+      <div className="px-4 py-3 border-b flex items-center justify-between" style={{ borderColor: panelStyle.borderColor }}>
+        <h2 className="text-sm font-bold flex items-center gap-2">
+          <Layers size={16} className="text-indigo-400" />
+          레이어
+          <span className="text-xs font-mono" style={{ color: subtleTextColor }}>{overlays.length}</span>
+        </h2>
+        <button onClick={onClose} className="p-1 rounded" style={{ color: subtleTextColor }} title="닫기">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="px-4 py-2 border-b flex items-center gap-1" style={{ borderColor: panelStyle.borderColor }}>
+        {ORDER_BUTTONS.map(({ label, Icon, apply }) => (
+          <button
+            key={label}
+            onClick={() => handleReorder(apply)}
+            disabled={selectedOverlayIds.length === 0}
+            className={iconButtonClassName}
+            title={label}
+          >
+            <Icon size={16} />
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-1.5">
+        {layers.length === 0 && (
+          <p className="text-xs text-center" style={{ color: subtleTextColor }}>이 슬라이드에 레이어가 없습니다.</p>
+        )}
+        {layers.map((overlay, index) => {
+          const isSelected = selectedOverlayIds.includes(overlay.id);
+          const preview = overlay.newText.trim();
+          return (
+            <div
+              key={overlay.id}
+              draggable
+              onDragStart={(e) => handleDragStart(e, index)}
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDragLeave={() => setDragOverIdx(null)}
+              onDrop={(e) => handleDrop(e, index)}
+              onDragEnd={handleDragEnd}
+              onClick={(e) => handleRowClick(e, overlay)}
+              className={`flex items-center gap-2 rounded-xl border px-2 py-1.5 cursor-pointer transition-all
+                ${isSelected ? 'border-indigo-500' : ''}
+                ${dragOverIdx === index ? 'ring-2 ring-yellow-400' : ''}
+                ${draggingIdx === index ? 'opacity-40' : ''}`}
+              style={{ backgroundColor: rowStyle.backgroundColor, borderColor: isSelected ? undefined : rowStyle.borderColor }}
+            >
+              <GripVertical size={14} className="shrink-0 cursor-grab" style={{ color: subtleTextColor }} />
+              {overlay.type === 'image' ? (
+                <img
+                  src={overlay.imageSrc}
+                  alt=""
+                  className="w-10 h-7 object-contain rounded border shrink-0"
+                  style={{ borderColor: rowStyle.borderColor }}
+                />
+              ) : (
+                <div
+                  className="w-10 h-7 rounded border shrink-0 flex items-center justify-center text-[10px] font-bold"
+                  style={{ borderColor: rowStyle.borderColor, backgroundColor: overlay.backgroundColor, color: overlay.fontColor }}
+                >
+                  T
+                </div>
+              )}
+              <span
+                className={`flex-1 min-w-0 truncate text-xs ${overlay.hidden ? 'opacity-50' : ''}`}
+                style={{ color: preview || overlay.type === 'image' ? undefined : subtleTextColor }}
+              >
+                {overlay.type === 'image' ? '이미지' : preview || '(빈 텍스트)'}
+              </span>
+              <button
+                onClick={(e) => toggleHidden(e, overlay)}
+                className={iconButtonClassName}
+                style={{ color: overlay.hidden ? subtleTextColor : undefined }}
+                title={overlay.hidden ? '보이기' : '숨기기'}
+              >
+                {overlay.hidden ? <EyeOff size={14} /> : <Eye size={14} />}
+              </button>
+              <button
+                onClick={(e) => toggleLocked(e, overlay)}
+                className={iconButtonClassName}
+                style={{ color: overlay.locked ? '#f59e0b' : subtleTextColor }}
+                title={overlay.locked ? '잠금 해제' : '잠금'}
+              >
+                {overlay.locked ? <Lock size={14} /> : <Unlock size={14} />}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LayersPanel;
@@ -0,0 +1,105 @@
+
+import React from 'react';
+import { AutosaveSessionSummary } from '../services/autosaveService';
+import { History, RotateCcw, Trash2, X } from 'lucide-react';
+
+interface RecoveryDialogProps {
+  sessions: AutosaveSessionSummary[];
+  isDark: boolean;
+  onRestore: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onDiscardAll: () => void;
+  onClose: () => void;
+}
+
+const formatTimestamp = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('ko-KR', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const RecoveryDialog: React.FC<RecoveryDialogProps> = ({
+  sessions,
+  isDark,
+  onRestore,
+  onDiscard,
+  onDiscardAll,
+  onClose,
+}) => {
+  if (sessions.length === 0) return null;
+
+  const panelStyle = {
+    backgroundColor: isDark ? '#0f131a' : '#ffffff',
+    borderColor: isDark ? '#1f2430' : '#e5e7eb',
+    color: isDark ? '#d1d5db' : '#1f2937'
+  };
+  const rowStyle = {
+    backgroundColor: isDark ? 'rgba(30, 41, 59, 0.5)' : '#f8fafc',
+    borderColor: isDark ? '#334155' : '#e2e8f0'
+  };
+  const subtleTextColor = isDark ? '#94a3b8' : '#64748b';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm">
+      <div className="w-[28rem] max-h-[80vh] rounded-2xl border shadow-2xl flex flex-col" style={panelStyle}>
+        <div className="px-5 py-4 border-b flex items-center justify-between" style={{ borderColor: panelStyle.borderColor }}>
+          <h2 className="text-sm font-bold flex items-center gap-2">
+            <History size={16} className="text-blue-400" />
+            이전 작업 복구
+          </h2>
+          <button onClick={onClose} className="p-1 rounded" style={{ color: subtleTextColor }} title="닫기">
+            <X size={16} />
+          </button>
+        </div>
+
+        <p className="px-5 pt-4 text-xs" style={{ color: subtleTextColor }}>
+          자동 저장된 작업이 있습니다. 복원할 세션을 선택하세요.
+        </p>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-2">
+          {sessions.map((session) => (
+            <div key={session.id} className="flex items-center gap-3 rounded-xl border px-3 py-2" style={rowStyle}>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold truncate">{session.name}</p>
+                <p className="text-[11px]" style={{ color: subtleTextColor }}>
+                  {formatTimestamp(session.updatedAt)} · {session.slideCount}장
+                </p>
+              </div>
+              <button
+                onClick={() => onRestore(session.id)}
+                className="px-2.5 py-1.5 rounded-md text-xs font-semibold bg-indigo-600 text-white flex items-center gap-1"
+              >
+                <RotateCcw size={12} /> 복원
+              </button>
+              <button
+                onClick={() => onDiscard(session.id)}
+                className="p-1.5 rounded-md hover:text-red-400 transition-colors"
+                style={{ color: subtleTextColor }}
+                title="이 세션 삭제"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-5 py-3 border-t flex items-center justify-between" style={{ borderColor: panelStyle.borderColor }}>
+          <button onClick={onDiscardAll} className="text-xs font-semibold text-red-400 hover:text-red-300">
+            모두 삭제
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 rounded-md text-xs font-semibold border"
+            style={{ borderColor: panelStyle.borderColor }}
+          >
+            새로 시작
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryDialog;
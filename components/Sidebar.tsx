@@ -1,14 +1,21 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { Rect, SlideData, TextOverlay, OCRResult, VerticalAlign, HorizontalAlign } from '../types';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Rect, SlideData, TextOverlay, OCRResult, VerticalAlign, HorizontalAlign, TextFitMode, TextRun, TextRunStyle, TextFontStyle, TextStroke, TextShadow, FontOption } from '../types';
 import { analyzeTextInImage, generateTextSuggestion, removeTextFromImage } from '../services/geminiService';
 import { loadImage } from '../services/imageUtils';
+import { INPAINT_ENGINE_LABELS, InpaintEngine, inpaintCropInterior } from '../services/inpaintService';
 import { createOverlayId } from '../utils/id';
+import { detectBorderColor } from '../utils/color';
+import { applyRunStyle, getOverlayRuns, getRangeStyle, updateRunsText } from '../utils/richText';
+import { LINE_HEIGHT_RATIO } from '../utils/textLayout';
+import { matchFontFamily } from '../utils/fontMatching';
+import { FONT_FILE_ACCEPT } from '../services/fontService';
 import {
   Loader2,
   Type as TypeIcon,
   Info,
   CheckCircle2,
+  AlertTriangle,
   Sparkles,
   AlignLeft,
   AlignCenter,
@@ -26,7 +33,13 @@ import {
   FlipHorizontal,
   FlipVertical,
   Scaling,
-  Save
+  Save,
+  Bold,
+  Italic,
+  Underline,
+  RemoveFormatting,
+  UnfoldVertical,
+  Upload
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -37,14 +50,17 @@ interface SidebarProps {
   onApplyOverlay: (overlay: TextOverlay, keepSelection?: boolean) => void;
   onUpdateOverlays: (overlays: TextOverlay[]) => void;
   onDraftChange: (draft: Partial<TextOverlay> | null) => void; // Sync state to parent for preview
+  fontOptions: FontOption[]; // built-in fonts followed by the project's uploaded ones
+  onAddFont: (file: File) => Promise<string | null>; // resolves to the new family, or null on failure
 }
 
-const FONTS = [
-  { name: 'Inter', value: 'Inter' },
-  { name: 'Arial', value: 'Arial' },
-  { name: 'Roboto', value: 'Roboto' },
-  { name: 'Times New Roman', value: 'serif' },
-  { name: 'Courier New', value: 'monospace' },
+const DEFAULT_STROKE: TextStroke = { color: '#000000', width: 2 };
+const DEFAULT_SHADOW: TextShadow = { color: '#000000', blur: 4, offsetX: 2, offsetY: 2 };
+
+const FIT_MODES: { name: string; value: TextFitMode; title: string }[] = [
+  { name: '없음', value: 'none', title: '입력한 줄바꿈만 사용' },
+  { name: '줄바꿈', value: 'wrap', title: '영역 너비에서 자동 줄바꿈' },
+  { name: '축소', value: 'shrink', title: '줄바꿈 후 영역에 맞게 글자 크기 축소' },
 ];
 
 const Sidebar: React.FC<SidebarProps> = ({
@@ -54,11 +70,14 @@ const Sidebar: React.FC<SidebarProps> = ({
   isDark,
   onApplyOverlay,
   onUpdateOverlays,
-  onDraftChange
+  onDraftChange,
+  fontOptions,
+  onAddFont
 }) => {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isSuggesting, setIsSuggesting] = useState(false);
   const [isGeneratingBg, setIsGeneratingBg] = useState(false);
+  const [restoreEngine, setRestoreEngine] = useState<InpaintEngine>('gemini');
   const [ocrResult, setOcrResult] = useState<OCRResult | null>(null);
 
   const [replacementText, setReplacementText] = useState('');
@@ -69,6 +88,16 @@ const Sidebar: React.FC<SidebarProps> = ({
   const [vAlign, setVAlign] = useState<VerticalAlign>('middle'); // Changed default to middle
   const [hAlign, setHAlign] = useState<HorizontalAlign>('left');
   const [letterSpacing, setLetterSpacing] = useState(0);
+  const [fitMode, setFitMode] = useState<TextFitMode>('none');
+  const [fontStyle, setFontStyle] = useState<TextFontStyle>('normal');
+  const [lineHeight, setLineHeight] = useState(LINE_HEIGHT_RATIO);
+  const [paragraphSpacing, setParagraphSpacing] = useState(0);
+  const [stroke, setStroke] = useState<TextStroke | undefined>(undefined);
+  const [shadow, setShadow] = useState<TextShadow | undefined>(undefined);
+  // Styled runs over replacementText; undefined while the whole text uses the base style.
+  const [runs, setRuns] = useState<TextRun[] | undefined>(undefined);
+  const [textSelection, setTextSelection] = useState({ start: 0, end: 0 });
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   // 배경 관련 상태
   const [backgroundColor, setBackgroundColor] = useState('#ffffff');
@@ -116,7 +145,14 @@ const Sidebar: React.FC<SidebarProps> = ({
         backgroundImage,
         vAlign,
         hAlign,
-        letterSpacing
+        letterSpacing,
+        fitMode,
+        runs,
+        fontStyle,
+        lineHeight,
+        paragraphSpacing,
+        stroke,
+        shadow
       });
     } else {
       onDraftChange(null);
@@ -124,7 +160,7 @@ const Sidebar: React.FC<SidebarProps> = ({
   }, [
     selection, selectedOverlayId, replacementText, fontSize, fontWeight, fontColor,
     fontFamily, backgroundColor, backgroundImage, isTransparent, vAlign, hAlign, letterSpacing,
-    onDraftChange
+    fitMode, runs, fontStyle, lineHeight, paragraphSpacing, stroke, shadow, onDraftChange
   ]);
 
   // Reset state when selection changes (Issue: Previous selection state persisted)
@@ -133,6 +169,7 @@ const Sidebar: React.FC<SidebarProps> = ({
       // New Selection Made: Reset everything to defaults or estimates
       setOcrResult(null);
       setReplacementText('');
+      setRuns(undefined);
 
       // Heuristic: Font size is often ~75% of the selection height for tight boxes
       const estimatedFontSize = Math.max(12, Math.round(selection.height * 0.75));
@@ -144,6 +181,12 @@ const Sidebar: React.FC<SidebarProps> = ({
       setVAlign('middle'); // Default to middle for new text
       setHAlign('left');
       setLetterSpacing(0);
+      setFitMode('none');
+      setFontStyle('normal');
+      setLineHeight(LINE_HEIGHT_RATIO);
+      setParagraphSpacing(0);
+      setStroke(undefined);
+      setShadow(undefined);
 
       // Background resets are handled by the detectBackgroundColor effect below
       setBackgroundImage(undefined);
@@ -152,6 +195,7 @@ const Sidebar: React.FC<SidebarProps> = ({
       // No selection, no edit
       setOcrResult(null);
       setReplacementText('');
+      setRuns(undefined);
       setBackgroundColor('#ffffff');
       setBackgroundImage(undefined);
       setIsTransparent(false);
@@ -162,6 +206,7 @@ const Sidebar: React.FC<SidebarProps> = ({
   useEffect(() => {
     if (selectedOverlay) {
       setReplacementText(selectedOverlay.newText);
+      setRuns(selectedOverlay.runs);
       setFontSize(selectedOverlay.fontSize);
       setFontWeight(selectedOverlay.fontWeight);
       setFontColor(selectedOverlay.fontColor);
@@ -169,6 +214,12 @@ const Sidebar: React.FC<SidebarProps> = ({
       setVAlign(selectedOverlay.vAlign || 'middle');
       setHAlign(selectedOverlay.hAlign || 'left');
       setLetterSpacing(selectedOverlay.letterSpacing || 0);
+      setFitMode(selectedOverlay.fitMode || 'none');
+      setFontStyle(selectedOverlay.fontStyle || 'normal');
+      setLineHeight(selectedOverlay.lineHeight ?? LINE_HEIGHT_RATIO);
+      setParagraphSpacing(selectedOverlay.paragraphSpacing || 0);
+      setStroke(selectedOverlay.stroke);
+      setShadow(selectedOverlay.shadow);
       setBackgroundImage(selectedOverlay.backgroundImage);
 
       const bg = selectedOverlay.backgroundColor;
@@ -186,61 +237,7 @@ const Sidebar: React.FC<SidebarProps> = ({
   const detectBackgroundColor = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number): string => {
     try {
       const data = ctx.getImageData(0, 0, width, height).data;
-      const colorCounts: { [key: string]: { count: number, r: number, g: number, b: number } } = {};
-
-      const addPixel = (x: number, y: number) => {
-        const i = (y * width + x) * 4;
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-        const a = data[i + 3];
-
-        if (a < 50) return;
-
-        const bucket = 10;
-        const key = `${Math.round(r / bucket)},${Math.round(g / bucket)},${Math.round(b / bucket)}`;
-
-        if (!colorCounts[key]) {
-          colorCounts[key] = { count: 0, r: 0, g: 0, b: 0 };
-        }
-        colorCounts[key].count++;
-        colorCounts[key].r += r;
-        colorCounts[key].g += g;
-        colorCounts[key].b += b;
-      };
-
-      const depth = 5;
-      for (let x = 0; x < width; x++) {
-        for (let y = 0; y < Math.min(depth, height); y++) addPixel(x, y);
-        for (let y = Math.max(0, height - depth); y < height; y++) addPixel(x, y);
-      }
-      for (let y = depth; y < height - depth; y++) {
-        for (let x = 0; x < Math.min(depth, width); x++) addPixel(x, y);
-        for (let x = Math.max(0, width - depth); x < width; x++) addPixel(x, y);
-      }
-
-      let maxCount = 0;
-      let dominantColor = null;
-
-      for (const key in colorCounts) {
-        if (colorCounts[key].count > maxCount) {
-          maxCount = colorCounts[key].count;
-          dominantColor = {
-            r: Math.round(colorCounts[key].r / maxCount),
-            g: Math.round(colorCounts[key].g / maxCount),
-            b: Math.round(colorCounts[key].b / maxCount)
-          };
-        }
-      }
-
-      if (!dominantColor) return '#ffffff';
-
-      const toHex = (c: number) => {
-        const hex = c.toString(16);
-        return hex.length === 1 ? '0' + hex : hex;
-      };
-
-      return `#${toHex(dominantColor.r)}${toHex(dominantColor.g)}${toHex(dominantColor.b)}`;
+      return detectBorderColor(data, width, height);
     } catch (e) {
       console.error("Color detection failed", e);
       return '#ffffff';
@@ -313,6 +310,7 @@ const Sidebar: React.FC<SidebarProps> = ({
 
       setOcrResult(result);
       setReplacementText(result.text);
+      setRuns(undefined);
 
       // CRITICAL: Font Size Estimation Logic
       // If AI returns small default (16) but box is big, use box height estimate.
@@ -328,7 +326,7 @@ const Sidebar: React.FC<SidebarProps> = ({
 
       setFontWeight(result.fontWeight);
       setFontColor(result.fontColor);
-      setFontFamily(result.fontFamily);
+      setFontFamily(matchFontFamily(result.fontFamily, fontOptions));
 
       setVAlign('middle');
       setHAlign('center');
@@ -347,8 +345,9 @@ const Sidebar: React.FC<SidebarProps> = ({
       const textToImprove = replacementText || ocrResult?.text || "";
       const suggestion = await generateTextSuggestion(textToImprove);
       setReplacementText(suggestion);
+      setRuns(undefined);
       // Update active overlay if editing
-      if (isEditing) updateSelectedOverlay({ newText: suggestion });
+      if (isEditing) updateSelectedOverlay({ newText: suggestion, runs: undefined });
     } catch (error) {
       console.error(error);
     } finally {
@@ -368,8 +367,10 @@ const Sidebar: React.FC<SidebarProps> = ({
       }
       const cropDataUrl = result.canvas.toDataURL('image/png');
 
-      // 2. Call AI to remove text and inpaint
-      const inpaintedImage = await removeTextFromImage(cropDataUrl);
+      // 2. Remove text and inpaint (AI or local engine)
+      const inpaintedImage = restoreEngine === 'local'
+        ? await inpaintCropInterior(cropDataUrl)
+        : await removeTextFromImage(cropDataUrl);
 
       if (inpaintedImage) {
         setBackgroundImage(inpaintedImage);
@@ -385,7 +386,7 @@ const Sidebar: React.FC<SidebarProps> = ({
     } catch (error: any) {
       console.error(error);
       const errorMsg = error?.message || error?.toString() || '알 수 없는 오류';
-      alert(`AI 배경 복원에 실패했습니다.\n\n오류 상세: ${errorMsg}`);
+      alert(`배경 복원에 실패했습니다.\n\n오류 상세: ${errorMsg}`);
     } finally {
       setIsGeneratingBg(false);
     }
@@ -415,6 +416,13 @@ const Sidebar: React.FC<SidebarProps> = ({
       vAlign,
       hAlign,
       letterSpacing,
+      fitMode,
+      runs,
+      fontStyle,
+      lineHeight,
+      paragraphSpacing,
+      stroke,
+      shadow,
       type: 'text',
       rotation: 0,
       flipHorizontal: false,
@@ -434,11 +442,63 @@ const Sidebar: React.FC<SidebarProps> = ({
       backgroundImage,
       vAlign,
       hAlign,
-      letterSpacing
+      letterSpacing,
+      fitMode,
+      runs,
+      fontStyle,
+      lineHeight,
+      paragraphSpacing,
+      stroke,
+      shadow
     });
     // Clear selection after update if needed, but usually we keep it selected
   };
 
+  const handleTextChange = (text: string) => {
+    const nextRuns = updateRunsText(runs, text);
+    setReplacementText(text);
+    setRuns(nextRuns);
+    if (isEditing) updateSelectedOverlay({ newText: text, runs: nextRuns });
+  };
+
+  const syncTextSelection = () => {
+    const textarea = textareaRef.current;
+    if (textarea) setTextSelection({ start: textarea.selectionStart, end: textarea.selectionEnd });
+  };
+
+  const currentRuns = getOverlayRuns({ newText: replacementText, runs });
+  const hasTextSelection = textSelection.end > textSelection.start && textSelection.end <= replacementText.length;
+  const rangeStyle = hasTextSelection ? getRangeStyle(currentRuns, textSelection.start, textSelection.end) : {};
+  const isRangeBold = rangeStyle.bold ?? fontWeight === 'bold';
+
+  // Styles only the characters selected in the textarea; everything else keeps the base style.
+  const applyTextStyle = (patch: TextRunStyle) => {
+    if (!hasTextSelection) return;
+    const nextRuns = applyRunStyle(currentRuns, textSelection.start, textSelection.end, patch);
+    setRuns(nextRuns);
+    if (isEditing) updateSelectedOverlay({ runs: nextRuns });
+  };
+
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const family = await onAddFont(file);
+    if (!family) return;
+    setFontFamily(family);
+    if (isEditing) updateSelectedOverlay({ fontFamily: family });
+  };
+
+  const updateStroke = (next: TextStroke | undefined) => {
+    setStroke(next);
+    if (isEditing) updateSelectedOverlay({ stroke: next });
+  };
+
+  const updateShadow = (next: TextShadow | undefined) => {
+    setShadow(next);
+    if (isEditing) updateSelectedOverlay({ shadow: next });
+  };
+
   const isEditing = !!selectedOverlayId;
   const hasSelectionOrEditing = !!selection || isEditing;
 
@@ -585,6 +645,16 @@ const Sidebar: React.FC<SidebarProps> = ({
             </div>
           )}
 
+          {isEditing && selectedOverlay?.needsReview && (
+            <div className="rounded-xl p-3 border flex items-center gap-2 text-xs" style={{ backgroundColor: isDark ? 'rgba(245, 158, 11, 0.12)' : '#fffbeb', borderColor: '#f59e0b' }}>
+              <AlertTriangle size={14} className="text-amber-500 shrink-0" />
+              <span className="flex-1">자동 번역된 텍스트입니다. 내용과 배치를 확인하세요.</span>
+              <button onClick={() => updateSelectedOverlay({ needsReview: false })} className="font-bold text-amber-500 hover:text-amber-400 whitespace-nowrap">
+                검토 완료
+              </button>
+            </div>
+          )}
+
           <div className="space-y-4">
             <div className="space-y-2">
               <div className="flex justify-between items-center">
@@ -599,15 +669,49 @@ const Sidebar: React.FC<SidebarProps> = ({
                 </button>
               </div>
               <textarea
+                ref={textareaRef}
                 value={replacementText}
-                onChange={(e) => {
-                  setReplacementText(e.target.value);
-                  if (isEditing) updateSelectedOverlay({ newText: e.target.value });
-                }}
+                onChange={(e) => handleTextChange(e.target.value)}
+                onSelect={syncTextSelection}
                 className="w-full border rounded-lg p-3 text-sm h-24 resize-none focus:outline-none focus:border-blue-500 placeholder-slate-400"
                 style={fieldStyle}
                 placeholder={ocrResult ? "텍스트를 입력하세요" : "OCR 분석을 먼저 실행하세요"}
               />
+              <div className="flex items-center gap-1 p-1 rounded-lg border" style={fieldStyle} title={hasTextSelection ? undefined : '서식을 적용할 글자를 선택하세요'}>
+                <button onClick={() => applyTextStyle({ bold: isRangeBold === (fontWeight === 'bold') ? !isRangeBold : undefined })} disabled={!hasTextSelection} className="p-1.5 rounded disabled:opacity-40" style={isRangeBold ? activeSegmentStyle : { color: inactiveButtonColor }} title="굵게"><Bold size={14} /></button>
+                <button onClick={() => applyTextStyle({ italic: rangeStyle.italic ? undefined : true })} disabled={!hasTextSelection} className="p-1.5 rounded disabled:opacity-40" style={rangeStyle.italic ? activeSegmentStyle : { color: inactiveButtonColor }} title="기울임"><Italic size={14} /></button>
+                <button onClick={() => applyTextStyle({ underline: rangeStyle.underline ? undefined : true })} disabled={!hasTextSelection} className="p-1.5 rounded disabled:opacity-40" style={rangeStyle.underline ? activeSegmentStyle : { color: inactiveButtonColor }} title="밑줄"><Underline size={14} /></button>
+                <input
+                  type="color"
+                  value={rangeStyle.color || fontColor}
+                  onChange={(e) => applyTextStyle({ color: e.target.value })}
+                  disabled={!hasTextSelection}
+                  className="w-7 h-7 rounded cursor-pointer bg-transparent border-none disabled:opacity-40"
+                  title="글자 색"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={rangeStyle.fontSize ?? fontSize}
+                  onChange={(e) => {
+                    const size = parseInt(e.target.value);
+                    if (size > 0) applyTextStyle({ fontSize: size });
+                  }}
+                  disabled={!hasTextSelection}
+                  className="w-14 border rounded px-1.5 py-1 text-xs focus:outline-none focus:border-blue-500 disabled:opacity-40"
+                  style={fieldStyle}
+                  title="글자 크기 (px)"
+                />
+                <button
+                  onClick={() => applyTextStyle({ bold: undefined, italic: undefined, underline: undefined, color: undefined, fontSize: undefined })}
+                  disabled={!hasTextSelection}
+                  className="ml-auto p-1.5 rounded disabled:opacity-40"
+                  style={{ color: inactiveButtonColor }}
+                  title="서식 지우기"
+                >
+                  <RemoveFormatting size={14} />
+                </button>
+              </div>
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -630,7 +734,13 @@ const Sidebar: React.FC<SidebarProps> = ({
             </div>
 
             <div className="space-y-2">
-              <label className="block text-[10px] font-bold uppercase tracking-widest" style={{ color: subtleTextColor }}>글꼴</label>
+              <div className="flex justify-between items-center">
+                <label className="block text-[10px] font-bold uppercase tracking-widest" style={{ color: subtleTextColor }}>글꼴</label>
+                <label className="flex items-center gap-1 text-[10px] font-bold text-blue-400 hover:text-blue-300 cursor-pointer transition-colors" title="TTF, OTF, WOFF 폰트 파일 추가">
+                  <Upload size={12} /> 폰트 추가
+                  <input type="file" accept={FONT_FILE_ACCEPT} onChange={handleFontUpload} className="hidden" />
+                </label>
+              </div>
               <select
                 value={fontFamily}
                 onChange={(e) => {
@@ -640,7 +750,10 @@ const Sidebar: React.FC<SidebarProps> = ({
                 className="w-full border rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
                 style={fieldStyle}
               >
-                {FONTS.map(f => <option key={f.value} value={f.value}>{f.name}</option>)}
+                {fontOptions.map(f => <option key={f.value} value={f.value}>{f.name}</option>)}
+                {!fontOptions.some(f => f.value === fontFamily) && (
+                  <option value={fontFamily}>{fontFamily} (설치되지 않음)</option>
+                )}
               </select>
             </div>
 
@@ -680,14 +793,25 @@ const Sidebar: React.FC<SidebarProps> = ({
               <label className="flex items-center justify-between text-[10px] font-bold uppercase tracking-widest mb-1" style={{ color: subtleTextColor }}>
                 <span>배경 (Background)</span>
                 <div className="flex items-center gap-2">
+                  <select
+                    value={restoreEngine}
+                    onChange={(e) => setRestoreEngine(e.target.value as InpaintEngine)}
+                    className="text-[10px] bg-transparent border rounded px-1 focus:outline-none normal-case tracking-normal"
+                    style={{ borderColor: isDark ? '#334155' : '#e2e8f0' }}
+                    title="배경 복원 엔진"
+                  >
+                    {(Object.keys(INPAINT_ENGINE_LABELS) as InpaintEngine[]).map((engine) => (
+                      <option key={engine} value={engine}>{INPAINT_ENGINE_LABELS[engine]}</option>
+                    ))}
+                  </select>
                   <button
                     onClick={handleAiBackgroundRestore}
                     disabled={isGeneratingBg || !hasSelectionOrEditing}
                     className="flex items-center gap-1 text-[10px] text-blue-400 hover:text-blue-300 disabled:opacity-50 transition-colors"
-                    title="현재 영역의 텍스트를 AI로 지우고 자연스러운 배경을 생성합니다"
+                    title="현재 영역의 텍스트를 지우고 자연스러운 배경을 생성합니다"
                   >
                     {isGeneratingBg ? <Loader2 size={10} className="animate-spin" /> : <Eraser size={10} />}
-                    AI 배경 복원
+                    배경 복원
                   </button>
                   {backgroundImage && (
                     <button
@@ -787,6 +911,18 @@ const Sidebar: React.FC<SidebarProps> = ({
                   >
                     Bold
                   </button>
+                  <button
+                    onClick={() => {
+                      const next: TextFontStyle = fontStyle === 'italic' ? 'normal' : 'italic';
+                      setFontStyle(next);
+                      if (isEditing) updateSelectedOverlay({ fontStyle: next });
+                    }}
+                    className="px-2 py-1.5 rounded transition-all"
+                    style={fontStyle === 'italic' ? activeSegmentStyle : { color: inactiveButtonColor }}
+                    title="기울임"
+                  >
+                    <Italic size={14} />
+                  </button>
                 </div>
               </div>
               <div className="space-y-2">
@@ -808,6 +944,121 @@ const Sidebar: React.FC<SidebarProps> = ({
               </div>
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest" style={{ color: subtleTextColor }}>줄 간격 (배)</label>
+                <div className="flex items-center border rounded-lg px-2" style={fieldStyle}>
+                  <UnfoldVertical size={14} className="mr-2" style={{ color: mutedTextColor }} />
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0.5"
+                    value={lineHeight}
+                    onChange={(e) => {
+                      const val = parseFloat(e.target.value);
+                      if (!(val > 0)) return;
+                      setLineHeight(val);
+                      if (isEditing) updateSelectedOverlay({ lineHeight: val });
+                    }}
+                    className="w-full bg-transparent py-2 text-sm focus:outline-none"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest" style={{ color: subtleTextColor }}>문단 간격 (px)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={paragraphSpacing}
+                  onChange={(e) => {
+                    const val = Math.max(0, parseFloat(e.target.value) || 0);
+                    setParagraphSpacing(val);
+                    if (isEditing) updateSelectedOverlay({ paragraphSpacing: val });
+                  }}
+                  className="w-full border rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                  style={fieldStyle}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest cursor-pointer" style={{ color: subtleTextColor }}>
+                <input type="checkbox" checked={!!stroke} onChange={(e) => updateStroke(e.target.checked ? DEFAULT_STROKE : undefined)} />
+                외곽선
+              </label>
+              {stroke && (
+                <div className="flex items-center gap-2 border rounded-lg px-2 py-1" style={fieldStyle}>
+                  <input
+                    type="color"
+                    value={stroke.color}
+                    onChange={(e) => updateStroke({ ...stroke, color: e.target.value })}
+                    className="w-8 h-8 bg-transparent cursor-pointer"
+                    title="외곽선 색상"
+                  />
+                  <span className="text-[10px]" style={{ color: subtleTextColor }}>두께</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={stroke.width}
+                    onChange={(e) => updateStroke({ ...stroke, width: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className="w-full bg-transparent py-1.5 text-sm focus:outline-none"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest cursor-pointer" style={{ color: subtleTextColor }}>
+                <input type="checkbox" checked={!!shadow} onChange={(e) => updateShadow(e.target.checked ? DEFAULT_SHADOW : undefined)} />
+                그림자
+              </label>
+              {shadow && (
+                <div className="grid grid-cols-4 gap-2 items-end">
+                  <input
+                    type="color"
+                    value={shadow.color}
+                    onChange={(e) => updateShadow({ ...shadow, color: e.target.value })}
+                    className="w-full h-9 bg-transparent cursor-pointer"
+                    title="그림자 색상"
+                  />
+                  {([['blur', '흐림'], ['offsetX', 'X'], ['offsetY', 'Y']] as const).map(([key, label]) => (
+                    <div key={key} className="space-y-1">
+                      <span className="text-[10px]" style={{ color: subtleTextColor }}>{label}</span>
+                      <input
+                        type="number"
+                        min={key === 'blur' ? 0 : undefined}
+                        value={shadow[key]}
+                        onChange={(e) => {
+                          const val = parseFloat(e.target.value) || 0;
+                          updateShadow({ ...shadow, [key]: key === 'blur' ? Math.max(0, val) : val });
+                        }}
+                        className="w-full border rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:border-blue-500"
+                        style={fieldStyle}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest" style={{ color: subtleTextColor }}>영역 맞춤</label>
+              <div className="flex p-1 rounded-lg border" style={fieldStyle}>
+                {FIT_MODES.map(mode => (
+                  <button
+                    key={mode.value}
+                    onClick={() => { setFitMode(mode.value); if (isEditing) updateSelectedOverlay({ fitMode: mode.value }); }}
+                    className="flex-1 py-1.5 text-xs rounded transition-all"
+                    style={fitMode === mode.value ? activeSegmentStyle : { color: inactiveButtonColor }}
+                    title={mode.title}
+                  >
+                    {mode.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             {/* Buttons: Show 'Apply' when creating new, 'Update' when editing */}
             <div className="space-y-2 mt-4">
               {!isEditing ? (
@@ -1,7 +1,8 @@
 
 import React, { useState, useRef, useCallback } from 'react';
 import { SlideData } from '../types';
-import { Trash2, GripVertical, ChevronLeft, ChevronRight, Copy } from 'lucide-react';
+import { isSlideModified } from '../utils/slideOperations';
+import { Trash2, GripVertical, ChevronLeft, ChevronRight, Copy, RotateCcw } from 'lucide-react';
 
 interface SlidePanelProps {
     slides: SlideData[];
@@ -9,6 +10,7 @@ interface SlidePanelProps {
     onSlideSelect: (index: number) => void;
     onSlideDelete: (index: number) => void;
     onSlideDuplicate: (index: number) => void;
+    onSlideRevert: (index: number) => void;
     onSlideReorder: (fromIndex: number, toIndex: number) => void;
     isCollapsed: boolean;
     onToggleCollapse: () => void;
@@ -21,6 +23,7 @@ const SlidePanel: React.FC<SlidePanelProps> = ({
     onSlideSelect,
     onSlideDelete,
     onSlideDuplicate,
+    onSlideRevert,
     onSlideReorder,
     isCollapsed,
     onToggleCollapse,
@@ -149,6 +152,15 @@ const SlidePanel: React.FC<SlidePanelProps> = ({
 
                                 {/* Delete button (bottom-right) */}
                                 <div className="absolute bottom-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-1">
+                                    {isSlideModified(slide) && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); onSlideRevert(index); }}
+                                            className="p-1 bg-slate-600/80 hover:bg-slate-500 rounded text-white"
+                                            title="원본으로 되돌리기"
+                                        >
+                                            <RotateCcw size={10} />
+                                        </button>
+                                    )}
                                     <button
                                         onClick={(e) => { e.stopPropagation(); onSlideDuplicate(index); }}
                                         className="p-1 bg-indigo-600/80 hover:bg-indigo-500 rounded text-white"
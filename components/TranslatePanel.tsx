@@ -0,0 +1,212 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { SlideData, TranslationLanguage } from '../types';
+import {
+  TRANSLATION_LANGUAGE_LABELS,
+  TranslatedOverlayPatch,
+  isTranslatableOverlay,
+  translateSlideOverlays
+} from '../services/translationService';
+import { runTaskQueue } from '../utils/taskQueue';
+import { TRANSLATION_CONCURRENCY } from '../constants';
+import { AlertCircle, Languages, Loader2, Square, X } from 'lucide-react';
+
+export interface TranslationResult {
+  slideIndex: number;
+  patches: TranslatedOverlayPatch[];
+}
+
+type TranslationScope = 'overlay' | 'slide' | 'deck';
+
+interface TranslationTask {
+  slideIndex: number;
+  overlayIds?: string[];
+}
+
+interface TranslatePanelProps {
+  slides: SlideData[];
+  activeSlideIdx: number;
+  selectedOverlayId: string | null;
+  isDark: boolean;
+  onApply: (results: TranslationResult[]) => void;
+  onClose: () => void;
+}
+
+const SCOPE_LABELS: Record<TranslationScope, string> = {
+  overlay: '선택한 텍스트',
+  slide: '현재 슬라이드',
+  deck: '전체 슬라이드',
+};
+
+const TranslatePanel: React.FC<TranslatePanelProps> = ({
+  slides,
+  activeSlideIdx,
+  selectedOverlayId,
+  isDark,
+  onApply,
+  onClose,
+}) => {
+  const selectedOverlay = slides[activeSlideIdx]?.overlays.find((overlay) => overlay.id === selectedOverlayId);
+  const canTranslateSelection = !!selectedOverlay && isTranslatableOverlay(selectedOverlay);
+
+  const [language, setLanguage] = useState<TranslationLanguage>('en');
+  const [scope, setScope] = useState<TranslationScope>(canTranslateSelection ? 'overlay' : 'slide');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Closing the panel abandons the job.
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (scope === 'overlay' && !canTranslateSelection) setScope('slide');
+  }, [scope, canTranslateSelection]);
+
+  const panelStyle = {
+    backgroundColor: isDark ? '#0f131a' : '#ffffff',
+    borderColor: isDark ? '#1f2430' : '#e5e7eb',
+    color: isDark ? '#d1d5db' : '#1f2937'
+  };
+  const subtleTextColor = isDark ? '#94a3b8' : '#64748b';
+  const isRunning = progress !== null;
+
+  const buildTasks = (): TranslationTask[] => {
+    if (scope === 'overlay') return selectedOverlayId ? [{ slideIndex: activeSlideIdx, overlayIds: [selectedOverlayId] }] : [];
+    const indices = scope === 'slide' ? [activeSlideIdx] : slides.map((_, index) => index);
+    return indices
+      .filter((index) => slides[index]?.overlays.some(isTranslatableOverlay))
+      .map((slideIndex) => ({ slideIndex }));
+  };
+
+  const handleStart = async () => {
+    const tasks = buildTasks();
+    if (tasks.length === 0) {
+      setErrors(['번역할 텍스트가 없습니다.']);
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setErrors([]);
+    setProgress({ done: 0, total: tasks.length });
+
+    // Slides are read once up front; the results are matched back by slide index and overlay id.
+    const snapshot = slides;
+    const results = await runTaskQueue(
+      tasks,
+      (task, _index, signal) => translateSlideOverlays(snapshot[task.slideIndex], language, task.overlayIds, signal),
+      {
+        concurrency: TRANSLATION_CONCURRENCY,
+        signal: controller.signal,
+        onTaskSettle: () => setProgress((prev) => (prev ? { ...prev, done: prev.done + 1 } : prev)),
+      }
+    );
+
+    controllerRef.current = null;
+    setProgress(null);
+    if (controller.signal.aborted) return;
+
+    const translated: TranslationResult[] = [];
+    const failures: string[] = [];
+    results.forEach((result, index) => {
+      const slideNumber = tasks[index].slideIndex + 1;
+      if (result.status === 'fulfilled') {
+        if (result.value.length > 0) translated.push({ slideIndex: tasks[index].slideIndex, patches: result.value });
+      } else if (result.status === 'rejected') {
+        const { reason } = result;
+        failures.push(`슬라이드 ${slideNumber}: ${reason instanceof Error ? reason.message : String(reason)}`);
+      }
+    });
+
+    if (translated.length > 0) onApply(translated);
+    if (failures.length > 0) setErrors(failures);
+    else onClose();
+  };
+
+  const handleCancel = () => {
+    controllerRef.current?.abort();
+  };
+
+  return (
+    <div className="fixed top-20 right-6 z-40 w-80 rounded-2xl border shadow-2xl flex flex-col" style={panelStyle}>
+      <div className="px-4 py-3 border-b flex items-center justify-between" style={{ borderColor: panelStyle.borderColor }}>
+        <h2 className="text-sm font-bold flex items-center gap-2">
+          <Languages size={16} className="text-indigo-400" />
+          번역
+        </h2>
+        <button onClick={onClose} className="p-1 rounded" style={{ color: subtleTextColor }} title={isRunning ? '작업 취소 후 닫기' : '닫기'}>
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4 text-sm">
+        <div className="space-y-2">
+          <p className="text-[10px] font-bold uppercase tracking-widest" style={{ color: subtleTextColor }}>대상 언어</p>
+          <div className="flex gap-3">
+            {(Object.keys(TRANSLATION_LANGUAGE_LABELS) as TranslationLanguage[]).map((value) => (
+              <label key={value} className="flex items-center gap-1.5 cursor-pointer">
+                <input type="radio" name="translate-language" checked={language === value} onChange={() => setLanguage(value)} disabled={isRunning} />
+                {TRANSLATION_LANGUAGE_LABELS[value]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-[10px] font-bold uppercase tracking-widest" style={{ color: subtleTextColor }}>범위</p>
+          {(Object.keys(SCOPE_LABELS) as TranslationScope[]).map((value) => (
+            <label
+              key={value}
+              className={`flex items-center gap-1.5 ${value === 'overlay' && !canTranslateSelection ? 'opacity-50' : 'cursor-pointer'}`}
+            >
+              <input
+                type="radio"
+                name="translate-scope"
+                checked={scope === value}
+                onChange={() => setScope(value)}
+                disabled={isRunning || (value === 'overlay' && !canTranslateSelection)}
+              />
+              {SCOPE_LABELS[value]}
+            </label>
+          ))}
+        </div>
+
+        <p className="text-[11px]" style={{ color: subtleTextColor }}>
+          번역문이 영역을 넘치면 글자 크기나 자간을 자동으로 줄이며, 모든 결과는 검토 필요로 표시됩니다. 일부 글자에만 준 서식은 첫 부분의 서식으로 통일됩니다.
+        </p>
+
+        {errors.length > 0 && (
+          <div className="space-y-1">
+            {errors.map((error) => (
+              <p key={error} className="text-[11px] text-red-400 flex items-start gap-1 break-all">
+                <AlertCircle size={12} className="shrink-0 mt-0.5" /> {error}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="px-4 py-3 border-t flex items-center gap-2" style={{ borderColor: panelStyle.borderColor }}>
+        {progress ? (
+          <>
+            <span className="text-xs flex items-center gap-1.5" style={{ color: subtleTextColor }}>
+              <Loader2 size={12} className="animate-spin" /> {progress.done}/{progress.total} 슬라이드
+            </span>
+            <button onClick={handleCancel} className="ml-auto px-3 py-1.5 rounded-md text-xs font-semibold text-red-400 flex items-center gap-1">
+              <Square size={12} /> 취소
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={handleStart}
+            className="ml-auto px-3 py-1.5 rounded-md text-xs font-semibold bg-indigo-600 text-white flex items-center gap-1"
+          >
+            <Languages size={12} /> 번역 시작
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranslatePanel;
@@ -1,3 +1,5 @@
+import { FontOption } from './types';
+
 
 export const COLORS = {
   primary: '#3b82f6',
@@ -5,11 +7,31 @@ export const COLORS = {
   canvasBg: '#0f172a',
   overlay: 'rgba(59, 130, 246, 0.2)',
   handle: '#3b82f6',
+  snapGuide: '#ff00ff',
+  guide: '#06b6d4',
 };
 
+export const BUILTIN_FONTS: FontOption[] = [
+  { name: 'Inter', value: 'Inter' },
+  { name: 'Arial', value: 'Arial' },
+  { name: 'Roboto', value: 'Roboto' },
+  { name: 'Times New Roman', value: 'serif' },
+  { name: 'Courier New', value: 'monospace' },
+];
+
 export const HANDLE_SIZE = 8;
 export const MIN_RECT_SIZE = 10;
+export const RULER_SIZE = 20; // 캔버스 가장자리 눈금자 두께(px)
+export const DEFAULT_GRID_SIZE = 50; // 격자 간격 기본값(슬라이드 픽셀)
+export const SNAP_THRESHOLD = 6; // 화면 기준으로 이 거리(px) 안에 들어오면 가이드에 맞춰 붙음
 export const ZOOM_STEP = 0.1;
 export const MAX_ZOOM = 5;
 export const MIN_ZOOM = 0.1;
 export const PAN_STEP = 30; // 키보드 화살표 한 번 입력 시 이동할 픽셀 거리
+export const AUTOSAVE_DEBOUNCE_MS = 1500; // 마지막 편집 후 자동 저장까지 대기 시간
+export const BATCH_TEXT_REMOVAL_CONCURRENCY = 2; // 전체 텍스트 제거 시 동시에 보낼 AI 요청 수
+export const TRANSLATION_CONCURRENCY = 2; // 번역 시 동시에 보낼 AI 요청 수 (슬라이드당 1회)
+export const PASTE_OFFSET = 20; // 같은 위치에 붙여넣을 때 겹치지 않도록 옮길 픽셀 거리
+export const HISTORY_LIMIT = 100; // 되돌리기로 돌아갈 수 있는 최대 단계 수
+export const HISTORY_MAX_BYTES = 200 * 1024 * 1024; // 되돌리기 기록만 붙잡고 있는 슬라이드 이미지의 최대 크기(data URL 길이 기준)
+export const HISTORY_COALESCE_MS = 1000; // 같은 대상을 직전 편집 후 이 시간 안에 다시 편집하면 되돌리기 한 단계로 합침
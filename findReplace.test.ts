@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { FindOptions, buildSearchPattern, findMatches, replaceInSlides, replaceText } from './utils/findReplace';
+import { SlideData, TextOverlay } from './types';
+
+const overlay = (id: string, originalText: string, newText: string = originalText): TextOverlay => ({
+  id,
+  type: 'text',
+  rect: { x: 0, y: 0, width: 10, height: 10 },
+  originalText,
+  newText,
+  fontSize: 12,
+  fontWeight: 'normal',
+  fontColor: '#000',
+  fontFamily: 'Inter',
+  backgroundColor: '#fff',
+  vAlign: 'top',
+  hAlign: 'left',
+});
+
+const slide = (index: number, overlays: TextOverlay[]): SlideData => ({
+  index,
+  dataUrl: `data:image/png;base64,${index}`,
+  width: 100,
+  height: 100,
+  overlays,
+});
+
+const options = (query: string, extra: Partial<FindOptions> = {}): FindOptions => ({
+  query,
+  useRegex: false,
+  caseSensitive: false,
+  wholeWord: false,
+  ...extra,
+});
+
+describe('findMatches', () => {
+  const deck = [
+    slide(0, [overlay('a', 'Acme Cloud 소개'), overlay('b', 'Other')]),
+    slide(1, [overlay('c', 'acme cloud pricing', 'Nimbus pricing')]),
+    slide(2, [{ ...overlay('img', 'Acme'), type: 'image' }]),
+  ];
+
+  it('finds case-insensitive matches in current and original text, skipping image overlays', () => {
+    const matches = findMatches(deck, options('acme cloud'));
+    expect(matches.map((m) => m.key)).toEqual(['0:a', '1:c']);
+    expect(matches[0].newTextRanges).toEqual([{ start: 0, end: 10 }]);
+    expect(matches[1].newTextRanges).toEqual([]);
+    expect(matches[1].originalTextRanges).toEqual([{ start: 0, end: 10 }]);
+  });
+
+  it('honours case sensitivity and whole words', () => {
+    expect(findMatches(deck, options('acme', { caseSensitive: true })).map((m) => m.key)).toEqual(['1:c']);
+    expect(findMatches([slide(0, [overlay('x', 'Acmes Acme')])], options('Acme', { wholeWord: true }))[0].newTextRanges)
+      .toEqual([{ start: 6, end: 10 }]);
+  });
+
+  it('rejects invalid regular expressions', () => {
+    expect(() => buildSearchPattern(options('(', { useRegex: true }))).toThrow();
+  });
+});
+
+describe('replaceText', () => {
+  it('treats the replacement literally outside regex mode', () => {
+    expect(replaceText('price: 10', options('10'), '$1')).toBe('price: $1');
+  });
+
+  it('expands group references in regex mode', () => {
+    expect(replaceText('2024-05', options('(\\d+)-(\\d+)', { useRegex: true }), '$2/$1')).toBe('05/2024');
+    expect(replaceText('v1 v2', options('v(?<n>\\d)', { useRegex: true }), 'ver$<n>')).toBe('ver1 ver2');
+  });
+});
+
+describe('replaceInSlides', () => {
+  it('rewrites only selected overlays and keeps untouched slides identical', () => {
+    const deck = [slide(0, [overlay('a', 'Acme'), overlay('b', 'Acme Pro')]), slide(1, [overlay('c', 'Other')])];
+    const result = replaceInSlides(deck, options('acme'), 'Nimbus', new Set(['0:b']));
+
+    expect(result.replacedCount).toBe(1);
+    expect(result.slides[0].overlays.map((o) => o.newText)).toEqual(['Acme', 'Nimbus Pro']);
+    expect(result.slides[0].overlays[1].originalText).toBe('Acme Pro');
+    expect(result.slides[0].overlays[0]).toBe(deck[0].overlays[0]);
+    expect(result.slides[1]).toBe(deck[1]);
+  });
+
+  it('leaves overlays that matched only in their original text unchanged', () => {
+    const deck = [slide(0, [overlay('a', 'Acme pricing', 'Nimbus pricing')])];
+    const result = replaceInSlides(deck, options('acme'), 'Orbit');
+
+    expect(result.replacedCount).toBe(0);
+    expect(result.slides[0]).toBe(deck[0]);
+    expect(result.slides[0].overlays[0].originalText).toBe('Acme pricing');
+  });
+});
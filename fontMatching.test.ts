@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { matchFontFamily, normalizeFontName } from './utils/fontMatching';
+import { BUILTIN_FONTS } from './constants';
+
+const options = [...BUILTIN_FONTS, { name: 'Noto Sans KR', value: 'Noto Sans KR' }];
+
+describe('normalizeFontName', () => {
+  it('drops quotes, fallbacks, separators and style suffixes', () => {
+    expect(normalizeFontName('"Helvetica-BoldMT", sans-serif')).toBe('helvetica');
+    expect(normalizeFontName('Noto_Sans KR Regular')).toBe('notosanskr');
+  });
+});
+
+describe('matchFontFamily', () => {
+  it('matches names exactly and ignores weight suffixes', () => {
+    expect(matchFontFamily('Arial-Bold', options)).toBe('Arial');
+    expect(matchFontFamily('noto sans kr', options)).toBe('Noto Sans KR');
+    expect(matchFontFamily('Times New Roman', options)).toBe('serif');
+  });
+
+  it('matches a family that extends an available one', () => {
+    expect(matchFontFamily('Roboto Condensed', options)).toBe('Roboto');
+    expect(matchFontFamily('Courier', options)).toBe('monospace');
+  });
+
+  it('falls back to the generic family the name suggests', () => {
+    expect(matchFontFamily('Nanum Myeongjo', options)).toBe('serif');
+    expect(matchFontFamily('Georgia', options)).toBe('serif');
+    expect(matchFontFamily('Source Code Pro', options)).toBe('monospace');
+  });
+
+  it('uses the default font for unknown sans-serif names', () => {
+    expect(matchFontFamily('Malgun Gothic', options)).toBe('Inter');
+    expect(matchFontFamily('sans-serif', options)).toBe('Inter');
+    expect(matchFontFamily(undefined, options)).toBe('Inter');
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DeckHistory,
+  createHistory,
+  createHistoryFromSnapshots,
+  getHistorySnapshots,
+  getOverlayEditKey,
+  jumpToHistory,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+} from './utils/history';
+import { SlideData, TextOverlay } from './types';
+
+const LIMIT = 100;
+const WINDOW = 1000;
+
+const createOverlay = (id: string, text: string): TextOverlay => ({
+  id,
+  type: 'text',
+  rect: { x: 0, y: 0, width: 100, height: 20 },
+  originalText: text,
+  newText: text,
+  fontSize: 12,
+  fontWeight: 'normal',
+  fontColor: '#000',
+  fontFamily: 'Inter',
+  backgroundColor: 'transparent',
+  vAlign: 'top',
+  hAlign: 'left',
+});
+
+const createSlide = (index: number, dataUrl = `data:image/png;base64,${index}`): SlideData => ({
+  index,
+  dataUrl,
+  width: 1920,
+  height: 1080,
+  overlays: [createOverlay(`o${index}`, `slide ${index}`)],
+});
+
+const editText = (slides: SlideData[], slideIndex: number, text: string): SlideData[] =>
+  slides.map((slide, idx) =>
+    idx === slideIndex ? { ...slide, overlays: slide.overlays.map((overlay) => ({ ...overlay, newText: text })) } : slide
+  );
+
+const push = (history: DeckHistory, slides: SlideData[], now: number, coalesceKey: string | null = null) =>
+  pushHistory(history, slides, { label: 'edit', limit: LIMIT, coalesceWindowMs: WINDOW, coalesceKey, now });
+
+describe('deck history', () => {
+  it('undoes and redoes edits, inserts and removals', () => {
+    const deck = [createSlide(0), createSlide(1), createSlide(2)];
+    const edited = editText(deck, 1, 'changed');
+    const inserted = [edited[0], createSlide(9), edited[1], edited[2]];
+    const removed = inserted.slice(1);
+
+    let history = createHistory(deck);
+    history = push(history, edited, 0);
+    history = push(history, inserted, 10_000);
+    history = push(history, removed, 20_000);
+
+    history = undoHistory(history);
+    expect(history.present).toEqual(inserted);
+    history = undoHistory(undoHistory(history));
+    expect(history.present).toEqual(deck);
+    expect(history.present[1]).toBe(deck[1]);
+    history = redoHistory(redoHistory(redoHistory(history)));
+    expect(history.present).toEqual(removed);
+  });
+
+  it('clears redo steps on a new edit and ignores no-op pushes', () => {
+    const deck = [createSlide(0)];
+    let history = push(createHistory(deck), editText(deck, 0, 'a'), 0);
+    history = undoHistory(history);
+    expect(push(history, history.present, 10_000)).toBe(history);
+    history = push(history, editText(deck, 0, 'b'), 10_000);
+    expect(history.future).toHaveLength(0);
+    expect(history.past).toHaveLength(1);
+  });
+
+  it('coalesces rapid edits with the same key into one step', () => {
+    const deck = [createSlide(0)];
+    let history = createHistory(deck);
+    ['h', 'he', 'hel', 'hell', 'hello'].forEach((text, i) => {
+      history = push(history, editText(history.present, 0, text), i * 200, 'typing');
+    });
+    expect(history.past).toHaveLength(1);
+    expect(undoHistory(history).present).toEqual(deck);
+
+    history = push(history, editText(history.present, 0, 'hello!'), 800 + WINDOW + 1, 'typing');
+    history = push(history, editText(history.present, 0, 'hello!?'), 800 + WINDOW + 2, 'other');
+    expect(history.past).toHaveLength(3);
+  });
+
+  it('drops the oldest steps beyond the limit', () => {
+    let history = createHistory([createSlide(0)]);
+    for (let i = 0; i < LIMIT + 20; i++) {
+      history = push(history, editText(history.present, 0, `edit ${i}`), i * 10_000);
+    }
+    expect(history.past).toHaveLength(LIMIT);
+    while (history.past.length > 0) history = undoHistory(history);
+    expect(history.present[0].overlays[0].newText).toBe('edit 19');
+  });
+
+  it('drops the oldest steps once the images only they hold pass the byte budget', () => {
+    const imageSize = 1_000_000;
+    const image = (name: string) => name.padEnd(imageSize, 'x');
+    const options = { label: 'erase', limit: LIMIT, maxBytes: 5 * imageSize, coalesceWindowMs: WINDOW };
+    let history = createHistory([createSlide(0, image('start'))]);
+    for (let i = 0; i < 20; i++) {
+      history = pushHistory(history, [{ ...history.present[0], dataUrl: image(`erase ${i}`) }], { ...options, now: i * 10_000 });
+    }
+    // Each step holds the image it replaced; five of them fit.
+    expect(history.past).toHaveLength(5);
+
+    // Text edits share the image the deck already shows, so they cost nothing against the budget.
+    for (let i = 0; i < 50; i++) {
+      history = pushHistory(history, editText(history.present, 0, `edit ${i}`), { ...options, now: (20 + i) * 10_000 });
+    }
+    expect(history.past).toHaveLength(55);
+    expect(jumpToHistory(history, 0).present[0].dataUrl).toBe(image('erase 14'));
+  });
+
+  it('keeps the newest step even when it alone is over the byte budget', () => {
+    const history = pushHistory(createHistory([createSlide(0, 'a'.repeat(100))]), [createSlide(0, 'b')], {
+      label: 'erase',
+      limit: LIMIT,
+      maxBytes: 10,
+      coalesceWindowMs: WINDOW,
+      now: 0,
+    });
+    expect(history.past).toHaveLength(1);
+  });
+
+  it('round-trips through project snapshots', () => {
+    const deck = [createSlide(0), createSlide(1)];
+    let history = push(createHistory(deck), editText(deck, 0, 'a'), 0);
+    history = push(history, editText(history.present, 1, 'b'), 10_000);
+    history = undoHistory(history);
+
+    const { snapshots, index, labels } = getHistorySnapshots(history);
+    expect(snapshots).toHaveLength(3);
+    expect(index).toBe(1);
+    expect(labels).toEqual(['edit', 'edit']);
+    expect(createHistoryFromSnapshots(snapshots, index, 'loaded').past[0].label).toBe('loaded');
+    const restored = createHistoryFromSnapshots(snapshots, index, 'loaded', ['first', 'second']);
+    expect(restored.past[0].label).toBe('first');
+    expect(restored.future[0].label).toBe('second');
+    expect(restored.present).toEqual(history.present);
+    expect(undoHistory(restored).present).toEqual(deck);
+    expect(redoHistory(restored).present[1].overlays[0].newText).toBe('b');
+  });
+
+  it('caps a loaded history by steps and by bytes', () => {
+    const imageSize = 1000;
+    const snapshots = Array.from({ length: 10 }, (_, i) => [createSlide(0, `${i}`.padEnd(imageSize, 'x'))]);
+
+    expect(createHistoryFromSnapshots(snapshots, 9, 'loaded', [], { limit: 3 }).past).toHaveLength(3);
+    const bounded = createHistoryFromSnapshots(snapshots, 9, 'loaded', [], { limit: LIMIT, maxBytes: 2 * imageSize });
+    expect(bounded.past).toHaveLength(2);
+    expect(jumpToHistory(bounded, 0).present[0]).toBe(snapshots[7][0]);
+    expect(createHistoryFromSnapshots(snapshots, 9, 'loaded').past).toHaveLength(9);
+  });
+
+  it('jumps to any kept step', () => {
+    const deck = [createSlide(0)];
+    let history = createHistory(deck);
+    ['a', 'b', 'c'].forEach((text, i) => {
+      history = push(history, editText(history.present, 0, text), i * 10_000);
+    });
+    expect(jumpToHistory(history, 0).present).toEqual(deck);
+    const middle = jumpToHistory(history, 2);
+    expect(middle.present[0].overlays[0].newText).toBe('b');
+    expect(middle.future).toHaveLength(1);
+    expect(jumpToHistory(middle, 3).present).toEqual(history.present);
+  });
+
+  it('keeps memory bounded over 1,000 edits on a 50-slide deck', () => {
+    // Every tenth edit replaces a slide image, like erasing text does.
+    const imageSize = 20_000;
+    const deck = Array.from({ length: 50 }, (_, i) => createSlide(i, `${i}`.padEnd(imageSize, 'x')));
+    let history = createHistory(deck);
+    for (let i = 0; i < 1000; i++) {
+      const slideIndex = (i * 7) % deck.length;
+      const next =
+        i % 10 === 0
+          ? history.present.map((slide, idx) => (idx === slideIndex ? { ...slide, dataUrl: `e${i}`.padEnd(imageSize, 'y') } : slide))
+          : editText(history.present, slideIndex, `edit ${i}`);
+      history = push(history, next, i * 10_000);
+    }
+
+    const entries = [...history.past, ...history.future];
+    const storedSlides = entries.reduce((sum, entry) => sum + entry.patch.removed.length + entry.patch.inserted.length, 0);
+    const storedImages = new Set(
+      entries.flatMap((entry) => [...entry.patch.removed, ...entry.patch.inserted].map((slide) => slide.dataUrl))
+    );
+    const storedImageBytes = Array.from(storedImages).reduce((sum, dataUrl) => sum + dataUrl.length, 0);
+
+    expect(history.past).toHaveLength(LIMIT);
+    // Full snapshots would hold 1,000 decks of 50 slides; patches hold at most two slides per step.
+    expect(storedSlides).toBeLessThanOrEqual(2 * LIMIT);
+    // At most the images replaced within the retained steps, plus the slides those steps touched.
+    expect(storedImageBytes).toBeLessThanOrEqual((LIMIT / 10 + deck.length) * imageSize);
+  });
+});
+
+describe('getOverlayEditKey', () => {
+  const a = createOverlay('a', 'a');
+  const b = createOverlay('b', 'b');
+
+  it('names the overlays that changed', () => {
+    expect(getOverlayEditKey(2, [a, b], [a, { ...b, newText: 'x' }])).toBe('overlays:2:b');
+  });
+
+  it('gives no key for added, removed or reordered overlays', () => {
+    expect(getOverlayEditKey(0, [a], [a, b])).toBeNull();
+    expect(getOverlayEditKey(0, [a, b], [b, a])).toBeNull();
+    expect(getOverlayEditKey(0, [a, b], [a, b])).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createRectMask, inpaintTelea } from './utils/inpaint';
+
+const createImage = (width: number, height: number, color: (x: number, y: number) => number) => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const v = color(x, y);
+      pixels.set([v, v, v, 255], (y * width + x) * 4);
+    }
+  }
+  return pixels;
+};
+
+describe('createRectMask', () => {
+  it('marks padded rectangles clipped to the image', () => {
+    const mask = createRectMask(4, 3, [{ x: 0, y: 0, width: 1, height: 1 }], 1);
+    expect(Array.from(mask)).toEqual([1, 1, 0, 0, 1, 1, 0, 0, 0, 0, 0, 0]);
+  });
+
+  it('marks rotated rectangles as drawn rather than their unrotated area', () => {
+    const size = 20;
+    // A 10x2 bar across the middle, turned upright.
+    const mask = createRectMask(size, size, [{ x: 5, y: 9, width: 10, height: 2, rotation: 90 }]);
+    const at = (x: number, y: number) => mask[y * size + x];
+
+    expect([at(10, 5), at(10, 10), at(9, 14)]).toEqual([1, 1, 1]);
+    expect([at(5, 10), at(14, 10), at(10, 2)]).toEqual([0, 0, 0]);
+  });
+});
+
+describe('inpaintTelea', () => {
+  it('replaces masked text strokes with the surrounding background', () => {
+    const width = 30;
+    const height = 20;
+    const pixels = createImage(width, height, (x, y) => (y >= 8 && y < 12 && x >= 5 && x < 25 ? 0 : 200));
+    const mask = createRectMask(width, height, [{ x: 4, y: 7, width: 22, height: 6 }]);
+
+    const result = inpaintTelea(pixels, width, height, mask);
+
+    for (let i = 0; i < width * height; i++) {
+      expect(result[i * 4]).toBe(200);
+      expect(result[i * 4 + 3]).toBe(255);
+    }
+  });
+
+  it('continues a gradient across the hole and leaves known pixels untouched', () => {
+    const width = 40;
+    const height = 10;
+    const pixels = createImage(width, height, (x) => x * 5);
+    const mask = createRectMask(width, height, [{ x: 15, y: 0, width: 10, height: height }]);
+
+    const result = inpaintTelea(pixels, width, height, mask);
+
+    expect(result[(5 * width + 10) * 4]).toBe(50);
+    for (let x = 15; x < 25; x++) {
+      expect(Math.abs(result[(5 * width + x) * 4] - x * 5)).toBeLessThanOrEqual(3);
+    }
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import {
+  bringForward,
+  bringToFront,
+  getVisibleOverlays,
+  isOverlayEditable,
+  moveOverlayToIndex,
+  sendBackward,
+  sendToBack,
+} from './utils/layers';
+import { TextOverlay } from './types';
+
+const createOverlay = (id: string, extra: Partial<TextOverlay> = {}): TextOverlay => ({
+  id,
+  type: 'text',
+  rect: { x: 0, y: 0, width: 10, height: 10 },
+  originalText: id,
+  newText: id,
+  fontSize: 12,
+  fontWeight: 'normal',
+  fontColor: '#000',
+  fontFamily: 'Inter',
+  backgroundColor: 'transparent',
+  vAlign: 'top',
+  hAlign: 'left',
+  ...extra,
+});
+
+const ids = (overlays: TextOverlay[]) => overlays.map((overlay) => overlay.id);
+const stack = ['a', 'b', 'c', 'd'].map((id) => createOverlay(id));
+
+describe('layer order', () => {
+  it('moves an overlay to a new index', () => {
+    expect(ids(moveOverlayToIndex(stack, 'a', 2))).toEqual(['b', 'c', 'a', 'd']);
+    expect(ids(moveOverlayToIndex(stack, 'd', 0))).toEqual(['d', 'a', 'b', 'c']);
+    expect(moveOverlayToIndex(stack, 'missing', 0)).toBe(stack);
+  });
+
+  it('steps a selection forward and backward together', () => {
+    expect(ids(bringForward(stack, ['a', 'b']))).toEqual(['c', 'a', 'b', 'd']);
+    expect(ids(bringForward(stack, ['d']))).toEqual(['a', 'b', 'c', 'd']);
+    expect(ids(sendBackward(stack, ['c', 'd']))).toEqual(['a', 'c', 'd', 'b']);
+  });
+
+  it('brings to front and sends to back keeping relative order', () => {
+    expect(ids(bringToFront(stack, ['c', 'a']))).toEqual(['b', 'd', 'a', 'c']);
+    expect(ids(sendToBack(stack, ['d', 'b']))).toEqual(['b', 'd', 'a', 'c']);
+  });
+});
+
+describe('visibility and lock', () => {
+  it('filters hidden overlays and treats locked ones as not editable', () => {
+    const overlays = [createOverlay('a', { hidden: true }), createOverlay('b', { locked: true }), createOverlay('c')];
+    expect(ids(getVisibleOverlays(overlays))).toEqual(['b', 'c']);
+    expect(overlays.map(isOverlayEditable)).toEqual([false, false, true]);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import { RenderableOverlay, drawOverlay } from './utils/overlayRenderer';
+
+const SIZE = 120;
+
+const createContext = () => {
+  const canvas = createCanvas(SIZE, SIZE);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, SIZE, SIZE);
+  return ctx as unknown as CanvasRenderingContext2D;
+};
+
+const render = (overlay: RenderableOverlay) => {
+  const ctx = createContext();
+  drawOverlay(ctx, overlay, {});
+  return ctx.getImageData(0, 0, SIZE, SIZE).data;
+};
+
+// Fraction of pixels whose channels differ by more than a small anti-aliasing tolerance.
+const mismatchRatio = (a: Uint8ClampedArray, b: Uint8ClampedArray) => {
+  let mismatched = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    const diff = Math.max(
+      Math.abs(a[i] - b[i]),
+      Math.abs(a[i + 1] - b[i + 1]),
+      Math.abs(a[i + 2] - b[i + 2])
+    );
+    if (diff > 48) mismatched++;
+  }
+  return mismatched / (a.length / 4);
+};
+
+const inkedPixels = (data: Uint8ClampedArray) => {
+  let count = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i] < 128) count++;
+  }
+  return count;
+};
+
+const textOverlay: RenderableOverlay = {
+  id: 'text',
+  type: 'text',
+  rect: { x: 20, y: 40, width: 80, height: 40 },
+  newText: 'Flip',
+  fontSize: 28,
+  fontWeight: 'bold',
+  fontColor: '#000000',
+  fontFamily: 'sans-serif',
+  backgroundColor: '#ffffff',
+  vAlign: 'middle',
+  hAlign: 'left',
+};
+
+describe('drawOverlay', () => {
+  it('rotates around the rect center', () => {
+    const rotated = render({ ...textOverlay, newText: '', backgroundColor: '#000000', rotation: 90 });
+
+    // Reference: a 80x40 box turned 90° about (60, 60) covers x 40..80, y 20..100.
+    const reference = createContext();
+    reference.fillStyle = '#000000';
+    reference.fillRect(40, 20, 40, 80);
+
+    expect(mismatchRatio(rotated, reference.getImageData(0, 0, SIZE, SIZE).data)).toBe(0);
+  });
+
+  it('mirrors text horizontally and vertically', () => {
+    const plain = render(textOverlay);
+    const flippedH = render({ ...textOverlay, flipHorizontal: true });
+    const flippedV = render({ ...textOverlay, flipVertical: true });
+
+    // Reference: mirror the unflipped pixels about the rect center.
+    const mirrorH = new Uint8ClampedArray(plain.length);
+    const mirrorV = new Uint8ClampedArray(plain.length);
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        const source = (y * SIZE + x) * 4;
+        mirrorH.set(plain.subarray(source, source + 4), (y * SIZE + (SIZE - 1 - x)) * 4);
+        mirrorV.set(plain.subarray(source, source + 4), ((SIZE - 1 - y) * SIZE + x) * 4);
+      }
+    }
+
+    expect(inkedPixels(plain)).toBeGreaterThan(100);
+    expect(mismatchRatio(flippedH, mirrorH)).toBeLessThan(0.005);
+    expect(mismatchRatio(flippedV, mirrorV)).toBeLessThan(0.005);
+  });
+
+  it('treats a half turn plus both flips as the identity', () => {
+    const plain = render(textOverlay);
+    const turned = render({ ...textOverlay, rotation: 180, flipHorizontal: true, flipVertical: true });
+    expect(mismatchRatio(turned, plain)).toBeLessThan(0.005);
+  });
+
+  it('keeps wrapped and shrunk text inside the rect', () => {
+    const long = { ...textOverlay, rect: { x: 10, y: 10, width: 60, height: 60 }, newText: 'wrap this long line', fontSize: 16 };
+    const inkOutside = (data: Uint8ClampedArray) => {
+      let count = 0;
+      for (let y = 0; y < SIZE; y++) {
+        for (let x = 72; x < SIZE; x++) {
+          if (data[(y * SIZE + x) * 4] < 128) count++;
+        }
+      }
+      return count;
+    };
+
+    expect(inkOutside(render(long))).toBeGreaterThan(0);
+    expect(inkOutside(render({ ...long, fitMode: 'wrap' }))).toBe(0);
+    expect(inkOutside(render({ ...long, fontSize: 40, fitMode: 'shrink' }))).toBe(0);
+  });
+
+  it('draws the stroke outside the glyphs and the shadow at its offset', () => {
+    const plain = render({ ...textOverlay, fontColor: '#ffffff' });
+    const stroked = render({ ...textOverlay, fontColor: '#ffffff', stroke: { color: '#000000', width: 2 } });
+    expect(inkedPixels(plain)).toBe(0);
+    expect(inkedPixels(stroked)).toBeGreaterThan(100);
+
+    // With white glyphs only the hard shadow shows, and it lies where the text would be 10px down and right.
+    const shadowed = render({ ...textOverlay, fontColor: '#ffffff', shadow: { color: '#000000', blur: 0, offsetX: 10, offsetY: 10 } });
+    const moved = render({ ...textOverlay, rect: { ...textOverlay.rect, x: 30, y: 50 } });
+    let strayInk = 0;
+    for (let i = 0; i < shadowed.length; i += 4) {
+      if (shadowed[i] < 128 && moved[i] >= 128) strayInk++;
+    }
+    expect(inkedPixels(shadowed)).toBeGreaterThan(100);
+    expect(strayInk).toBeLessThan(10);
+  });
+
+  it('scales the shadow with the canvas transform', () => {
+    const overlay = { ...textOverlay, fontColor: '#ffffff', shadow: { color: '#000000', blur: 0, offsetX: 6, offsetY: 0 } };
+    const ctx = createContext();
+    ctx.scale(0.5, 0.5);
+    drawOverlay(ctx, overlay, {});
+    const zoomed = ctx.getImageData(0, 0, SIZE, SIZE).data;
+
+    // At half zoom nothing may land right of the half-size rect plus the half-size offset.
+    let inkRight = 0;
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 54; x < SIZE; x++) {
+        if (zoomed[(y * SIZE + x) * 4] < 128) inkRight++;
+      }
+    }
+    expect(inkedPixels(zoomed)).toBeGreaterThan(0);
+    expect(inkRight).toBe(0);
+  });
+
+  it('leaves only the background when text is skipped', () => {
+    const ctx = createContext();
+    drawOverlay(ctx, { ...textOverlay, backgroundColor: '#ff0000' }, {}, { skipText: true });
+    const data = ctx.getImageData(60, 60, 1, 1).data;
+    expect(Array.from(data)).toEqual([255, 0, 0, 255]);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { getTextLayerLines, isLatin1Text, isTrueTypeFontDataUrl, orderTextLayerFonts } from './utils/pdfTextLayer';
+import { TextOverlay } from './types';
+
+// Every character is half the font size wide, so positions are easy to work out by hand.
+const measure = (text: string, fontSize: number) => text.length * fontSize * 0.5;
+
+const createOverlay = (extra: Partial<TextOverlay> = {}): TextOverlay => ({
+  id: 'a',
+  type: 'text',
+  rect: { x: 100, y: 50, width: 200, height: 40 },
+  originalText: 'Hello',
+  newText: 'Hello',
+  fontSize: 20,
+  fontWeight: 'normal',
+  fontColor: '#000',
+  fontFamily: 'Inter',
+  backgroundColor: 'transparent',
+  vAlign: 'top',
+  hAlign: 'left',
+  ...extra,
+});
+
+describe('getTextLayerLines', () => {
+  it('places a line where the canvas renders it', () => {
+    // 24px line box at the default 1.2 line height; the text sits 2px down plus a 1px nudge.
+    expect(getTextLayerLines(createOverlay(), measure)).toEqual([
+      { text: 'Hello', x: 100, y: 53, angle: 0, fontSize: 20, width: 50 },
+    ]);
+    expect(getTextLayerLines(createOverlay({ hAlign: 'center' }), measure)[0].x).toBe(175);
+  });
+
+  it('rotates the line anchor around the overlay centre', () => {
+    const [line] = getTextLayerLines(createOverlay({ rotation: 90 }), measure);
+    expect(line.angle).toBe(-90);
+    expect(line.x).toBeCloseTo(217);
+    expect(line.y).toBeCloseTo(-30);
+  });
+
+  it('mirrors line boxes of flipped overlays', () => {
+    expect(getTextLayerLines(createOverlay({ flipHorizontal: true }), measure)[0].x).toBe(250);
+    expect(getTextLayerLines(createOverlay({ flipVertical: true }), measure)[0].y).toBe(67);
+  });
+
+  it('skips image and empty overlays', () => {
+    expect(getTextLayerLines(createOverlay({ type: 'image', imageSrc: 'data:image/png;base64,x' }), measure)).toEqual([]);
+    expect(getTextLayerLines(createOverlay({ newText: '  \n ' }), measure)).toEqual([]);
+  });
+});
+
+describe('isLatin1Text', () => {
+  it('accepts what the built-in PDF fonts can encode', () => {
+    expect(isLatin1Text('Café à 12°')).toBe(true);
+    expect(isLatin1Text('안녕하세요')).toBe(false);
+    expect(isLatin1Text('カタカナ')).toBe(false);
+  });
+});
+
+describe('isTrueTypeFontDataUrl', () => {
+  const toDataUrl = (bytes: number[]) => `data:font/ttf;base64,${btoa(String.fromCharCode(...bytes))}`;
+
+  it('accepts TrueType outlines and rejects CFF OpenType and WOFF', () => {
+    expect(isTrueTypeFontDataUrl(toDataUrl([0, 1, 0, 0, 0, 18]))).toBe(true);
+    expect(isTrueTypeFontDataUrl(toDataUrl([0x74, 0x72, 0x75, 0x65, 0, 9]))).toBe(true);
+    expect(isTrueTypeFontDataUrl(toDataUrl([0x4f, 0x54, 0x54, 0x4f, 0, 11]))).toBe(false);
+    expect(isTrueTypeFontDataUrl(toDataUrl([0x77, 0x4f, 0x46, 0x46, 0, 1]))).toBe(false);
+  });
+});
+
+describe('orderTextLayerFonts', () => {
+  it("tries the overlay's own font before the others", () => {
+    expect(orderTextLayerFonts(['Noto Sans KR', 'Noto Sans JP'], 'Noto Sans JP')).toEqual(['Noto Sans JP', 'Noto Sans KR']);
+    expect(orderTextLayerFonts(['Noto Sans KR'], 'Inter')).toEqual(['Noto Sans KR']);
+  });
+});
@@ -0,0 +1,108 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { parsePptx, resolvePartPath } from './services/pptxImportService';
+
+const NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+
+const rels = (targets: Record<string, string>) =>
+  `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${Object.entries(targets)
+    .map(([id, target]) => `<Relationship Id="${id}" Type="x" Target="${target}"/>`)
+    .join('')}</Relationships>`;
+
+// One 16:9 slide whose layout, master and theme are reached through relative rels targets.
+const buildPptx = (shapes: string) => {
+  const zip = new JSZip();
+  zip.file('ppt/presentation.xml', `<p:presentation ${NS}><p:sldIdLst><p:sldId id="256" r:id="rId2"/></p:sldIdLst><p:sldSz cx="12192000" cy="6858000"/></p:presentation>`);
+  zip.file('ppt/_rels/presentation.xml.rels', rels({ rId2: 'slides/slide1.xml' }));
+  zip.file('ppt/slides/slide1.xml', `<p:sld ${NS}><p:cSld><p:spTree>${shapes}</p:spTree></p:cSld></p:sld>`);
+  zip.file('ppt/slides/_rels/slide1.xml.rels', rels({ rId1: '../slideLayouts/slideLayout1.xml' }));
+  zip.file('ppt/slideLayouts/slideLayout1.xml', `<p:sldLayout ${NS}><p:cSld><p:spTree/></p:cSld></p:sldLayout>`);
+  zip.file('ppt/slideLayouts/_rels/slideLayout1.xml.rels', rels({ rId1: '../slideMasters/slideMaster1.xml' }));
+  zip.file('ppt/slideMasters/slideMaster1.xml', `<p:sldMaster ${NS}><p:cSld><p:spTree/></p:cSld></p:sldMaster>`);
+  zip.file('ppt/slideMasters/_rels/slideMaster1.xml.rels', rels({ rId1: '/ppt/theme/theme1.xml' }));
+  zip.file(
+    'ppt/theme/theme1.xml',
+    `<a:theme ${NS}><a:themeElements><a:clrScheme name="t"><a:dk1><a:srgbClr val="111111"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1></a:clrScheme>` +
+      `<a:fontScheme name="t"><a:majorFont><a:latin typeface="Georgia"/></a:majorFont><a:minorFont><a:latin typeface="Calibri"/></a:minorFont></a:fontScheme></a:themeElements></a:theme>`
+  );
+  return zip;
+};
+
+// 9525 EMU is one pixel at 96 dpi, and the import renders at twice that: the frame is 200,100 400x200.
+const textShape = (bodyPr: string, paragraphs: string, nvPr = '<p:nvPr/>') =>
+  `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Text"/><p:cNvSpPr/>${nvPr}</p:nvSpPr>` +
+  `<p:spPr><a:xfrm rot="5400000" flipH="1"><a:off x="952500" y="476250"/><a:ext cx="1905000" cy="952500"/></a:xfrm></p:spPr>` +
+  `<p:txBody>${bodyPr}${paragraphs}</p:txBody></p:sp>`;
+
+describe('parsePptx', () => {
+  it('reads the slide size and a text box frame, honouring explicit zero insets', async () => {
+    const zip = buildPptx(textShape('<a:bodyPr lIns="0" tIns="0"/>', '<a:p><a:r><a:t>Hi</a:t></a:r></a:p>'));
+    const parsed = await parsePptx(zip);
+    expect(parsed.width).toBe(2560);
+    expect(parsed.height).toBe(1440);
+
+    const [text] = parsed.slides[0].texts;
+    // Left and top insets are 0, right and bottom keep the 0.1" and 0.05" defaults.
+    expect(text.rect.x).toBeCloseTo(200);
+    expect(text.rect.y).toBeCloseTo(100);
+    expect(text.rect.width).toBeCloseTo(400 - 19.2);
+    expect(text.rect.height).toBeCloseTo(200 - 9.6);
+    expect(text.rotation).toBe(90);
+    expect(text.flipHorizontal).toBe(true);
+    expect(text.flipVertical).toBe(false);
+  });
+
+  it('takes the box style from the first run and keeps differing runs as styled runs', async () => {
+    const paragraphs =
+      '<a:p><a:r><a:rPr sz="2400" b="1"/><a:t>Hello </a:t></a:r>' +
+      '<a:r><a:rPr sz="2400" b="1" i="1" u="sng"><a:solidFill><a:srgbClr val="FF0000"/></a:solidFill></a:rPr><a:t>world</a:t></a:r></a:p>' +
+      '<a:p><a:r><a:rPr sz="1200"/><a:t>Bye</a:t></a:r></a:p>' +
+      '<a:p><a:endParaRPr sz="2400"/></a:p>';
+    const parsed = await parsePptx(buildPptx(textShape('<a:bodyPr/>', paragraphs)));
+
+    const [text] = parsed.slides[0].texts;
+    expect(text.newText).toBe('Hello world\nBye');
+    // 24 pt at 96 dpi and the 2x render scale.
+    expect(text.fontSize).toBe(64);
+    expect(text.fontWeight).toBe('bold');
+    expect(text.fontColor).toBe('#111111');
+    expect(text.fontFamily).toBe('Calibri');
+    expect(text.runs).toEqual([
+      { text: 'Hello ' },
+      { text: 'world', italic: true, underline: true, color: '#FF0000' },
+      { text: '\n' },
+      { text: 'Bye', bold: false, fontSize: 32 },
+    ]);
+  });
+
+  it('leaves runs unset when every run shares the box style', async () => {
+    const paragraphs = '<a:p><a:r><a:t>One</a:t></a:r><a:br/><a:r><a:t>Two</a:t></a:r></a:p>';
+    const [text] = (await parsePptx(buildPptx(textShape('<a:bodyPr/>', paragraphs)))).slides[0].texts;
+    expect(text.newText).toBe('One\nTwo');
+    expect(text.runs).toBeUndefined();
+  });
+
+  it('falls back to the theme heading font for title placeholders', async () => {
+    const paragraphs = '<a:p><a:r><a:t>Title</a:t></a:r></a:p>';
+    const title = textShape('<a:bodyPr/>', paragraphs, '<p:nvPr><p:ph type="title"/></p:nvPr>');
+    const [text] = (await parsePptx(buildPptx(title))).slides[0].texts;
+    expect(text.fontFamily).toBe('Georgia');
+  });
+
+  it('rejects archives without a presentation part', async () => {
+    await expect(parsePptx(new JSZip())).rejects.toThrow('ppt/presentation.xml');
+  });
+});
+
+describe('resolvePartPath', () => {
+  it('resolves rels targets against the folder of the part', () => {
+    expect(resolvePartPath('ppt/slides/slide1.xml', '../slideLayouts/slideLayout1.xml')).toBe('ppt/slideLayouts/slideLayout1.xml');
+    expect(resolvePartPath('ppt/presentation.xml', 'slides/slide1.xml')).toBe('ppt/slides/slide1.xml');
+    expect(resolvePartPath('ppt/slides/slide1.xml', './../media/image1.png')).toBe('ppt/media/image1.png');
+  });
+
+  it('treats a leading slash as the package root', () => {
+    expect(resolvePartPath('ppt/slideMasters/slideMaster1.xml', '/ppt/theme/theme1.xml')).toBe('ppt/theme/theme1.xml');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { buildPptxTextRuns, getPptxPositionProps } from './utils/pptxText';
+import { getOverlayLayoutInput } from './utils/overlayRenderer';
+import { isBoldWeight } from './utils/richText';
+import { layoutText } from './utils/textLayout';
+import { TextOverlay } from './types';
+
+// Every character is half the font size wide, so wrapping is easy to work out by hand.
+const measure = (text: string, fontSize: number) => text.length * fontSize * 0.5;
+
+const createOverlay = (extra: Partial<TextOverlay> = {}): TextOverlay => ({
+  id: 'a',
+  type: 'text',
+  rect: { x: 96, y: 48, width: 60, height: 200 },
+  originalText: '',
+  newText: 'Hello world\nBye',
+  fontSize: 20,
+  fontWeight: 'normal',
+  fontColor: '#000000',
+  fontFamily: 'Inter',
+  backgroundColor: 'transparent',
+  vAlign: 'top',
+  hAlign: 'left',
+  fitMode: 'wrap',
+  ...extra,
+});
+
+const buildRuns = (overlay: TextOverlay, scale = 1) =>
+  buildPptxTextRuns(layoutText(getOverlayLayoutInput(overlay), measure), overlay, scale);
+
+describe('buildPptxTextRuns', () => {
+  it('soft-breaks wrapped lines and ends paragraphs at typed breaks', () => {
+    const runs = buildRuns(createOverlay());
+    expect(runs.map((run) => run.text)).toEqual(['Hello', 'world', 'Bye']);
+    expect(runs.map((run) => [run.options?.softBreakBefore, run.options?.breakLine])).toEqual([
+      [false, false],
+      [true, true],
+      [false, false],
+    ]);
+  });
+
+  it('keeps empty paragraphs as their own break', () => {
+    const runs = buildRuns(createOverlay({ newText: 'A\n\nB' }));
+    expect(runs.map((run) => [run.text, run.options?.breakLine])).toEqual([
+      ['A', true],
+      ['', true],
+      ['B', false],
+    ]);
+  });
+
+  it('breaks only after the last fragment of a styled line', () => {
+    const overlay = createOverlay({ newText: 'Hi yo\nB', runs: [{ text: 'Hi', bold: true }, { text: ' yo\nB' }] });
+    const runs = buildRuns(overlay);
+    expect(runs.map((run) => [run.text, run.options?.bold, run.options?.breakLine])).toEqual([
+      ['Hi', true, false],
+      [' yo', false, true],
+      ['B', false, false],
+    ]);
+  });
+
+  it('scales font sizes and paragraph spacing onto the deck layout', () => {
+    const runs = buildRuns(createOverlay({ paragraphSpacing: 8 }), 2);
+    // 20px at scale 2 is 40px, which is 30pt.
+    expect(runs[0].options?.fontSize).toBe(30);
+    expect(runs[0].options?.paraSpaceBefore).toBeUndefined();
+    expect(runs[2].options?.paraSpaceBefore).toBe(12);
+  });
+});
+
+describe('getPptxPositionProps', () => {
+  it('converts the rect to inches and passes rotation and flips through', () => {
+    expect(getPptxPositionProps(createOverlay(), 2)).toEqual({
+      x: 2,
+      y: 1,
+      w: 1.25,
+      h: 200 / 48,
+      rotate: undefined,
+      flipH: undefined,
+      flipV: undefined,
+    });
+    const turned = getPptxPositionProps(createOverlay({ rotation: -90, flipHorizontal: true, flipVertical: true }), 1);
+    expect(turned.rotate).toBe(270);
+    expect(turned.flipH).toBe(true);
+    expect(turned.flipV).toBe(true);
+  });
+});
+
+describe('isBoldWeight', () => {
+  it('treats bold keywords and weights from 600 as bold', () => {
+    expect(isBoldWeight('bold')).toBe(true);
+    expect(isBoldWeight('600')).toBe(true);
+    expect(isBoldWeight('500')).toBe(false);
+    expect(isBoldWeight('normal')).toBe(false);
+    expect(isBoldWeight(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PROJECT_SCHEMA_VERSION,
+  migrateProjectManifest,
+  restoreProject,
+  serializeProject,
+} from './utils/projectFormat';
+import { createHistory, createHistoryFromSnapshots, getHistorySnapshots, pushHistory } from './utils/history';
+import { SlideData } from './types';
+
+const createSlide = (name: string, overlayText: string): SlideData => ({
+  index: 0,
+  dataUrl: `data:image/png;base64,${name}`,
+  width: 100,
+  height: 50,
+  overlays: [
+    {
+      id: `${name}-overlay`,
+      type: 'text',
+      rect: { x: 1, y: 2, width: 30, height: 10 },
+      originalText: 'before',
+      newText: overlayText,
+      fontSize: 12,
+      fontWeight: 'bold',
+      fontColor: '#111111',
+      fontFamily: 'Inter',
+      backgroundColor: '#ffffff',
+      backgroundImage: 'data:image/jpeg;base64,patch',
+      vAlign: 'middle',
+      hAlign: 'center',
+    },
+  ],
+});
+
+describe('project format', () => {
+  it('round-trips history and deduplicates shared images', () => {
+    const history = [[createSlide('s0', 'first')], [createSlide('s0', 'second')]];
+    const { manifest, assets } = serializeProject({ name: 'deck', history, historyIndex: 1 });
+
+    expect(manifest.schemaVersion).toBe(PROJECT_SCHEMA_VERSION);
+    expect(assets.entries()).toHaveLength(2);
+
+    const files = new Map(assets.entries().map(({ path, dataUrl }) => [path, dataUrl]));
+    const restored = restoreProject(migrateProjectManifest(JSON.parse(JSON.stringify(manifest))), (ref) => files.get(ref));
+
+    expect(restored.historyIndex).toBe(1);
+    expect(restored.history[1][0].dataUrl).toBe('data:image/png;base64,s0');
+    expect(restored.history[1][0].overlays[0].newText).toBe('second');
+    expect(restored.history[0][0].overlays[0].backgroundImage).toBe('data:image/jpeg;base64,patch');
+  });
+
+  it('fills overlay defaults missing from older files', () => {
+    const manifest = migrateProjectManifest({
+      schemaVersion: 1,
+      name: 'old',
+      history: [[{ index: 0, width: 10, height: 10, image: 'assets/1.png', overlays: [{ id: 'a', rect: { x: 0, y: 0, width: 5, height: 5 }, newText: 'hi' }] }]],
+      historyIndex: 0,
+    });
+    const restored = restoreProject(manifest, () => 'data:image/png;base64,x');
+    const overlay = restored.history[0][0].overlays[0];
+
+    expect(overlay.type).toBe('text');
+    expect(overlay.originalText).toBe('');
+    expect(overlay.hAlign).toBe('left');
+    expect(overlay.rotation).toBe(0);
+  });
+
+  it('stores uploaded fonts as assets and restores them', () => {
+    const fonts = [{ family: 'Brand Sans', fileName: 'BrandSans.woff2', dataUrl: 'data:font/woff2;base64,Zm9udA==' }];
+    const { manifest, assets } = serializeProject({ name: 'deck', history: [[createSlide('s0', 'text')]], historyIndex: 0, fonts });
+
+    expect(manifest.fonts).toEqual([{ family: 'Brand Sans', fileName: 'BrandSans.woff2', file: expect.stringMatching(/\.woff2$/) }]);
+    const files = new Map(assets.entries().map(({ path, dataUrl }) => [path, dataUrl]));
+    const restored = restoreProject(migrateProjectManifest(JSON.parse(JSON.stringify(manifest))), (ref) => files.get(ref));
+    expect(restored.fonts).toEqual(fonts);
+  });
+
+  it('gives version 1 files an empty font list', () => {
+    const manifest = migrateProjectManifest({
+      schemaVersion: 1,
+      name: 'old',
+      history: [[{ index: 0, width: 10, height: 10, image: 'assets/1.png', overlays: [] }]],
+      historyIndex: 0,
+    });
+    expect(manifest.schemaVersion).toBe(PROJECT_SCHEMA_VERSION);
+    expect(restoreProject(manifest, () => 'data:image/png;base64,x').fonts).toEqual([]);
+  });
+
+  it('keeps slide and deck guides', () => {
+    const slide = { ...createSlide('s0', 'text'), guides: [{ id: 'g1', axis: 'x' as const, position: 40 }] };
+    const guides = [{ id: 'g2', axis: 'y' as const, position: 25 }];
+    const { manifest } = serializeProject({ name: 'deck', history: [[slide]], historyIndex: 0, guides });
+    const restored = restoreProject(migrateProjectManifest(JSON.parse(JSON.stringify(manifest))), () => 'data:image/png;base64,x');
+
+    expect(restored.history[0][0].guides).toEqual(slide.guides);
+    expect(restored.guides).toEqual(guides);
+  });
+
+  it('keeps slide originals and shares unedited overlays with them', () => {
+    const imported = createSlide('s0', 'text');
+    const untouched: SlideData = { ...imported, original: { dataUrl: imported.dataUrl, overlays: imported.overlays } };
+    const erased: SlideData = { ...untouched, dataUrl: 'data:image/png;base64,erased', overlays: [] };
+    const { manifest, assets } = serializeProject({ name: 'deck', history: [[untouched, erased]], historyIndex: 0 });
+    const dataUrls = new Map(assets.entries().map(({ path, dataUrl }) => [path, dataUrl]));
+    const [restoredUntouched, restoredErased] = restoreProject(manifest, (ref) => dataUrls.get(ref)).history[0];
+
+    expect(restoredUntouched.original?.overlays).toBe(restoredUntouched.overlays);
+    expect(restoredErased.original?.dataUrl).toBe(imported.dataUrl);
+    expect(restoredErased.original?.overlays[0].newText).toBe('text');
+  });
+
+  it('restores slides repeated across snapshots as one object so reopened undo steps stay slide-sized', () => {
+    const deck = ['s0', 's1', 's2'].map((name) => ({ ...createSlide(name, 'text'), index: Number(name[1]) }));
+    let history = createHistory(deck);
+    deck.forEach((_, slideIndex) => {
+      const next = history.present.map((slide, idx) =>
+        idx === slideIndex ? { ...slide, overlays: slide.overlays.map((overlay) => ({ ...overlay, newText: 'edited' })) } : slide
+      );
+      history = pushHistory(history, next, { label: 'edit', limit: 100, coalesceWindowMs: 0, now: slideIndex * 10_000 });
+    });
+
+    const { snapshots, index } = getHistorySnapshots(history);
+    const { manifest, assets } = serializeProject({ name: 'deck', history: snapshots, historyIndex: index });
+    const dataUrls = new Map(assets.entries().map(({ path, dataUrl }) => [path, dataUrl]));
+    const restored = restoreProject(JSON.parse(JSON.stringify(manifest)), (ref) => dataUrls.get(ref));
+    const reopened = createHistoryFromSnapshots(restored.history, restored.historyIndex, 'loaded');
+
+    expect(restored.history[1][2]).toBe(restored.history[0][2]);
+    expect(reopened.past).toHaveLength(3);
+    reopened.past.forEach((entry) => {
+      expect(entry.patch.removed).toHaveLength(1);
+      expect(entry.patch.inserted).toHaveLength(1);
+    });
+  });
+
+  it('keeps history step labels and checkpoints', () => {
+    const first = [createSlide('s0', 'first')];
+    const second = [createSlide('s0', 'second')];
+    const checkpoint = { id: 'c', name: '초안', createdAt: 5, slides: first };
+    const { manifest, assets } = serializeProject({
+      name: 'deck',
+      history: [first, second],
+      historyIndex: 1,
+      historyLabels: ['텍스트 수정'],
+      checkpoints: [checkpoint],
+    });
+    expect(assets.entries()).toHaveLength(2);
+
+    const dataUrls = new Map(assets.entries().map(({ path, dataUrl }) => [path, dataUrl]));
+    const restored = restoreProject(migrateProjectManifest(JSON.parse(JSON.stringify(manifest))), (ref) => dataUrls.get(ref));
+    expect(restored.historyLabels).toEqual(['텍스트 수정']);
+    expect(restored.checkpoints).toHaveLength(1);
+    expect(restored.checkpoints?.[0]).toMatchObject({ id: 'c', name: '초안', createdAt: 5 });
+    // The checkpoint's slide is the same object as the matching history slide.
+    expect(restored.checkpoints?.[0].slides[0]).toBe(restored.history[0][0]);
+  });
+
+  it('gives version 3 files no step labels or checkpoints', () => {
+    const manifest = migrateProjectManifest({
+      schemaVersion: 3,
+      name: 'old',
+      history: [[{ index: 0, width: 10, height: 10, image: 'assets/1.png', overlays: [] }]],
+      historyIndex: 0,
+      fonts: [],
+      guides: [],
+    });
+    expect(manifest.historyLabels).toEqual([]);
+    expect(manifest.checkpoints).toEqual([]);
+  });
+
+  it('gives version 2 files no deck guides', () => {
+    const manifest = migrateProjectManifest({
+      schemaVersion: 2,
+      name: 'old',
+      history: [[{ index: 0, width: 10, height: 10, image: 'assets/1.png', overlays: [] }]],
+      historyIndex: 0,
+      fonts: [],
+    });
+    expect(manifest.guides).toEqual([]);
+  });
+
+  it('rejects files written by a newer schema', () => {
+    expect(() => migrateProjectManifest({ schemaVersion: PROJECT_SCHEMA_VERSION + 1, history: [[]] })).toThrow(/newer version/);
+  });
+
+  it('rejects manifests whose lists are missing or malformed', () => {
+    expect(() => migrateProjectManifest([])).toThrow(/manifest is missing/);
+    expect(() => migrateProjectManifest({ schemaVersion: PROJECT_SCHEMA_VERSION, history: [[]] })).toThrow(/malformed/);
+    expect(() =>
+      migrateProjectManifest({ schemaVersion: 1, history: ['not a deck'], historyIndex: 0 })
+    ).toThrow(/malformed/);
+  });
+});
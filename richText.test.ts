@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyRunStyle,
+  getOverlayRuns,
+  getOverlayTextSpans,
+  getRangeStyle,
+  spliceRuns,
+  updateRunsText,
+} from './utils/richText';
+import { replaceInSlides } from './utils/findReplace';
+import { SlideData, TextRun } from './types';
+
+const styled: TextRun[] = [{ text: 'Sales ' }, { text: '42%', bold: true, color: '#ff0000' }, { text: ' up' }];
+
+describe('applyRunStyle', () => {
+  it('styles only the selected range and merges equal neighbours', () => {
+    expect(applyRunStyle([{ text: 'hello world' }], 6, 11, { bold: true })).toEqual([
+      { text: 'hello ' },
+      { text: 'world', bold: true },
+    ]);
+  });
+
+  it('clears overrides given as undefined and drops runs once none remain', () => {
+    expect(applyRunStyle(styled, 6, 9, { bold: undefined, color: undefined })).toBeUndefined();
+  });
+});
+
+describe('updateRunsText', () => {
+  it('keeps styles around an edit and gives inserted text the style before it', () => {
+    expect(updateRunsText(styled, 'Sales 42%! up')).toEqual([
+      { text: 'Sales ' },
+      { text: '42%!', bold: true, color: '#ff0000' },
+      { text: ' up' },
+    ]);
+  });
+
+  it('drops a styled run whose text is deleted', () => {
+    expect(updateRunsText(styled, 'Sales up')).toBeUndefined();
+  });
+});
+
+describe('spliceRuns', () => {
+  it('gives a replacement the style of the first replaced character', () => {
+    expect(spliceRuns(styled, 6, 9, '50%')).toEqual(styled.map((run) => (run.bold ? { ...run, text: '50%' } : run)));
+  });
+});
+
+describe('getRangeStyle', () => {
+  it('reports only the overrides shared by the whole range', () => {
+    expect(getRangeStyle(styled, 6, 9)).toEqual({ bold: true, color: '#ff0000' });
+    expect(getRangeStyle(styled, 4, 9)).toEqual({});
+  });
+});
+
+describe('getOverlayTextSpans', () => {
+  it('resolves runs against the overlay style', () => {
+    const spans = getOverlayTextSpans({
+      newText: 'Sales 42% up',
+      runs: [{ text: 'Sales ' }, { text: '42%', bold: true, fontSize: 30, italic: true }, { text: ' up', underline: true }],
+      fontSize: 20,
+      fontWeight: 'normal',
+      fontColor: '#111111',
+    });
+    expect(spans).toEqual([
+      { text: 'Sales ', fontSize: 20, fontWeight: 'normal', fontStyle: 'normal', color: '#111111', underline: false },
+      { text: '42%', fontSize: 30, fontWeight: 'bold', fontStyle: 'italic', color: '#111111', underline: false },
+      { text: ' up', fontSize: 20, fontWeight: 'normal', fontStyle: 'normal', color: '#111111', underline: true },
+    ]);
+  });
+
+  it('renders plain text when runs no longer match newText', () => {
+    expect(getOverlayRuns({ newText: 'changed', runs: styled })).toEqual([{ text: 'changed' }]);
+  });
+});
+
+describe('replaceInSlides with runs', () => {
+  it('keeps the style of replaced text', () => {
+    const slides: SlideData[] = [{
+      index: 0,
+      dataUrl: 'data:image/png;base64,0',
+      width: 100,
+      height: 100,
+      overlays: [{
+        id: 'a',
+        type: 'text',
+        rect: { x: 0, y: 0, width: 10, height: 10 },
+        originalText: 'Sales 42% up',
+        newText: 'Sales 42% up',
+        runs: styled,
+        fontSize: 12,
+        fontWeight: 'normal',
+        fontColor: '#000',
+        fontFamily: 'Inter',
+        backgroundColor: '#fff',
+        vAlign: 'top',
+        hAlign: 'left',
+      }],
+    }];
+    const { slides: replaced } = replaceInSlides(slides, { query: '42', useRegex: false, caseSensitive: false, wholeWord: false }, '57');
+    expect(replaced[0].overlays[0].newText).toBe('Sales 57% up');
+    expect(replaced[0].overlays[0].runs).toEqual([
+      { text: 'Sales ' },
+      { text: '57%', bold: true, color: '#ff0000' },
+      { text: ' up' },
+    ]);
+  });
+});
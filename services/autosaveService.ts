@@ -0,0 +1,227 @@
+import { CustomFont, Guide, SlideData, TextOverlay } from "../types";
+import { DeckHistory, HistoryEntry } from "../utils/history";
+import { dataUrlToBlob, readFileAsDataUrl } from "./imageUtils";
+
+const DB_NAME = "slide-ai-editor";
+const DB_VERSION = 1;
+const SUMMARY_STORE = "sessions";
+const SLIDES_STORE = "sessionSlides";
+const MAX_SESSIONS = 5;
+
+export interface AutosaveSessionSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  slideCount: number;
+}
+
+type StoredSlide = Omit<SlideData, "dataUrl" | "original"> & {
+  image: Blob;
+  original?: { image: Blob; overlays: TextOverlay[] }; // missing in sessions saved before originals were kept
+};
+
+// Undo steps keep their patches; slides shared between steps are stored once per record.
+type StoredHistoryEntry = Omit<HistoryEntry, "patch"> & {
+  patch: { start: number; removed: StoredSlide[]; inserted: StoredSlide[] };
+};
+
+interface StoredSlides {
+  id: string;
+  slides: StoredSlide[];
+  fonts?: CustomFont[]; // missing in sessions saved before fonts could be uploaded
+  guides?: Guide[]; // deck-wide guides; missing in sessions saved before rulers existed
+  past?: StoredHistoryEntry[]; // missing in sessions saved before undo history was kept
+  future?: StoredHistoryEntry[];
+}
+
+export interface AutosaveSessionData {
+  history: DeckHistory;
+  fonts: CustomFont[];
+  guides: Guide[];
+}
+
+// Base images are stored as Blobs; converting the same data URL on every save would be wasteful,
+// so conversions from the previous save are reused.
+let blobCache = new Map<string, Blob>();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error("IndexedDB request failed."));
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error || new Error("IndexedDB transaction failed."));
+    tx.onabort = () => reject(tx.error || new Error("IndexedDB transaction aborted."));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available in this browser."));
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+        db.createObjectStore(SUMMARY_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(SLIDES_STORE)) {
+        db.createObjectStore(SLIDES_STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error("Failed to open autosave database."));
+  }).catch((error) => {
+    dbPromise = null;
+    throw error;
+  });
+
+  return dbPromise;
+};
+
+const toBlob = (dataUrl: string, nextCache: Map<string, Blob>): Blob => {
+  const blob = blobCache.get(dataUrl) || dataUrlToBlob(dataUrl);
+  nextCache.set(dataUrl, blob);
+  return blob;
+};
+
+export const listAutosaveSessions = async (): Promise<AutosaveSessionSummary[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SUMMARY_STORE, "readonly");
+  const summaries = await requestToPromise(tx.objectStore(SUMMARY_STORE).getAll() as IDBRequest<AutosaveSessionSummary[]>);
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteAutosaveSession = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SUMMARY_STORE, SLIDES_STORE], "readwrite");
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  tx.objectStore(SLIDES_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const clearAutosaveSessions = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SUMMARY_STORE, SLIDES_STORE], "readwrite");
+  tx.objectStore(SUMMARY_STORE).clear();
+  tx.objectStore(SLIDES_STORE).clear();
+  await transactionDone(tx);
+};
+
+export const saveAutosaveSession = async (
+  id: string,
+  name: string,
+  history: DeckHistory,
+  fonts: CustomFont[] = [],
+  guides: Guide[] = []
+): Promise<void> => {
+  const nextCache = new Map<string, Blob>();
+  // The history shares slide objects between the deck and its patches; storing each one once keeps
+  // that sharing, since IndexedDB clones a record with its references intact.
+  const storedBySlide = new Map<SlideData, StoredSlide>();
+  const storeSlide = (slide: SlideData): StoredSlide => {
+    const existing = storedBySlide.get(slide);
+    if (existing) return existing;
+    const { dataUrl, original, ...rest } = slide;
+    const stored: StoredSlide = {
+      ...rest,
+      image: toBlob(dataUrl, nextCache),
+      original: original && { image: toBlob(original.dataUrl, nextCache), overlays: original.overlays },
+    };
+    storedBySlide.set(slide, stored);
+    return stored;
+  };
+  const storeEntry = ({ patch, ...entry }: HistoryEntry): StoredHistoryEntry => ({
+    ...entry,
+    patch: { start: patch.start, removed: patch.removed.map(storeSlide), inserted: patch.inserted.map(storeSlide) },
+  });
+
+  const record: StoredSlides = {
+    id,
+    slides: history.present.map(storeSlide),
+    fonts,
+    guides,
+    past: history.past.map(storeEntry),
+    future: history.future.map(storeEntry),
+  };
+  blobCache = nextCache;
+
+  const summary: AutosaveSessionSummary = {
+    id,
+    name,
+    updatedAt: Date.now(),
+    slideCount: history.present.length,
+  };
+
+  const db = await openDatabase();
+  const tx = db.transaction([SUMMARY_STORE, SLIDES_STORE], "readwrite");
+  tx.objectStore(SUMMARY_STORE).put(summary);
+  tx.objectStore(SLIDES_STORE).put(record);
+  await transactionDone(tx);
+
+  const sessions = await listAutosaveSessions();
+  for (const stale of sessions.slice(MAX_SESSIONS)) {
+    await deleteAutosaveSession(stale.id);
+  }
+};
+
+export const loadAutosaveSession = async (id: string): Promise<AutosaveSessionData> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SLIDES_STORE, "readonly");
+  const record = await requestToPromise(tx.objectStore(SLIDES_STORE).get(id) as IDBRequest<StoredSlides | undefined>);
+  if (!record) {
+    throw new Error("Autosave session not found.");
+  }
+
+  // The store keeps shared references, so each Blob is read once and each stored slide becomes one
+  // slide object again; an unedited slide gets its original's image and overlays back as well.
+  const dataUrls = new Map<Blob, string>();
+  const readImage = async (image: Blob): Promise<string> => {
+    const dataUrl = dataUrls.get(image) ?? (await readFileAsDataUrl(image));
+    dataUrls.set(image, dataUrl);
+    return dataUrl;
+  };
+  const restoredSlides = new Map<StoredSlide, SlideData>();
+  const restoreSlide = async (stored: StoredSlide): Promise<SlideData> => {
+    const existing = restoredSlides.get(stored);
+    if (existing) return existing;
+    const { image, original, ...rest } = stored;
+    const slide: SlideData = { ...rest, dataUrl: await readImage(image) };
+    if (original) {
+      slide.original = {
+        dataUrl: await readImage(original.image),
+        overlays: original.overlays === rest.overlays ? slide.overlays : original.overlays,
+      };
+    }
+    restoredSlides.set(stored, slide);
+    return slide;
+  };
+  const restoreSlides = async (stored: StoredSlide[]): Promise<SlideData[]> => {
+    const slides: SlideData[] = [];
+    for (const slide of stored) slides.push(await restoreSlide(slide));
+    return slides;
+  };
+  const restoreEntries = async (entries: StoredHistoryEntry[] = []): Promise<HistoryEntry[]> => {
+    const restored: HistoryEntry[] = [];
+    for (const { patch, ...entry } of entries) {
+      const removed = await restoreSlides(patch.removed);
+      const inserted = await restoreSlides(patch.inserted);
+      restored.push({ ...entry, patch: { start: patch.start, removed, inserted } });
+    }
+    return restored;
+  };
+
+  const history: DeckHistory = {
+    present: await restoreSlides(record.slides),
+    past: await restoreEntries(record.past),
+    future: await restoreEntries(record.future),
+  };
+  return { history, fonts: record.fonts || [], guides: record.guides || [] };
+};
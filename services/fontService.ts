@@ -0,0 +1,84 @@
+import { CustomFont, TextOverlay } from "../types";
+import { readFileAsDataUrl } from "./imageUtils";
+import { getOverlayTextSpans } from "../utils/richText";
+import { getOverlayFont } from "../utils/textLayout";
+
+const FONT_MIME_TYPES: Record<string, string> = {
+  ttf: "font/ttf",
+  otf: "font/otf",
+  woff: "font/woff",
+  woff2: "font/woff2",
+};
+
+export const FONT_FILE_ACCEPT = Object.keys(FONT_MIME_TYPES).map((ext) => `.${ext}`).join(",");
+
+// One load per family for the lifetime of the page; document.fonts keeps the face afterwards.
+const registeredFonts = new Map<string, Promise<void>>();
+
+export const registerCustomFont = (font: CustomFont): Promise<void> => {
+  const existing = registeredFonts.get(font.family);
+  if (existing) return existing;
+
+  const loading = new FontFace(font.family, `url(${font.dataUrl})`)
+    .load()
+    .then((face) => {
+      document.fonts.add(face);
+    })
+    .catch((error) => {
+      registeredFonts.delete(font.family);
+      throw error;
+    });
+  registeredFonts.set(font.family, loading);
+  return loading;
+};
+
+// Fonts that fail to load are reported and skipped; overlays using them fall back to sans-serif.
+export const registerCustomFonts = async (fonts: CustomFont[]): Promise<void> => {
+  const results = await Promise.allSettled(fonts.map(registerCustomFont));
+  results.forEach((result, index) => {
+    if (result.status === "rejected") console.error(`Failed to load font ${fonts[index].family}`, result.reason);
+  });
+};
+
+// The family is taken from the file name, kept to characters that are safe inside a CSS font string,
+// and suffixed when another font already uses it.
+const getFamilyName = (fileName: string, takenFamilies: string[]): string => {
+  const base = fileName.replace(/\.[^.]+$/, "").replace(/[^\p{L}\p{N} _-]+/gu, " ").trim() || "Custom Font";
+  let family = base;
+  for (let suffix = 2; takenFamilies.includes(family); suffix++) family = `${base} ${suffix}`;
+  return family;
+};
+
+export const readFontFile = async (file: File, takenFamilies: string[]): Promise<CustomFont> => {
+  const ext = file.name.split(".").pop()?.toLowerCase() || "";
+  const mimeType = FONT_MIME_TYPES[ext];
+  if (!mimeType) {
+    throw new Error(`Unsupported font file: ${file.name}`);
+  }
+
+  // Browsers rarely know a MIME type for font files, so the data URL is labelled from the extension.
+  const dataUrl = await readFileAsDataUrl(file);
+  const font: CustomFont = {
+    family: getFamilyName(file.name, takenFamilies),
+    fileName: file.name,
+    dataUrl: `data:${mimeType};base64,${dataUrl.split(",")[1] || ""}`,
+  };
+  await registerCustomFont(font);
+  return font;
+};
+
+// Canvas text drawn before a face has loaded silently uses the fallback, so renders wait for
+// every weight and style the overlays ask for.
+export const waitForOverlayFonts = async (overlays: TextOverlay[]): Promise<void> => {
+  if (typeof document === "undefined" || !document.fonts) return;
+  await Promise.allSettled(registeredFonts.values());
+
+  const fonts = new Set<string>();
+  overlays.forEach((overlay) => {
+    if (overlay.type === "image" || !overlay.newText) return;
+    getOverlayTextSpans(overlay).forEach((span) => {
+      fonts.add(getOverlayFont(span.fontWeight, span.fontSize, overlay.fontFamily, span.fontStyle));
+    });
+  });
+  await Promise.allSettled(Array.from(fonts, (font) => document.fonts.load(font)));
+};
@@ -1,10 +1,5 @@
 
-import { OCRResult } from "../types";
-type GeminiAction =
-  | "analyzeTextInImage"
-  | "generateTextSuggestion"
-  | "removeTextFromImage"
-  | "removeAllTextFromSlide";
+import { AiAction, DetectedTextBlock, OCRResult, TranslationLanguage } from "../types";
 
 const MAX_REQUEST_IMAGE_BYTES = 3_000_000;
 
@@ -62,13 +57,18 @@ const shrinkForRequestIfNeeded = async (dataUrl: string): Promise<string> => {
   return current;
 };
 
-const callGeminiApi = async <T>(action: GeminiAction, payload: Record<string, unknown>): Promise<T> => {
+const callGeminiApi = async <T>(
+  action: AiAction,
+  payload: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<T> => {
   const response = await fetch("/api/gemini", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
     body: JSON.stringify({ action, payload }),
+    signal,
   });
 
   let body: any = {};
@@ -79,7 +79,7 @@ const callGeminiApi = async <T>(action: GeminiAction, payload: Record<string, un
   }
 
   if (!response.ok) {
-    throw new Error(body?.error || `Gemini request failed (${response.status})`);
+    throw new Error(body?.error || `AI request failed (${response.status})`);
   }
 
   return body.data as T;
@@ -107,16 +107,29 @@ export const removeTextFromImage = async (base64Image: string): Promise<string |
   }
 };
 
-export const removeAllTextFromSlide = async (base64Image: string): Promise<string | null> => {
+export const removeAllTextFromSlide = async (base64Image: string, signal?: AbortSignal): Promise<string | null> => {
   try {
     const preparedImage = await shrinkForRequestIfNeeded(base64Image);
-    return await callGeminiApi<string | null>("removeAllTextFromSlide", { base64Image: preparedImage });
+    return await callGeminiApi<string | null>("removeAllTextFromSlide", { base64Image: preparedImage }, signal);
   } catch (error: any) {
     if (String(error?.message || "").includes("413")) {
       const emergencyImage = await compressDataUrl(base64Image, 0.65, 0.7);
-      return await callGeminiApi<string | null>("removeAllTextFromSlide", { base64Image: emergencyImage });
+      return await callGeminiApi<string | null>("removeAllTextFromSlide", { base64Image: emergencyImage }, signal);
     }
     console.error("Full Slide Text Removal failed:", error);
     throw error;
   }
 };
+
+export const detectTextBlocks = async (base64Image: string): Promise<DetectedTextBlock[]> => {
+  const preparedImage = await shrinkForRequestIfNeeded(base64Image);
+  return callGeminiApi<DetectedTextBlock[]>("detectTextBlocks", { base64Image: preparedImage });
+};
+
+export const translateTexts = async (
+  texts: string[],
+  targetLanguage: TranslationLanguage,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  return callGeminiApi<string[]>("translateTexts", { texts, targetLanguage }, signal);
+};
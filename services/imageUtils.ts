@@ -1,4 +1,4 @@
-export const readFileAsDataUrl = (file: File): Promise<string> => {
+export const readFileAsDataUrl = (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => resolve(String(reader.result || ""));
@@ -38,3 +38,17 @@ export const loadImage = (src: string, timeoutMs = 15000): Promise<HTMLImageElem
     img.src = src;
   });
 };
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, payload = ""] = dataUrl.split(",");
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || "application/octet-stream";
+  if (!header.includes(";base64")) {
+    return new Blob([decodeURIComponent(payload)], { type: mimeType });
+  }
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
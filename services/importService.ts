@@ -0,0 +1,46 @@
+import { SlideData } from "../types";
+import { convertPdfToImages, PdfImportOptions } from "./pdfService";
+import { convertPptxToSlides, isPptxFile } from "./pptxImportService";
+import { loadImage, readFileAsDataUrl } from "./imageUtils";
+
+export const IMPORT_ACCEPT = ".pdf,.pptx,image/*";
+
+export type ImportOptions = PdfImportOptions;
+
+export const isImportableFile = (file: File): boolean =>
+  file.type === "application/pdf" || isPptxFile(file) || file.type.startsWith("image/");
+
+export const convertFileToSlides = async (file: File, options: ImportOptions = {}): Promise<SlideData[]> => {
+  if (file.type === "application/pdf") {
+    return convertPdfToImages(file, options);
+  }
+  if (isPptxFile(file)) {
+    return convertPptxToSlides(file);
+  }
+  if (file.type.startsWith("image/")) {
+    const dataUrl = await readFileAsDataUrl(file);
+    const img = await loadImage(dataUrl);
+    return [{ index: 0, dataUrl, width: img.width, height: img.height, overlays: [] }];
+  }
+  throw new Error(`Unsupported file type: ${file.name}`);
+};
+
+export interface ImportFilesResult {
+  slides: SlideData[];
+  failed: string[];
+}
+
+// Converts files in the given order. A file that fails is reported instead of aborting the whole batch.
+export const convertFilesToSlides = async (files: File[], options: ImportOptions = {}): Promise<ImportFilesResult> => {
+  const slides: SlideData[] = [];
+  const failed: string[] = [];
+  for (const file of files) {
+    try {
+      slides.push(...(await convertFileToSlides(file, options)));
+    } catch (error) {
+      console.error(error);
+      failed.push(file.name);
+    }
+  }
+  return { slides, failed };
+};
@@ -0,0 +1,12 @@
+import { inpaintTelea } from "../utils/inpaint";
+import type { InpaintWorkerRequest, InpaintWorkerResponse } from "./inpaintService";
+
+self.onmessage = (event: MessageEvent<InpaintWorkerRequest>) => {
+  const { id, pixels, width, height, mask, radius } = event.data;
+  try {
+    const result = inpaintTelea(pixels, width, height, mask, radius);
+    self.postMessage({ id, pixels: result } satisfies InpaintWorkerResponse, { transfer: [result.buffer] });
+  } catch (error: any) {
+    self.postMessage({ id, error: error?.message || String(error) } satisfies InpaintWorkerResponse);
+  }
+};
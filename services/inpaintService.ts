@@ -0,0 +1,112 @@
+import { Rect } from "../types";
+import { DEFAULT_INPAINT_RADIUS, MaskRect, createRectMask, inpaintTelea } from "../utils/inpaint";
+import { loadImage } from "./imageUtils";
+
+// "gemini" sends the region to /api/gemini; "local" fills it in the browser and works offline.
+export type InpaintEngine = "gemini" | "local";
+
+export const INPAINT_ENGINE_LABELS: Record<InpaintEngine, string> = {
+  gemini: "AI (Gemini)",
+  local: "로컬 (오프라인)",
+};
+
+export interface InpaintWorkerRequest {
+  id: number;
+  pixels: Uint8ClampedArray;
+  width: number;
+  height: number;
+  mask: Uint8Array;
+  radius: number;
+}
+
+export type InpaintWorkerResponse = { id: number; pixels: Uint8ClampedArray } | { id: number; error: string };
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (pixels: Uint8ClampedArray) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+  if (worker) return worker;
+  if (typeof Worker === "undefined") return null;
+  try {
+    worker = new Worker(new URL("./inpaint.worker.ts", import.meta.url), { type: "module" });
+  } catch (error) {
+    console.warn("Inpaint worker unavailable, falling back to the main thread.", error);
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<InpaintWorkerResponse>) => {
+    const request = pending.get(event.data.id);
+    if (!request) return;
+    pending.delete(event.data.id);
+    if ("error" in event.data) request.reject(new Error(event.data.error));
+    else request.resolve(event.data.pixels);
+  };
+  worker.onerror = (event) => {
+    const error = new Error(event.message || "Inpaint worker failed.");
+    pending.forEach((request) => request.reject(error));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+export const inpaintPixels = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  mask: Uint8Array,
+  radius: number = DEFAULT_INPAINT_RADIUS
+): Promise<Uint8ClampedArray> => {
+  const target = getWorker();
+  if (!target) {
+    return Promise.resolve(inpaintTelea(pixels, width, height, mask, radius));
+  }
+
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    const request: InpaintWorkerRequest = { id, pixels, width, height, mask, radius };
+    target.postMessage(request, [pixels.buffer, mask.buffer]);
+  });
+};
+
+// Fills every pixel where `mask` is non-zero; the mask must match the image size.
+export const inpaintDataUrl = async (dataUrl: string, mask: Uint8Array): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas context unavailable.");
+  if (mask.length !== img.width * img.height) {
+    throw new Error("Inpaint mask does not match the image size.");
+  }
+
+  ctx.drawImage(img, 0, 0);
+  const imageData = ctx.getImageData(0, 0, img.width, img.height);
+  // The worker takes ownership of the buffers it receives, so hand it a copy of the pixels.
+  const result = await inpaintPixels(imageData.data.slice(), img.width, img.height, mask);
+  imageData.data.set(result);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL("image/png");
+};
+
+export const inpaintRects = async (dataUrl: string, rects: MaskRect[], padding: number = 0): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  return inpaintDataUrl(dataUrl, createRectMask(img.width, img.height, rects, padding));
+};
+
+// For a cropped text region: everything except a thin border is treated as text to remove,
+// and the border supplies the background to fill it with.
+export const inpaintCropInterior = async (cropDataUrl: string, border: number = 2): Promise<string> => {
+  const img = await loadImage(cropDataUrl);
+  const inner = {
+    x: border,
+    y: border,
+    width: Math.max(0, img.width - border * 2),
+    height: Math.max(0, img.height - border * 2),
+  };
+  return inpaintDataUrl(cropDataUrl, createRectMask(img.width, img.height, [inner]));
+};
@@ -1,13 +1,125 @@
 
-import { SlideData } from '../types';
+import { CustomFont, Rect, SlideData, TextOverlay } from '../types';
 import { jsPDF } from 'jspdf';
 import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFPageProxy, PageViewport } from 'pdfjs-dist';
 import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 import { renderSlideToCanvas } from './slideRenderService';
+import { detectBorderColor, detectForegroundColor } from '../utils/color';
+import { createOverlayId } from '../utils/id';
+import { MeasureTextWidth, createCanvasTextMeasurer } from '../utils/textLayout';
+import { getTextLayerLines, isLatin1Text, isTrueTypeFontDataUrl, orderTextLayerFonts } from '../utils/pdfTextLayer';
+import { PositionedTextItem, TextBlock, groupTextItems } from '../utils/textGrouping';
+import { getVisibleOverlays } from '../utils/layers';
+import { isBoldWeight } from '../utils/richText';
 
 pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
 
-export const convertPdfToImages = async (file: File): Promise<SlideData[]> => {
+export interface PdfImportOptions {
+  // Turn the PDF's own text layer into editable overlays instead of importing a flat image.
+  extractText?: boolean;
+}
+
+const PDF_RENDER_SCALE = 3.0;
+
+// Subset fonts are named like "ABCDEF+NotoSansKR-Bold"; keep the family part for the overlay.
+const cleanPdfFontName = (name: string): string => name.replace(/^[A-Z]{6}\+/, '').split(/[-,]/)[0];
+
+const isBoldPdfFontName = (name: string): boolean => /bold|black|heavy|semibold|demi/i.test(name);
+
+const getPdfFontName = (page: PDFPageProxy, fontId: string): string => {
+  try {
+    // Font objects are only resolved once the page has been rendered.
+    const font = page.commonObjs.get(fontId) as { name?: string } | undefined;
+    return font?.name || '';
+  } catch {
+    return '';
+  }
+};
+
+const extractTextItems = async (page: PDFPageProxy, viewport: PageViewport): Promise<PositionedTextItem[]> => {
+  const content = await page.getTextContent();
+  const items: PositionedTextItem[] = [];
+
+  for (const entry of content.items) {
+    if (!('str' in entry) || !entry.str.trim()) continue;
+    const tx = pdfjsLib.Util.transform(viewport.transform, entry.transform);
+    // Rotated and vertical runs can't be represented by an axis-aligned overlay.
+    if (Math.abs(tx[1]) > 1e-3 || Math.abs(tx[2]) > 1e-3) continue;
+
+    const fontHeight = Math.hypot(tx[2], tx[3]);
+    if (fontHeight <= 0) continue;
+    const style = content.styles[entry.fontName];
+    const ascent = style?.ascent || 0.8;
+    const fontName = getPdfFontName(page, entry.fontName);
+
+    items.push({
+      text: entry.str,
+      x: tx[4],
+      y: tx[5] - fontHeight * ascent,
+      width: entry.width * viewport.scale,
+      height: fontHeight,
+      fontName: fontName ? cleanPdfFontName(fontName) : style?.fontFamily,
+      bold: isBoldPdfFontName(fontName),
+    });
+  }
+
+  return items;
+};
+
+const readRegion = (ctx: CanvasRenderingContext2D, rect: Rect) =>
+  ctx.getImageData(Math.round(rect.x), Math.round(rect.y), Math.max(1, Math.round(rect.width)), Math.max(1, Math.round(rect.height)));
+
+const clampRect = (rect: Rect, width: number, height: number): Rect => {
+  const x = Math.max(0, rect.x);
+  const y = Math.max(0, rect.y);
+  return {
+    x,
+    y,
+    width: Math.min(width, rect.x + rect.width) - x,
+    height: Math.min(height, rect.y + rect.height) - y,
+  };
+};
+
+const blockToOverlay = (block: TextBlock, ctx: CanvasRenderingContext2D, pageWidth: number, pageHeight: number): TextOverlay => {
+  // Item boxes run from the ascender line down one em, so pad enough to also cover descenders.
+  const padding = Math.max(2, block.fontSize * 0.25);
+  const rect = clampRect(
+    {
+      x: block.rect.x - padding,
+      y: block.rect.y - padding,
+      width: block.rect.width + padding * 2,
+      height: block.rect.height + padding * 2,
+    },
+    pageWidth,
+    pageHeight
+  );
+
+  const outer = readRegion(ctx, rect);
+  const backgroundColor = detectBorderColor(outer.data, outer.width, outer.height, 2);
+  const inner = readRegion(ctx, clampRect(block.rect, pageWidth, pageHeight));
+  const fontColor = detectForegroundColor(inner.data, inner.width, inner.height, backgroundColor);
+
+  return {
+    id: createOverlayId(),
+    type: 'text',
+    rect,
+    originalText: block.text,
+    newText: block.text,
+    fontSize: Math.round(block.fontSize),
+    fontWeight: block.bold ? 'bold' : 'normal',
+    fontColor,
+    fontFamily: block.fontName || 'sans-serif',
+    backgroundColor,
+    vAlign: 'middle',
+    hAlign: block.hAlign,
+    rotation: 0,
+    flipHorizontal: false,
+    flipVertical: false,
+  };
+};
+
+export const convertPdfToImages = async (file: File, options: PdfImportOptions = {}): Promise<SlideData[]> => {
   const arrayBuffer = await file.arrayBuffer();
   const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
   const pdf = await loadingTask.promise;
@@ -16,44 +128,161 @@ export const convertPdfToImages = async (file: File): Promise<SlideData[]> => {
   for (let i = 1; i <= pdf.numPages; i++) {
     const page = await pdf.getPage(i);
     // Increased scale from 2.0 to 3.0 for higher resolution
-    const viewport = page.getViewport({ scale: 3.0 });
+    const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
     const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
+    const context = canvas.getContext('2d', { willReadFrequently: options.extractText });
     if (!context) {
       throw new Error('Failed to create canvas context for PDF rendering.');
     }
     canvas.height = viewport.height;
     canvas.width = viewport.width;
 
-    await page.render({ canvasContext: context, viewport }).promise;
-    
+    await page.render({ canvasContext: context, canvas, viewport }).promise;
+
+    let overlays: TextOverlay[] = [];
+    if (options.extractText) {
+      const blocks = groupTextItems(await extractTextItems(page, viewport));
+      overlays = blocks.map((block) => blockToOverlay(block, context, canvas.width, canvas.height));
+    }
+
     slides.push({
       index: i - 1,
       dataUrl: canvas.toDataURL('image/png'),
       width: viewport.width,
       height: viewport.height,
-      overlays: []
+      overlays
     });
   }
 
   return slides;
 };
 
-export const downloadAsPdf = async (slides: SlideData[], filename: string): Promise<void> => {
+export type PdfExportMode = 'image' | 'searchable';
+
+export interface PdfExportOptions {
+  mode?: PdfExportMode;
+  // Uploaded fonts; TrueType ones are embedded so text outside Latin-1 can go into the searchable layer.
+  fonts?: CustomFont[];
+}
+
+export interface PdfExportResult {
+  // Text overlays left out of the searchable layer because no available font could encode them.
+  unsearchableOverlayCount: number;
+}
+
+// Only the parts of jsPDF's parsed TrueType font that the glyph check needs.
+interface EmbeddedFontMetadata {
+  characterToGlyph: (charCode: number) => number;
+}
+
+const isEmbeddedFontMetadata = (value: unknown): value is EmbeddedFontMetadata =>
+  typeof value === 'object' && value !== null && 'characterToGlyph' in value && typeof value.characterToGlyph === 'function';
+
+// Selects the font and reports whether it has a glyph for every character. jsPDF writes
+// Identity-H text by UTF-16 code unit, and whitespace needs no glyph to be found.
+const fontCoversText = (doc: jsPDF, family: string, text: string): boolean => {
+  doc.setFont(family, 'normal');
+  const metadata: unknown = doc.getFont().metadata;
+  if (!isEmbeddedFontMetadata(metadata)) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) continue;
+    if (metadata.characterToGlyph(text.charCodeAt(i)) <= 0) return false;
+  }
+  return true;
+};
+
+// Embeds the uploaded TrueType fonts and returns the families jsPDF could parse.
+// jsPDF reports a font it cannot read on the console and leaves it without metadata.
+const embedTextLayerFonts = (doc: jsPDF, fonts: CustomFont[]): string[] => {
+  const families = fonts.filter((font) => isTrueTypeFontDataUrl(font.dataUrl)).map((font) => {
+    const fileName = `${font.family}.ttf`;
+    doc.addFileToVFS(fileName, font.dataUrl.slice(font.dataUrl.indexOf(',') + 1));
+    doc.addFont(fileName, font.family, 'normal', 'normal', 'Identity-H');
+    return font.family;
+  });
+  return families.filter((family) => {
+    doc.setFont(family, 'normal');
+    return isEmbeddedFontMetadata(doc.getFont().metadata);
+  });
+};
+
+// Writes each text overlay as invisible text (PDF rendering mode 3) on top of the page raster.
+// Latin-1 lines use the built-in Helvetica; other lines (Hangul, Kana, CJK) use the first embedded
+// font that has all of their glyphs, and are skipped when none does rather than written as garbage.
+// The return value counts the overlays that lost lines this way.
+const addInvisibleTextLayer = (
+  doc: jsPDF,
+  slide: SlideData,
+  measureCtx: CanvasRenderingContext2D | null,
+  embeddedFamilies: string[]
+): number => {
+  const scaleFactor = doc.internal.scaleFactor;
+  let unsearchableCount = 0;
+
+  getVisibleOverlays(slide.overlays).forEach((overlay: TextOverlay) => {
+    const builtInStyle = isBoldWeight(overlay.fontWeight) ? 'bold' : 'normal';
+    doc.setFont('helvetica', builtInStyle);
+
+    // Without a canvas, wrapping falls back to jsPDF's own metrics for the built-in font.
+    const measure: MeasureTextWidth = measureCtx
+      ? createCanvasTextMeasurer(measureCtx, overlay.fontWeight, overlay.fontFamily, overlay.fontStyle)
+      : (text, size) => doc.getStringUnitWidth(text) * size;
+    const lines = getTextLayerLines(overlay, measure);
+    const candidateFamilies = orderTextLayerFonts(embeddedFamilies, overlay.fontFamily);
+    let skippedLine = false;
+
+    lines.forEach((line) => {
+      if (isLatin1Text(line.text)) {
+        doc.setFont('helvetica', builtInStyle);
+      } else if (!candidateFamilies.some((family) => fontCoversText(doc, family, line.text))) {
+        skippedLine = true;
+        return;
+      }
+      // One invisible string per line at the line's largest size, stretched to the rendered width.
+      // setFontSize takes points; scaleFactor converts the page's user units (slide pixels) to points.
+      doc.setFontSize(line.fontSize * scaleFactor);
+      const pdfWidth = doc.getTextWidth(line.text);
+      doc.text(line.text, line.x, line.y, {
+        baseline: 'top',
+        renderingMode: 'invisible',
+        angle: line.angle || undefined,
+        horizontalScale: pdfWidth > 0 && line.width > 0 ? line.width / pdfWidth : undefined,
+      });
+    });
+    if (skippedLine) unsearchableCount += 1;
+  });
+  return unsearchableCount;
+};
+
+export const downloadAsPdf = async (
+  slides: SlideData[],
+  filename: string,
+  options: PdfExportOptions = {}
+): Promise<PdfExportResult> => {
   const doc = new jsPDF({
     orientation: slides[0].width > slides[0].height ? 'landscape' : 'portrait',
     unit: 'px',
     format: [slides[0].width, slides[0].height]
   });
+  const measureCtx = options.mode === 'searchable'
+    ? document.createElement('canvas').getContext('2d')
+    : null;
+  const embeddedFamilies = options.mode === 'searchable' ? embedTextLayerFonts(doc, options.fonts || []) : [];
+
+  let unsearchableOverlayCount = 0;
 
   const processSlide = async (slide: SlideData, idx: number) => {
     if (idx > 0) doc.addPage([slide.width, slide.height]);
     const canvas = await renderSlideToCanvas(slide);
     const finalDataUrl = canvas.toDataURL('image/jpeg', 0.95);
     doc.addImage(finalDataUrl, 'JPEG', 0, 0, slide.width, slide.height);
+    if (options.mode === 'searchable') {
+      unsearchableOverlayCount += addInvisibleTextLayer(doc, slide, measureCtx, embeddedFamilies);
+    }
   };
   for (let i = 0; i < slides.length; i++) {
     await processSlide(slides[i], i);
   }
   doc.save(filename);
+  return { unsearchableOverlayCount };
 };
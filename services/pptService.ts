@@ -1,10 +1,137 @@
 import PptxGenJS from "pptxgenjs";
-import { SlideData } from "../types";
+import { SlideData, TextOverlay } from "../types";
 import { renderSlideToCanvas } from "./slideRenderService";
+import { waitForOverlayFonts } from "./fontService";
+import { parseCssColor } from "../utils/color";
+import { getOverlayLayoutInput, layoutOverlayText } from "../utils/overlayRenderer";
+import { getOverlayTextSpans } from "../utils/richText";
+import { LINE_HEIGHT_RATIO, layoutText } from "../utils/textLayout";
+import { getVisibleOverlays } from "../utils/layers";
+import { PX_PER_INCH, buildPptxTextRuns, getPptxPositionProps, pxToPoints, toTextColorProps } from "../utils/pptxText";
 
-const PX_PER_INCH = 96;
+// Generic CSS families used by the editor need a concrete face in PowerPoint.
+const GENERIC_FONT_FACES: Record<string, string> = {
+  "sans-serif": "Arial",
+  serif: "Times New Roman",
+  monospace: "Courier New",
+};
+
+export type PptExportMode = "image" | "editable";
+
+export interface PptExportOptions {
+  mode?: PptExportMode;
+}
+
+const toFontFace = (fontFamily: string): string => {
+  const primary = fontFamily.split(",")[0].trim().replace(/^["']|["']$/g, "");
+  return GENERIC_FONT_FACES[primary] || primary || "Arial";
+};
+
+const addImageOverlay = (pptSlide: PptxGenJS.Slide, overlay: TextOverlay, scale: number) => {
+  if (!overlay.imageSrc) return;
+  pptSlide.addImage({
+    data: overlay.imageSrc,
+    ...getPptxPositionProps(overlay, scale),
+  });
+};
+
+// PowerPoint keeps shadows upright when a shape turns, while the canvas shadow turns and flips
+// with the overlay, so the direction is worked out in slide space here.
+const toShadowProps = (overlay: TextOverlay, scale: number): PptxGenJS.ShadowProps | undefined => {
+  const { shadow } = overlay;
+  const color = shadow ? parseCssColor(shadow.color) : null;
+  if (!shadow || !color || color.alpha === 0) return undefined;
+
+  const flippedX = overlay.flipHorizontal ? -shadow.offsetX : shadow.offsetX;
+  const flippedY = overlay.flipVertical ? -shadow.offsetY : shadow.offsetY;
+  const radians = ((overlay.rotation || 0) * Math.PI) / 180;
+  const dx = flippedX * Math.cos(radians) - flippedY * Math.sin(radians);
+  const dy = flippedX * Math.sin(radians) + flippedY * Math.cos(radians);
+  const angle = Math.round((Math.atan2(dy, dx) * 180) / Math.PI);
+
+  return {
+    type: "outer",
+    color: color.hex,
+    opacity: color.alpha,
+    blur: pxToPoints(shadow.blur * scale),
+    offset: pxToPoints(Math.hypot(dx, dy) * scale),
+    angle: (angle + 360) % 360,
+  };
+};
+
+const addTextOverlay = (
+  pptSlide: PptxGenJS.Slide,
+  overlay: TextOverlay,
+  scale: number,
+  measureCtx: CanvasRenderingContext2D | null
+) => {
+  if (!overlay.newText) return;
+  const spans = getOverlayTextSpans(overlay);
+  if (spans.every((span) => parseCssColor(span.color)?.alpha === 0)) return;
+
+  // Line breaks and shrinking come from the same layout as the canvas, so PowerPoint never re-wraps.
+  // Without a canvas to measure with, only the typed line breaks are kept.
+  const layout = measureCtx
+    ? layoutOverlayText(measureCtx, overlay)
+    : layoutText({ ...getOverlayLayoutInput(overlay), fitMode: "none" }, () => 0);
+
+  pptSlide.addText(buildPptxTextRuns(layout, overlay, scale), {
+    ...getPptxPositionProps(overlay, scale),
+    fontFace: toFontFace(overlay.fontFamily),
+    fontSize: pxToPoints(layout.fontSize * scale),
+    ...toTextColorProps(overlay.fontColor),
+    align: overlay.hAlign || "left",
+    valign: overlay.vAlign || "top",
+    charSpacing: layout.letterSpacing ? pxToPoints(layout.letterSpacing * scale) : undefined,
+    // PowerPoint's single spacing is already about 1.2 times the font size.
+    lineSpacingMultiple: overlay.lineHeight !== undefined ? overlay.lineHeight / LINE_HEIGHT_RATIO : undefined,
+    shadow: toShadowProps(overlay, scale),
+    // Lines are already broken and the canvas has no inset, so mirror that in the text box.
+    margin: 0,
+    wrap: false,
+    isTextBox: true,
+  });
+};
+
+const addEditableSlide = async (
+  pptx: PptxGenJS,
+  slide: SlideData,
+  layoutWidthPx: number,
+  measureCtx: CanvasRenderingContext2D | null
+) => {
+  const scale = slide.width > 0 ? layoutWidthPx / slide.width : 1;
+  const pptSlide = pptx.addSlide();
+  // Base image plus each overlay's cleaned background patch; glyphs and pictures become native objects.
+  const backgroundCanvas = await renderSlideToCanvas(slide, { skipText: true, skipImageOverlays: true });
+  pptSlide.background = { data: backgroundCanvas.toDataURL("image/png") };
+
+  // Line breaks are measured here, so the faces have to be ready even though no text is rasterised.
+  const overlays = getVisibleOverlays(slide.overlays);
+  if (measureCtx) await waitForOverlayFonts(overlays);
+  for (const overlay of overlays) {
+    if (overlay.type === "image") addImageOverlay(pptSlide, overlay, scale);
+    else addTextOverlay(pptSlide, overlay, scale, measureCtx);
+  }
+};
+
+const addFlattenedSlide = async (pptx: PptxGenJS, slide: SlideData, widthIn: number, heightIn: number) => {
+  const pptSlide = pptx.addSlide();
+  const canvas = await renderSlideToCanvas(slide);
+  const imageDataUrl = canvas.toDataURL("image/png");
+  pptSlide.addImage({
+    data: imageDataUrl,
+    x: 0,
+    y: 0,
+    w: widthIn,
+    h: heightIn,
+  });
+};
 
-export const downloadAsPpt = async (slides: SlideData[], filename: string): Promise<void> => {
+export const downloadAsPpt = async (
+  slides: SlideData[],
+  filename: string,
+  options: PptExportOptions = {}
+): Promise<void> => {
   if (slides.length === 0) return;
 
   const pptx = new PptxGenJS();
@@ -17,18 +144,14 @@ export const downloadAsPpt = async (slides: SlideData[], filename: string): Prom
     height: baseHeightIn,
   });
   pptx.layout = "CUSTOM";
+  const measureCtx = options.mode === "editable" ? document.createElement("canvas").getContext("2d") : null;
 
   for (const slide of slides) {
-    const pptSlide = pptx.addSlide();
-    const canvas = await renderSlideToCanvas(slide);
-    const imageDataUrl = canvas.toDataURL("image/png");
-    pptSlide.addImage({
-      data: imageDataUrl,
-      x: 0,
-      y: 0,
-      w: baseWidthIn,
-      h: baseHeightIn,
-    });
+    if (options.mode === "editable") {
+      await addEditableSlide(pptx, slide, slides[0].width, measureCtx);
+    } else {
+      await addFlattenedSlide(pptx, slide, baseWidthIn, baseHeightIn);
+    }
   }
 
   await pptx.writeFile({ fileName: filename });
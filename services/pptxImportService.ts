@@ -0,0 +1,768 @@
+import JSZip from "jszip";
+import { HorizontalAlign, SlideData, TextOverlay, TextRun, TextRunStyle, VerticalAlign } from "../types";
+import { createOverlayId } from "../utils/id";
+import { compactRuns, sliceRuns } from "../utils/richText";
+import { loadImage } from "./imageUtils";
+
+const EMU_PER_PX = 9525; // 914400 EMU per inch / 96 px per inch
+const PX_PER_PT = 96 / 72;
+// Render at 2x so the background stays sharp, like the 3x PDF import.
+const RENDER_SCALE = 2;
+const DEFAULT_FONT_SIZE_PT = 18;
+const TRANSPARENT = "rgba(0,0,0,0)";
+
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+export const PPTX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+
+export const isPptxFile = (file: File): boolean =>
+  file.type === PPTX_MIME_TYPE || file.name.toLowerCase().endsWith(".pptx");
+
+interface XmlPart {
+  path: string;
+  root: Element;
+  rels: Map<string, string>; // relationship id -> absolute part path
+}
+
+interface ThemeInfo {
+  colors: Record<string, string>;
+  majorLatin?: string;
+  minorLatin?: string;
+  majorEastAsian?: string;
+  minorEastAsian?: string;
+}
+
+interface Frame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  flipH: boolean;
+  flipV: boolean;
+}
+
+// Maps child coordinates of a group shape into slide coordinates (all in EMU).
+interface GroupTransform {
+  offX: number;
+  offY: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+type PptxDrawable =
+  | { kind: "fill"; frame: Frame; color: string; ellipse: boolean }
+  | { kind: "picture"; frame: Frame; mediaPath: string };
+
+export interface ParsedPptxSlide {
+  backgroundColor: string;
+  backgroundMediaPath?: string;
+  drawables: PptxDrawable[];
+  texts: Array<Omit<TextOverlay, "id">>;
+}
+
+export interface ParsedPptx {
+  width: number;
+  height: number;
+  slides: ParsedPptxSlide[];
+}
+
+interface SlideContext {
+  slide: XmlPart;
+  layout?: XmlPart;
+  master?: XmlPart;
+  theme: ThemeInfo;
+  colorMap: Record<string, string>;
+}
+
+// --- XML helpers -----------------------------------------------------------
+
+const elementChildren = (el: Element | undefined | null, localName?: string): Element[] => {
+  if (!el) return [];
+  const result: Element[] = [];
+  for (let node = el.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType === 1 && (!localName || (node as Element).localName === localName)) {
+      result.push(node as Element);
+    }
+  }
+  return result;
+};
+
+const child = (el: Element | undefined | null, ...path: string[]): Element | undefined => {
+  let current: Element | undefined = el || undefined;
+  for (const name of path) {
+    current = elementChildren(current, name)[0];
+    if (!current) return undefined;
+  }
+  return current;
+};
+
+const descendants = (el: Element | undefined | null, localName: string): Element[] =>
+  el ? Array.from(el.getElementsByTagNameNS("*", localName)) : [];
+
+const attr = (el: Element | undefined | null, name: string): string | undefined => {
+  const value = el?.getAttribute(name);
+  return value === null || value === undefined ? undefined : value;
+};
+
+const numAttr = (el: Element | undefined | null, name: string, fallback = 0): number => {
+  const value = Number(attr(el, name));
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const boolAttr = (el: Element | undefined | null, name: string): boolean | undefined => {
+  const value = attr(el, name);
+  if (value === undefined) return undefined;
+  return value === "1" || value === "true";
+};
+
+const parseXml = (source: string): Element => {
+  const doc = new DOMParser().parseFromString(source, "application/xml");
+  const root = doc.documentElement;
+  if (!root || root.localName === "parsererror") {
+    throw new Error("Invalid PPTX: malformed XML part.");
+  }
+  return root;
+};
+
+export const resolvePartPath = (basePartPath: string, target: string): string => {
+  if (target.startsWith("/")) return target.slice(1);
+  const segments = basePartPath.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") segments.pop();
+    else if (segment !== ".") segments.push(segment);
+  }
+  return segments.join("/");
+};
+
+const getRelsPath = (partPath: string): string => {
+  const segments = partPath.split("/");
+  const fileName = segments.pop();
+  return [...segments, "_rels", `${fileName}.rels`].join("/");
+};
+
+const readPart = async (zip: JSZip, path: string): Promise<XmlPart | undefined> => {
+  const entry = zip.file(path);
+  if (!entry) return undefined;
+  const root = parseXml(await entry.async("string"));
+
+  const rels = new Map<string, string>();
+  const relsEntry = zip.file(getRelsPath(path));
+  if (relsEntry) {
+    const relsRoot = parseXml(await relsEntry.async("string"));
+    elementChildren(relsRoot, "Relationship").forEach((rel) => {
+      const id = attr(rel, "Id");
+      const target = attr(rel, "Target");
+      if (id && target && attr(rel, "TargetMode") !== "External") {
+        rels.set(id, resolvePartPath(path, target));
+      }
+    });
+  }
+
+  return { path, root, rels };
+};
+
+const findRelTarget = (part: XmlPart, typeSuffix: string, zip: JSZip): string | undefined => {
+  // Relationship types are not kept in `rels`, so match on the conventional part folder instead.
+  for (const target of part.rels.values()) {
+    if (target.includes(`/${typeSuffix}`) && zip.file(target)) return target;
+  }
+  return undefined;
+};
+
+// --- Theme & colors --------------------------------------------------------
+
+const DEFAULT_COLOR_MAP: Record<string, string> = {
+  bg1: "lt1",
+  tx1: "dk1",
+  bg2: "lt2",
+  tx2: "dk2",
+};
+
+const PRESET_COLORS: Record<string, string> = {
+  black: "000000",
+  white: "FFFFFF",
+  red: "FF0000",
+  green: "008000",
+  blue: "0000FF",
+  yellow: "FFFF00",
+  gray: "808080",
+};
+
+const parseTheme = (root: Element | undefined): ThemeInfo => {
+  const theme: ThemeInfo = { colors: {} };
+  if (!root) return theme;
+
+  const scheme = descendants(root, "clrScheme")[0];
+  elementChildren(scheme).forEach((entry) => {
+    const srgb = child(entry, "srgbClr");
+    const sys = child(entry, "sysClr");
+    const value = attr(srgb, "val") || attr(sys, "lastClr");
+    if (value) theme.colors[entry.localName] = value.toUpperCase();
+  });
+
+  const fontScheme = descendants(root, "fontScheme")[0];
+  theme.majorLatin = attr(child(fontScheme, "majorFont", "latin"), "typeface");
+  theme.minorLatin = attr(child(fontScheme, "minorFont", "latin"), "typeface");
+  theme.majorEastAsian = attr(child(fontScheme, "majorFont", "ea"), "typeface") || undefined;
+  theme.minorEastAsian = attr(child(fontScheme, "minorFont", "ea"), "typeface") || undefined;
+  return theme;
+};
+
+const parseColorMap = (master: XmlPart | undefined): Record<string, string> => {
+  const clrMap = child(master?.root, "clrMap");
+  if (!clrMap) return DEFAULT_COLOR_MAP;
+  const map: Record<string, string> = {};
+  for (let i = 0; i < clrMap.attributes.length; i++) {
+    const attribute = clrMap.attributes[i];
+    map[attribute.localName] = attribute.value;
+  }
+  return { ...DEFAULT_COLOR_MAP, ...map };
+};
+
+const applyAlpha = (hex: string, colorEl: Element): string => {
+  const alpha = child(colorEl, "alpha");
+  if (!alpha) return `#${hex}`;
+  const value = numAttr(alpha, "val", 100000) / 100000;
+  const r = parseInt(hex.slice(0, 2), 16);
+  const g = parseInt(hex.slice(2, 4), 16);
+  const b = parseInt(hex.slice(4, 6), 16);
+  return `rgba(${r},${g},${b},${value})`;
+};
+
+// Reads the color of an element that carries one of the DrawingML color choices.
+const readColor = (colorParent: Element | undefined, ctx: SlideContext): string | undefined => {
+  if (!colorParent) return undefined;
+  for (const colorEl of elementChildren(colorParent)) {
+    let hex: string | undefined;
+    if (colorEl.localName === "srgbClr") hex = attr(colorEl, "val");
+    else if (colorEl.localName === "sysClr") hex = attr(colorEl, "lastClr");
+    else if (colorEl.localName === "prstClr") hex = PRESET_COLORS[attr(colorEl, "val") || ""];
+    else if (colorEl.localName === "schemeClr") {
+      const key = attr(colorEl, "val") || "";
+      hex = ctx.theme.colors[ctx.colorMap[key] || key];
+    }
+    if (hex) return applyAlpha(hex.toUpperCase(), colorEl);
+  }
+  return undefined;
+};
+
+// `undefined` means "not specified here"; TRANSPARENT means an explicit noFill.
+const readFill = (propsEl: Element | undefined, ctx: SlideContext): string | undefined => {
+  if (!propsEl) return undefined;
+  if (child(propsEl, "noFill")) return TRANSPARENT;
+  return readColor(child(propsEl, "solidFill"), ctx);
+};
+
+// --- Geometry --------------------------------------------------------------
+
+const IDENTITY: GroupTransform = { offX: 0, offY: 0, scaleX: 1, scaleY: 1 };
+
+const readXfrm = (propsEl: Element | undefined): Element | undefined => child(propsEl, "xfrm");
+
+const frameFromXfrm = (xfrm: Element, transform: GroupTransform): Frame | undefined => {
+  const off = child(xfrm, "off");
+  const ext = child(xfrm, "ext");
+  if (!off || !ext) return undefined;
+
+  const x = transform.offX + numAttr(off, "x") * transform.scaleX;
+  const y = transform.offY + numAttr(off, "y") * transform.scaleY;
+  return {
+    x: (x / EMU_PER_PX) * RENDER_SCALE,
+    y: (y / EMU_PER_PX) * RENDER_SCALE,
+    width: ((numAttr(ext, "cx") * transform.scaleX) / EMU_PER_PX) * RENDER_SCALE,
+    height: ((numAttr(ext, "cy") * transform.scaleY) / EMU_PER_PX) * RENDER_SCALE,
+    rotation: numAttr(xfrm, "rot") / 60000,
+    flipH: boolAttr(xfrm, "flipH") || false,
+    flipV: boolAttr(xfrm, "flipV") || false,
+  };
+};
+
+const composeGroupTransform = (groupEl: Element, parent: GroupTransform): GroupTransform => {
+  const xfrm = readXfrm(child(groupEl, "grpSpPr"));
+  const off = child(xfrm, "off");
+  const ext = child(xfrm, "ext");
+  const chOff = child(xfrm, "chOff");
+  const chExt = child(xfrm, "chExt");
+  if (!off || !ext || !chOff || !chExt) return parent;
+
+  const scaleX = numAttr(chExt, "cx") ? numAttr(ext, "cx") / numAttr(chExt, "cx") : 1;
+  const scaleY = numAttr(chExt, "cy") ? numAttr(ext, "cy") / numAttr(chExt, "cy") : 1;
+  // child point p maps to off + (p - chOff) * scale, then through the parent transform
+  const localOffX = numAttr(off, "x") - numAttr(chOff, "x") * scaleX;
+  const localOffY = numAttr(off, "y") - numAttr(chOff, "y") * scaleY;
+  return {
+    offX: parent.offX + localOffX * parent.scaleX,
+    offY: parent.offY + localOffY * parent.scaleY,
+    scaleX: parent.scaleX * scaleX,
+    scaleY: parent.scaleY * scaleY,
+  };
+};
+
+// --- Placeholders & inherited text styles ----------------------------------
+
+interface PlaceholderKey {
+  type: string;
+  idx?: string;
+}
+
+const getPlaceholder = (shapeEl: Element): PlaceholderKey | undefined => {
+  const nvPr = child(shapeEl, "nvSpPr", "nvPr") || child(shapeEl, "nvPicPr", "nvPr");
+  const ph = child(nvPr, "ph");
+  if (!ph) return undefined;
+  return { type: attr(ph, "type") || "body", idx: attr(ph, "idx") };
+};
+
+const isTitleType = (type: string) => type === "title" || type === "ctrTitle";
+
+const findPlaceholderShape = (part: XmlPart | undefined, key: PlaceholderKey, matchIdx: boolean): Element | undefined => {
+  if (!part) return undefined;
+  const placeholders = descendants(part.root, "sp")
+    .map((shape) => ({ shape, key: getPlaceholder(shape) }))
+    .filter((entry): entry is { shape: Element; key: PlaceholderKey } => !!entry.key);
+
+  if (matchIdx && key.idx !== undefined) {
+    const byIdx = placeholders.find((entry) => entry.key.idx === key.idx);
+    if (byIdx) return byIdx.shape;
+  }
+  if (isTitleType(key.type)) {
+    return placeholders.find((entry) => isTitleType(entry.key.type))?.shape;
+  }
+  // Content placeholders (obj, subTitle, ...) inherit from the body placeholder when no exact type exists.
+  return (placeholders.find((entry) => entry.key.type === key.type)
+    || placeholders.find((entry) => entry.key.type === "body"))?.shape;
+};
+
+const getMasterTextStyle = (ctx: SlideContext, key: PlaceholderKey | undefined): Element | undefined => {
+  const txStyles = child(ctx.master?.root, "txStyles");
+  if (!key) return child(txStyles, "otherStyle");
+  return isTitleType(key.type) ? child(txStyles, "titleStyle") : child(txStyles, "bodyStyle");
+};
+
+interface InheritedShape {
+  xfrm?: Element;
+  bodyPr: Element[];
+  levelSources: Element[]; // list-style containers (lstStyle / txStyles), nearest first
+}
+
+const collectInheritance = (shapeEl: Element, ctx: SlideContext): InheritedShape => {
+  const key = getPlaceholder(shapeEl);
+  const layoutShape = key ? findPlaceholderShape(ctx.layout, key, true) : undefined;
+  const masterShape = key ? findPlaceholderShape(ctx.master, key, false) : undefined;
+  const chain = [shapeEl, layoutShape, masterShape].filter((el): el is Element => !!el);
+
+  const xfrm = chain.map((el) => readXfrm(child(el, "spPr"))).find((el) => el && child(el, "off"));
+  const bodyPr = chain.map((el) => child(el, "txBody", "bodyPr")).filter((el): el is Element => !!el);
+  const levelSources = chain
+    .map((el) => child(el, "txBody", "lstStyle"))
+    .concat(getMasterTextStyle(ctx, key))
+    .filter((el): el is Element => !!el);
+
+  return { xfrm, bodyPr, levelSources };
+};
+
+const firstDefined = <T>(values: Array<T | undefined>): T | undefined => values.find((value) => value !== undefined);
+
+const resolveTypeface = (typeface: string | undefined, ctx: SlideContext): string | undefined => {
+  if (!typeface) return undefined;
+  switch (typeface) {
+    case "+mj-lt": return ctx.theme.majorLatin;
+    case "+mn-lt": return ctx.theme.minorLatin;
+    case "+mj-ea": return ctx.theme.majorEastAsian;
+    case "+mn-ea": return ctx.theme.minorEastAsian;
+    default: return typeface;
+  }
+};
+
+const CJK_PATTERN = /[\u1100-\u11FF\u3040-\u30FF\u3130-\u318F\u4E00-\u9FFF\uAC00-\uD7AF]/;
+
+// --- Text extraction -------------------------------------------------------
+
+const ALIGN_MAP: Record<string, HorizontalAlign> = { l: "left", ctr: "center", r: "right", just: "left", dist: "center" };
+const ANCHOR_MAP: Record<string, VerticalAlign> = { t: "top", ctr: "middle", b: "bottom" };
+
+interface RunStyle {
+  fontSize: number; // px at the render scale
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  color: string;
+}
+
+// Run properties that apply to a paragraph, nearest first: its own defaults, then its list level
+// from the shape, layout and master. A run's own rPr goes in front of these.
+const getParagraphSources = (paragraph: Element | undefined, inherited: InheritedShape) => {
+  const level = numAttr(child(paragraph, "pPr"), "lvl");
+  const levelProps = inherited.levelSources.map((source) => child(source, `lvl${level + 1}pPr`));
+  return {
+    paragraph: [child(paragraph, "pPr"), ...levelProps],
+    run: [
+      child(paragraph, "pPr", "defRPr"),
+      child(paragraph, "endParaRPr"),
+      ...levelProps.map((props) => child(props, "defRPr")),
+    ],
+  };
+};
+
+const readRunStyle = (runSources: Array<Element | undefined>, shapeEl: Element, ctx: SlideContext): RunStyle => {
+  const sizeHundredths = firstDefined(runSources.map((el) => attr(el, "sz")));
+  const fontSizePt = sizeHundredths ? Number(sizeHundredths) / 100 : DEFAULT_FONT_SIZE_PT;
+  const underline = firstDefined(runSources.map((el) => attr(el, "u")));
+  return {
+    fontSize: Math.round(fontSizePt * PX_PER_PT * RENDER_SCALE * 10) / 10,
+    bold: firstDefined(runSources.map((el) => boolAttr(el, "b"))) || false,
+    italic: firstDefined(runSources.map((el) => boolAttr(el, "i"))) || false,
+    underline: !!underline && underline !== "none",
+    color: firstDefined(runSources.map((el) => readColor(child(el, "solidFill"), ctx)))
+      || readColor(child(shapeEl, "style", "fontRef"), ctx)
+      || `#${ctx.theme.colors[ctx.colorMap.tx1 || "dk1"] || "000000"}`,
+  };
+};
+
+// Only what differs from the overlay's own style becomes a run override.
+const toRunOverrides = (style: RunStyle, base: RunStyle): TextRunStyle => ({
+  bold: style.bold !== base.bold ? style.bold : undefined,
+  italic: style.italic !== base.italic ? style.italic : undefined,
+  underline: style.underline || undefined,
+  color: style.color !== base.color ? style.color : undefined,
+  fontSize: style.fontSize !== base.fontSize ? style.fontSize : undefined,
+});
+
+const readRunText = (node: Element): string | undefined => {
+  if (node.localName === "r" || node.localName === "fld") return child(node, "t")?.textContent || "";
+  if (node.localName === "br") return "\n";
+  return undefined;
+};
+
+const readParagraphText = (paragraph: Element): string =>
+  elementChildren(paragraph).map((node) => readRunText(node) || "").join("");
+
+// The overlay takes its font, size and colour from the first run with visible text; every run
+// that differs from it keeps its own bold, italic, underline, colour and size as a styled run.
+// Font face, spacing and alignment apply to the whole box, so later paragraphs follow the first.
+const extractText = (
+  shapeEl: Element,
+  frame: Frame,
+  inherited: InheritedShape,
+  ctx: SlideContext
+): Omit<TextOverlay, "id"> | undefined => {
+  const txBody = child(shapeEl, "txBody");
+  const paragraphs = elementChildren(txBody, "p");
+  const text = paragraphs.map(readParagraphText).join("\n").replace(/\s+$/, "");
+  if (!text.trim()) return undefined;
+
+  const firstParagraph = paragraphs.find((p) => readParagraphText(p).trim()) || paragraphs[0];
+  const firstRun = elementChildren(firstParagraph, "r").find((run) => child(run, "t")?.textContent?.trim());
+  const firstSources = getParagraphSources(firstParagraph, inherited);
+  const runSources = [child(firstRun, "rPr"), ...firstSources.run];
+  const base = readRunStyle(runSources, shapeEl, ctx);
+
+  const styledRuns: TextRun[] = paragraphs.flatMap((paragraph, paragraphIndex) => {
+    const sources = getParagraphSources(paragraph, inherited).run;
+    const runs = elementChildren(paragraph).flatMap((node): TextRun[] => {
+      const runText = readRunText(node);
+      if (runText === undefined) return [];
+      if (node.localName === "br") return [{ text: runText }];
+      return [{ text: runText, ...toRunOverrides(readRunStyle([child(node, "rPr"), ...sources], shapeEl, ctx), base) }];
+    });
+    return paragraphIndex > 0 ? [{ text: "\n" }, ...runs] : runs;
+  });
+
+  const spacing = firstDefined(runSources.map((el) => attr(el, "spc")));
+  const useEastAsian = CJK_PATTERN.test(text);
+  const latin = firstDefined(runSources.map((el) => attr(child(el, "latin"), "typeface")));
+  const eastAsian = firstDefined(runSources.map((el) => attr(child(el, "ea"), "typeface")));
+  const placeholder = getPlaceholder(shapeEl);
+  const fallbackFace = placeholder && isTitleType(placeholder.type)
+    ? (useEastAsian && ctx.theme.majorEastAsian) || ctx.theme.majorLatin
+    : (useEastAsian && ctx.theme.minorEastAsian) || ctx.theme.minorLatin;
+  const fontFamily = resolveTypeface(useEastAsian && eastAsian ? eastAsian : latin, ctx) || fallbackFace || "Arial";
+
+  const align = firstDefined(firstSources.paragraph.map((el) => attr(el, "algn")));
+  const anchor = firstDefined(inherited.bodyPr.map((el) => attr(el, "anchor")));
+
+  // Default insets are 0.1" left/right and 0.05" top/bottom; an explicit 0 removes the inset.
+  const inset = (name: string, fallback: number) => {
+    const value = firstDefined(inherited.bodyPr.map((el) => attr(el, name)));
+    const emu = value === undefined ? fallback : Number(value);
+    return ((Number.isFinite(emu) ? emu : fallback) / EMU_PER_PX) * RENDER_SCALE;
+  };
+  const left = inset("lIns", 91440);
+  const right = inset("rIns", 91440);
+  const top = inset("tIns", 45720);
+  const bottom = inset("bIns", 45720);
+
+  return {
+    type: "text",
+    rect: {
+      x: frame.x + left,
+      y: frame.y + top,
+      width: Math.max(1, frame.width - left - right),
+      height: Math.max(1, frame.height - top - bottom),
+    },
+    originalText: text,
+    newText: text,
+    fontSize: base.fontSize,
+    fontWeight: base.bold ? "bold" : "normal",
+    fontStyle: base.italic ? "italic" : undefined,
+    fontColor: base.color,
+    fontFamily,
+    // The background is rendered without text, so imported text boxes need no cover patch.
+    backgroundColor: TRANSPARENT,
+    vAlign: ANCHOR_MAP[anchor || "t"] || "top",
+    hAlign: ALIGN_MAP[align || "l"] || "left",
+    letterSpacing: spacing ? (Number(spacing) / 100) * PX_PER_PT * RENDER_SCALE : 0,
+    rotation: frame.rotation,
+    flipHorizontal: frame.flipH,
+    flipVertical: frame.flipV,
+    runs: compactRuns(sliceRuns(styledRuns, 0, text.length)),
+  };
+};
+
+// --- Shape tree walking ----------------------------------------------------
+
+interface WalkResult {
+  drawables: PptxDrawable[];
+  texts: Array<Omit<TextOverlay, "id">>;
+}
+
+const walkShapeTree = (
+  container: Element | undefined,
+  part: XmlPart,
+  ctx: SlideContext,
+  transform: GroupTransform,
+  options: { includeText: boolean; skipPlaceholders: boolean },
+  result: WalkResult
+) => {
+  elementChildren(container).forEach((el) => {
+    if (el.localName === "grpSp") {
+      walkShapeTree(el, part, ctx, composeGroupTransform(el, transform), options, result);
+      return;
+    }
+
+    const isPlaceholder = !!getPlaceholder(el);
+    if (options.skipPlaceholders && isPlaceholder) return;
+
+    if (el.localName === "pic") {
+      const xfrm = readXfrm(child(el, "spPr"));
+      const frame = xfrm ? frameFromXfrm(xfrm, transform) : undefined;
+      const embed = child(el, "blipFill", "blip")?.getAttributeNS(REL_NS, "embed");
+      const mediaPath = embed ? part.rels.get(embed) : undefined;
+      if (frame && mediaPath) result.drawables.push({ kind: "picture", frame, mediaPath });
+      return;
+    }
+
+    if (el.localName !== "sp") return;
+
+    const inherited = collectInheritance(el, ctx);
+    const frame = inherited.xfrm ? frameFromXfrm(inherited.xfrm, transform) : undefined;
+    if (!frame) return;
+
+    const spPr = child(el, "spPr");
+    const fillRef = child(el, "style", "fillRef");
+    const styleFill = attr(fillRef, "idx") === "0" ? undefined : readColor(fillRef, ctx);
+    const fill = readFill(spPr, ctx) ?? styleFill;
+    if (fill && fill !== TRANSPARENT) {
+      const geometry = attr(child(spPr, "prstGeom"), "prst");
+      result.drawables.push({ kind: "fill", frame, color: fill, ellipse: geometry === "ellipse" });
+    }
+
+    if (options.includeText) {
+      const text = extractText(el, frame, inherited, ctx);
+      if (text) result.texts.push(text);
+    }
+  });
+};
+
+const readBackground = (part: XmlPart | undefined, ctx: SlideContext): { color?: string; mediaPath?: string } | undefined => {
+  const bg = child(part?.root, "cSld", "bg");
+  if (!bg || !part) return undefined;
+
+  const bgPr = child(bg, "bgPr");
+  if (bgPr) {
+    const embed = child(bgPr, "blipFill", "blip")?.getAttributeNS(REL_NS, "embed");
+    if (embed && part.rels.get(embed)) return { mediaPath: part.rels.get(embed) };
+    const color = readFill(bgPr, ctx);
+    if (color) return { color };
+    // Gradient backgrounds: approximate with their first stop.
+    const firstStop = descendants(child(bgPr, "gradFill"), "gs")[0];
+    const gradientColor = readColor(firstStop, ctx);
+    if (gradientColor) return { color: gradientColor };
+  }
+
+  const bgRef = child(bg, "bgRef");
+  const refColor = readColor(bgRef, ctx);
+  return refColor ? { color: refColor } : undefined;
+};
+
+const parseSlide = async (zip: JSZip, slidePath: string, themeCache: Map<string, ThemeInfo>): Promise<ParsedPptxSlide | undefined> => {
+  const slide = await readPart(zip, slidePath);
+  if (!slide) return undefined;
+
+  const layoutPath = findRelTarget(slide, "slideLayouts/", zip);
+  const layout = layoutPath ? await readPart(zip, layoutPath) : undefined;
+  const masterPath = layout ? findRelTarget(layout, "slideMasters/", zip) : undefined;
+  const master = masterPath ? await readPart(zip, masterPath) : undefined;
+
+  const themePath = master ? findRelTarget(master, "theme/", zip) : undefined;
+  let theme = themePath ? themeCache.get(themePath) : undefined;
+  if (!theme) {
+    theme = parseTheme(themePath ? (await readPart(zip, themePath))?.root : undefined);
+    if (themePath) themeCache.set(themePath, theme);
+  }
+
+  const ctx: SlideContext = { slide, layout, master, theme, colorMap: parseColorMap(master) };
+  const result: WalkResult = { drawables: [], texts: [] };
+
+  // Master and layout decorations (logos, bars) belong to the background; their placeholders do not.
+  const showMasterShapes = boolAttr(slide.root, "showMasterSp") !== false;
+  if (showMasterShapes && master && boolAttr(layout?.root, "showMasterSp") !== false) {
+    walkShapeTree(child(master.root, "cSld", "spTree"), master, ctx, IDENTITY, { includeText: false, skipPlaceholders: true }, result);
+  }
+  if (showMasterShapes && layout) {
+    walkShapeTree(child(layout.root, "cSld", "spTree"), layout, ctx, IDENTITY, { includeText: false, skipPlaceholders: true }, result);
+  }
+  walkShapeTree(child(slide.root, "cSld", "spTree"), slide, ctx, IDENTITY, { includeText: true, skipPlaceholders: false }, result);
+
+  const background = readBackground(slide, ctx) || readBackground(layout, ctx) || readBackground(master, ctx);
+  return {
+    backgroundColor: background?.color || "#FFFFFF",
+    backgroundMediaPath: background?.mediaPath,
+    drawables: result.drawables,
+    texts: result.texts,
+  };
+};
+
+export const parsePptx = async (zip: JSZip): Promise<ParsedPptx> => {
+  const presentation = await readPart(zip, "ppt/presentation.xml");
+  if (!presentation) {
+    throw new Error("Invalid PPTX: ppt/presentation.xml not found.");
+  }
+
+  const slideSize = child(presentation.root, "sldSz");
+  const width = Math.round((numAttr(slideSize, "cx", 12192000) / EMU_PER_PX) * RENDER_SCALE);
+  const height = Math.round((numAttr(slideSize, "cy", 6858000) / EMU_PER_PX) * RENDER_SCALE);
+
+  const slidePaths = elementChildren(child(presentation.root, "sldIdLst"), "sldId")
+    .map((el) => presentation.rels.get(el.getAttributeNS(REL_NS, "id") || ""))
+    .filter((path): path is string => !!path);
+
+  const themeCache = new Map<string, ThemeInfo>();
+  const slides: ParsedPptxSlide[] = [];
+  for (const path of slidePaths) {
+    const parsed = await parseSlide(zip, path, themeCache);
+    if (parsed) slides.push(parsed);
+  }
+
+  return { width, height, slides };
+};
+
+// --- Rendering -------------------------------------------------------------
+
+const MEDIA_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  bmp: "image/bmp",
+  svg: "image/svg+xml",
+  webp: "image/webp",
+};
+
+const loadMedia = async (zip: JSZip, path: string, cache: Map<string, HTMLImageElement | null>) => {
+  if (cache.has(path)) return cache.get(path) || null;
+  const ext = path.split(".").pop()?.toLowerCase() || "";
+  const mimeType = MEDIA_MIME_TYPES[ext];
+  const entry = zip.file(path);
+  let image: HTMLImageElement | null = null;
+  // EMF/WMF and other formats the browser cannot decode are skipped.
+  if (mimeType && entry) {
+    try {
+      image = await loadImage(`data:${mimeType};base64,${await entry.async("base64")}`);
+    } catch {
+      image = null;
+    }
+  }
+  cache.set(path, image);
+  return image;
+};
+
+const withFrameTransform = (ctx: CanvasRenderingContext2D, frame: Frame, draw: () => void) => {
+  ctx.save();
+  const cx = frame.x + frame.width / 2;
+  const cy = frame.y + frame.height / 2;
+  ctx.translate(cx, cy);
+  if (frame.rotation) ctx.rotate((frame.rotation * Math.PI) / 180);
+  if (frame.flipH) ctx.scale(-1, 1);
+  if (frame.flipV) ctx.scale(1, -1);
+  ctx.translate(-cx, -cy);
+  draw();
+  ctx.restore();
+};
+
+const renderParsedSlide = async (
+  zip: JSZip,
+  parsed: ParsedPptxSlide,
+  width: number,
+  height: number,
+  mediaCache: Map<string, HTMLImageElement | null>
+): Promise<string> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to create canvas context for PPTX rendering.");
+
+  ctx.fillStyle = parsed.backgroundColor;
+  ctx.fillRect(0, 0, width, height);
+  if (parsed.backgroundMediaPath) {
+    const bgImage = await loadMedia(zip, parsed.backgroundMediaPath, mediaCache);
+    if (bgImage) ctx.drawImage(bgImage, 0, 0, width, height);
+  }
+
+  for (const drawable of parsed.drawables) {
+    const { frame } = drawable;
+    if (drawable.kind === "fill") {
+      withFrameTransform(ctx, frame, () => {
+        ctx.fillStyle = drawable.color;
+        if (drawable.ellipse) {
+          ctx.beginPath();
+          ctx.ellipse(frame.x + frame.width / 2, frame.y + frame.height / 2, frame.width / 2, frame.height / 2, 0, 0, Math.PI * 2);
+          ctx.fill();
+        } else {
+          ctx.fillRect(frame.x, frame.y, frame.width, frame.height);
+        }
+      });
+      continue;
+    }
+
+    const image = await loadMedia(zip, drawable.mediaPath, mediaCache);
+    if (image) {
+      withFrameTransform(ctx, frame, () => ctx.drawImage(image, frame.x, frame.y, frame.width, frame.height));
+    }
+  }
+
+  return canvas.toDataURL("image/png");
+};
+
+export const convertPptxToSlides = async (file: File): Promise<SlideData[]> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const parsed = await parsePptx(zip);
+  if (parsed.slides.length === 0) {
+    throw new Error("PPTX file contains no slides.");
+  }
+  const mediaCache = new Map<string, HTMLImageElement | null>();
+
+  const slides: SlideData[] = [];
+  for (let i = 0; i < parsed.slides.length; i++) {
+    const parsedSlide = parsed.slides[i];
+    slides.push({
+      index: i,
+      dataUrl: await renderParsedSlide(zip, parsedSlide, parsed.width, parsed.height, mediaCache),
+      width: parsed.width,
+      height: parsed.height,
+      overlays: parsedSlide.texts.map((text) => ({ ...text, id: createOverlayId() })),
+    });
+  }
+  return slides;
+};
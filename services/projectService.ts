@@ -0,0 +1,45 @@
+import JSZip from "jszip";
+import { saveAs } from "file-saver";
+import {
+  PROJECT_MANIFEST_PATH,
+  ProjectContent,
+  getMimeTypeForAssetPath,
+  migrateProjectManifest,
+  restoreProject,
+  serializeProject,
+} from "../utils/projectFormat";
+
+const splitDataUrl = (dataUrl: string): string => (dataUrl.includes(",") ? dataUrl.split(",")[1] : dataUrl);
+
+export const saveProjectFile = async (content: ProjectContent, filename: string): Promise<void> => {
+  const { manifest, assets } = serializeProject(content);
+  const zip = new JSZip();
+
+  zip.file(PROJECT_MANIFEST_PATH, JSON.stringify(manifest));
+  for (const { path, dataUrl } of assets.entries()) {
+    // Images are already compressed, so store them as-is and only deflate the manifest.
+    zip.file(path, splitDataUrl(dataUrl), { base64: true, compression: "STORE" });
+  }
+
+  const blob = await zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+  saveAs(blob, filename);
+};
+
+export const loadProjectFile = async (file: File): Promise<ProjectContent> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const manifestEntry = zip.file(PROJECT_MANIFEST_PATH);
+  if (!manifestEntry) {
+    throw new Error("Invalid project file: project.json not found.");
+  }
+
+  const manifest = migrateProjectManifest(JSON.parse(await manifestEntry.async("string")));
+
+  const assets = new Map<string, string>();
+  const assetEntries = Object.values(zip.files).filter((entry) => !entry.dir && entry.name.startsWith("assets/"));
+  for (const entry of assetEntries) {
+    const base64 = await entry.async("base64");
+    assets.set(entry.name, `data:${getMimeTypeForAssetPath(entry.name)};base64,${base64}`);
+  }
+
+  return restoreProject(manifest, (ref) => assets.get(ref));
+};
@@ -1,7 +1,28 @@
 import { SlideData } from "../types";
 import { loadImage } from "./imageUtils";
+import { waitForOverlayFonts } from "./fontService";
+import { drawOverlay } from "../utils/overlayRenderer";
+import { getVisibleOverlays } from "../utils/layers";
+
+const tryLoadImage = async (src?: string): Promise<HTMLImageElement | null> => {
+  if (!src) return null;
+  try {
+    return await loadImage(src);
+  } catch {
+    return null;
+  }
+};
+
+export interface RenderSlideOptions {
+  // Editable exports re-create these as native objects, so they are left out of the raster.
+  skipText?: boolean;
+  skipImageOverlays?: boolean;
+}
 
-export const renderSlideToCanvas = async (slide: SlideData): Promise<HTMLCanvasElement> => {
+export const renderSlideToCanvas = async (
+  slide: SlideData,
+  options: RenderSlideOptions = {}
+): Promise<HTMLCanvasElement> => {
   const canvas = document.createElement("canvas");
   canvas.width = slide.width;
   canvas.height = slide.height;
@@ -11,65 +32,19 @@ export const renderSlideToCanvas = async (slide: SlideData): Promise<HTMLCanvasE
     throw new Error("Canvas context initialization failed.");
   }
 
+  const overlays = getVisibleOverlays(slide.overlays);
+  if (!options.skipText) await waitForOverlayFonts(overlays);
   const baseImage = await loadImage(slide.dataUrl);
   ctx.drawImage(baseImage, 0, 0, slide.width, slide.height);
 
-  for (const overlay of slide.overlays) {
-    if (overlay.type === "image" && overlay.imageSrc) {
-      try {
-        const overlayImg = await loadImage(overlay.imageSrc);
-        ctx.drawImage(overlayImg, overlay.rect.x, overlay.rect.y, overlay.rect.width, overlay.rect.height);
-      } catch {
-        // Continue rendering other overlays.
-      }
-      continue;
-    }
-
-    if (overlay.backgroundImage) {
-      try {
-        const bgImg = await loadImage(overlay.backgroundImage);
-        ctx.drawImage(bgImg, overlay.rect.x, overlay.rect.y, overlay.rect.width, overlay.rect.height);
-      } catch {
-        ctx.fillStyle = overlay.backgroundColor;
-        ctx.fillRect(overlay.rect.x, overlay.rect.y, overlay.rect.width, overlay.rect.height);
-      }
-    } else {
-      ctx.fillStyle = overlay.backgroundColor;
-      ctx.fillRect(overlay.rect.x, overlay.rect.y, overlay.rect.width, overlay.rect.height);
-    }
-
-    ctx.fillStyle = overlay.fontColor;
-    const fontSize = overlay.fontSize;
-    ctx.font = `${overlay.fontWeight} ${fontSize}px ${overlay.fontFamily}, sans-serif`;
-
-    if (ctx.letterSpacing !== undefined) {
-      ctx.letterSpacing = `${overlay.letterSpacing || 0}px`;
-    }
-
-    const lines = overlay.newText.split("\n");
-    const lineHeight = fontSize * 1.2;
-    const totalTextHeight = lines.length * lineHeight;
-    const yNudge = fontSize * 0.15;
-
-    ctx.textAlign = (overlay.hAlign || "left") as CanvasTextAlign;
-    ctx.textBaseline = "top";
-
-    let tx = overlay.rect.x;
-    if (overlay.hAlign === "center") tx = overlay.rect.x + overlay.rect.width / 2;
-    else if (overlay.hAlign === "right") tx = overlay.rect.x + overlay.rect.width;
-
-    let ty = overlay.rect.y;
-    if (overlay.vAlign === "middle") ty = overlay.rect.y + (overlay.rect.height - totalTextHeight) / 2;
-    else if (overlay.vAlign === "bottom") ty = overlay.rect.y + overlay.rect.height - totalTextHeight;
+  for (const overlay of overlays) {
+    if (overlay.type === "image" && (options.skipImageOverlays || !overlay.imageSrc)) continue;
 
-    ty += yNudge;
-    lines.forEach((line, index) => {
-      ctx.fillText(line, tx, ty + index * lineHeight);
-    });
+    // A source that fails to load is skipped; text backgrounds fall back to their fill color.
+    const image = overlay.type === "image" ? await tryLoadImage(overlay.imageSrc) : null;
+    const background = overlay.type === "image" ? null : await tryLoadImage(overlay.backgroundImage);
 
-    if (ctx.letterSpacing !== undefined) {
-      ctx.letterSpacing = "0px";
-    }
+    drawOverlay(ctx, overlay, { image, background }, { skipText: options.skipText });
   }
 
   return canvas;
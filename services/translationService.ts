@@ -0,0 +1,62 @@
+import { SlideData, TextOverlay, TranslationLanguage } from "../types";
+import { createCanvasTextMeasurer, fitTextToRect } from "../utils/textLayout";
+import { compactRuns, getOverlayRuns } from "../utils/richText";
+import { translateTexts } from "./geminiService";
+
+export const TRANSLATION_LANGUAGE_LABELS: Record<TranslationLanguage, string> = {
+  ko: "한국어",
+  en: "English",
+  ja: "日本語",
+};
+
+export type TranslatedOverlayPatch = Pick<TextOverlay, "id" | "newText" | "fontSize" | "letterSpacing" | "runs" | "needsReview">;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const getMeasureContext = (): CanvasRenderingContext2D => {
+  if (measureContext) return measureContext;
+  const ctx = document.createElement("canvas").getContext("2d");
+  if (!ctx) throw new Error("Canvas context failed while measuring text.");
+  measureContext = ctx;
+  return ctx;
+};
+
+export const isTranslatableOverlay = (overlay: TextOverlay): boolean =>
+  overlay.type !== "image" && overlay.newText.trim().length > 0;
+
+// Translates the chosen text overlays of one slide (all of them when `overlayIds` is omitted)
+// in a single model call, then shrinks each result until it fits its box again.
+export const translateSlideOverlays = async (
+  slide: SlideData,
+  targetLanguage: TranslationLanguage,
+  overlayIds?: string[],
+  signal?: AbortSignal
+): Promise<TranslatedOverlayPatch[]> => {
+  const targets = slide.overlays.filter(
+    (overlay) => isTranslatableOverlay(overlay) && (!overlayIds || overlayIds.includes(overlay.id))
+  );
+  if (targets.length === 0) return [];
+
+  const translations = await translateTexts(targets.map((overlay) => overlay.newText), targetLanguage, signal);
+  const ctx = getMeasureContext();
+
+  // Styled runs can't be mapped onto the translated wording, so the whole translation takes the
+  // style of the first run. Its size becomes the overlay's, so fitting below measures the right size.
+  return targets.map((overlay, index) => {
+    const newText = translations[index];
+    const [{ text: _firstText, fontSize = overlay.fontSize, ...firstStyle }] = getOverlayRuns(overlay);
+    const runs = compactRuns([{ ...firstStyle, text: newText }]);
+    // Wrapping and shrinking overlays are laid out again on every render, so their style stays as is.
+    if (overlay.fitMode && overlay.fitMode !== "none") {
+      return { id: overlay.id, newText, fontSize, letterSpacing: overlay.letterSpacing, runs, needsReview: true };
+    }
+    const fit = fitTextToRect(
+      newText,
+      overlay.rect,
+      { fontSize, letterSpacing: overlay.letterSpacing || 0 },
+      createCanvasTextMeasurer(ctx, overlay.fontWeight, overlay.fontFamily, overlay.fontStyle),
+      { lineHeight: overlay.lineHeight, paragraphSpacing: overlay.paragraphSpacing }
+    );
+    return { id: overlay.id, newText, fontSize: fit.fontSize, letterSpacing: fit.letterSpacing, runs, needsReview: true };
+  });
+};
@@ -1,5 +1,12 @@
 import { describe, expect, it } from 'vitest';
-import { duplicateSlideAtIndex } from './utils/slideOperations';
+import {
+  duplicateSlideAtIndex,
+  insertSlides,
+  isSlideModified,
+  keepOriginal,
+  renumberSlides,
+  revertSlideToOriginal,
+} from './utils/slideOperations';
 import { SlideData } from './types';
 
 const createSlide = (index: number, name: string): SlideData => ({
@@ -36,3 +43,54 @@ describe('duplicateSlideAtIndex', () => {
     expect(result.slides[1].overlays[0]).not.toBe(slides[0].overlays[0]);
   });
 });
+
+describe('insertSlides', () => {
+  const deck = () => [createSlide(0, 's0'), createSlide(1, 's1'), createSlide(2, 's2')];
+  const incoming = () => [createSlide(0, 'n0'), createSlide(1, 'n1')];
+
+  it('inserts after the active slide and renumbers indices', () => {
+    const result = insertSlides(deck(), incoming(), 'afterActive', 0);
+    expect(result.insertedIndex).toBe(1);
+    expect(result.slides.map((s) => s.dataUrl.split(',')[1])).toEqual(['s0', 'n0', 'n1', 's1', 's2']);
+    expect(result.slides.map((s) => s.index)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('appends to the end of the deck', () => {
+    const result = insertSlides(deck(), incoming(), 'append', 0);
+    expect(result.insertedIndex).toBe(3);
+    expect(result.slides[4].dataUrl).toBe('data:image/png;base64,n1');
+    expect(result.slides[4].index).toBe(4);
+  });
+
+  it('replaces the deck when asked or when it is empty', () => {
+    expect(insertSlides(deck(), incoming(), 'replace', 1).slides).toHaveLength(2);
+    expect(insertSlides([], incoming(), 'afterActive', 0)).toMatchObject({ insertedIndex: 0 });
+  });
+});
+
+describe('renumberSlides', () => {
+  it('rewrites stale indices after a delete and keeps slides already in place', () => {
+    const deck = [createSlide(0, 's0'), createSlide(1, 's1'), createSlide(2, 's2')];
+    const result = renumberSlides([deck[0], deck[2]]);
+    expect(result.map((slide) => slide.index)).toEqual([0, 1]);
+    expect(result[0]).toBe(deck[0]);
+    expect(result[1].dataUrl).toBe(deck[2].dataUrl);
+  });
+});
+
+describe('slide originals', () => {
+  it('reverts an erased slide to the image and overlays it was imported with', () => {
+    const imported = keepOriginal(createSlide(0, 's0'));
+    expect(keepOriginal(imported)).toBe(imported);
+    expect(isSlideModified(imported)).toBe(false);
+
+    const erased = keepOriginal({ ...imported, dataUrl: 'data:image/png;base64,erased', overlays: [] });
+    expect(erased.original?.dataUrl).toBe('data:image/png;base64,s0');
+    expect(isSlideModified(erased)).toBe(true);
+
+    const reverted = revertSlideToOriginal(erased);
+    expect(reverted.dataUrl).toBe('data:image/png;base64,s0');
+    expect(reverted.overlays).toEqual(imported.overlays);
+    expect(isSlideModified(reverted)).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { SnapContext, snapMove, snapPosition, snapResize } from './utils/snapping';
+
+const context = (others: SnapContext['others'] = []): SnapContext => ({
+  others,
+  slideWidth: 1000,
+  slideHeight: 500,
+  threshold: 5,
+});
+
+describe('snapMove', () => {
+  it('snaps to the slide centre and reports the guide', () => {
+    const result = snapMove({ x: 447, y: 100, width: 100, height: 40 }, context());
+    expect(result.dx).toBe(3);
+    expect(result.dy).toBe(0);
+    expect(result.guides).toContainEqual({ x1: 500, y1: 0, x2: 500, y2: 500 });
+  });
+
+  it('snaps to the nearest edge of another overlay', () => {
+    const result = snapMove({ x: 203, y: 302, width: 50, height: 20 }, context([{ x: 200, y: 100, width: 80, height: 30 }]));
+    expect(result.dx).toBe(-3);
+    expect(result.guides).toContainEqual({ x1: 200, y1: 100, x2: 200, y2: 322 });
+  });
+
+  it('leaves the rect alone outside the threshold', () => {
+    const result = snapMove({ x: 120, y: 120, width: 50, height: 20 }, context());
+    expect(result).toEqual({ dx: 0, dy: 0, guides: [] });
+  });
+
+  it('repeats the gap between neighbours in the same row', () => {
+    const others = [
+      { x: 100, y: 100, width: 50, height: 20 },
+      { x: 180, y: 100, width: 50, height: 20 },
+    ];
+    // The gap is 30, so the next slot starts at 260.
+    const result = snapMove({ x: 262, y: 100, width: 50, height: 20 }, context(others));
+    expect(result.dx).toBe(-2);
+    expect(result.guides).toContainEqual({ x1: 150, y1: 110, x2: 180, y2: 110 });
+    expect(result.guides).toContainEqual({ x1: 230, y1: 110, x2: 260, y2: 110 });
+  });
+});
+
+describe('snapResize', () => {
+  it('snaps only the dragged edge', () => {
+    const result = snapResize({ x: 100, y: 100, width: 396, height: 50 }, 'e', context());
+    expect(result.rect).toEqual({ x: 100, y: 100, width: 400, height: 50 });
+    expect(result.guides).toEqual([{ x1: 500, y1: 0, x2: 500, y2: 500 }]);
+  });
+
+  it('moves the start edge and keeps the far edge fixed', () => {
+    const result = snapResize({ x: 3, y: 100, width: 97, height: 50 }, 'nw', context());
+    expect(result.rect).toEqual({ x: 0, y: 100, width: 100, height: 50 });
+  });
+});
+
+describe('ruler guides', () => {
+  it('attract overlays like slide lines do', () => {
+    const result = snapMove({ x: 118, y: 300, width: 50, height: 20 }, { ...context(), guides: [{ id: 'g', axis: 'x', position: 120 }] });
+    expect(result.dx).toBe(2);
+    expect(result.guides).toContainEqual({ x1: 120, y1: 0, x2: 120, y2: 500 });
+  });
+
+  it('snap themselves to overlay edges while dragged', () => {
+    expect(snapPosition(203, 'x', context([{ x: 200, y: 0, width: 40, height: 10 }]))).toBe(200);
+    expect(snapPosition(150, 'x', context())).toBe(150);
+  });
+});
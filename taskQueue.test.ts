@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { runTaskQueue } from './utils/taskQueue';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('runTaskQueue', () => {
+  it('never exceeds the concurrency limit and keeps result order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await runTaskQueue(
+      [30, 10, 20, 5, 15],
+      async (ms) => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await delay(ms);
+        inFlight--;
+        return ms * 2;
+      },
+      { concurrency: 2 }
+    );
+
+    expect(peak).toBe(2);
+    expect(results.map((r) => (r.status === 'fulfilled' ? r.value : null))).toEqual([60, 20, 40, 10, 30]);
+  });
+
+  it('reports failures without stopping the remaining tasks', async () => {
+    const results = await runTaskQueue(
+      [1, 2, 3],
+      async (n) => {
+        if (n === 2) throw new Error('boom');
+        return n;
+      },
+      { concurrency: 1 }
+    );
+
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+  });
+
+  it('skips tasks that have not started once aborted', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+    const results = await runTaskQueue(
+      [0, 1, 2, 3],
+      async (n) => {
+        if (n === 1) controller.abort();
+        await delay(1);
+        return n;
+      },
+      { concurrency: 1, signal: controller.signal, onTaskStart: (index) => started.push(index) }
+    );
+
+    expect(started).toEqual([0, 1]);
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'fulfilled', 'skipped', 'skipped']);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { detectedBlocksToOverlays } from './utils/textDetection';
+import { DetectedTextBlock, TextOverlay } from './types';
+
+const block = (text: string, x: number, y: number): DetectedTextBlock => ({
+  text,
+  rect: { x, y, width: 0.5, height: 0.1 },
+  fontSize: 0.05,
+  fontWeight: 'bold',
+  fontColor: '#111111',
+  fontFamily: 'Inter',
+  backgroundColor: '#fafafa',
+});
+
+describe('detectedBlocksToOverlays', () => {
+  it('scales fractional regions and font sizes to slide pixels', () => {
+    const [overlay] = detectedBlocksToOverlays([block('Title', 0.1, 0.2)], 1000, 500);
+
+    expect(overlay.rect).toEqual({ x: 100, y: 100, width: 500, height: 50 });
+    expect(overlay.fontSize).toBe(25);
+    expect(overlay.originalText).toBe('Title');
+    expect(overlay.newText).toBe('Title');
+    expect(overlay.backgroundColor).toBe('#fafafa');
+  });
+
+  it('skips regions already covered by a text overlay', () => {
+    const existing = detectedBlocksToOverlays([block('Old', 0.1, 0.2)], 1000, 500) as TextOverlay[];
+    const drafts = detectedBlocksToOverlays([block('Old', 0.11, 0.21), block('New', 0.1, 0.6)], 1000, 500, existing);
+    expect(drafts.map((d) => d.newText)).toEqual(['New']);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { PositionedTextItem, groupItemsIntoLines, groupTextItems } from './utils/textGrouping';
+
+const item = (text: string, x: number, y: number, width: number, height = 20, bold = false): PositionedTextItem => ({
+  text,
+  x,
+  y,
+  width,
+  height,
+  bold,
+});
+
+describe('groupItemsIntoLines', () => {
+  it('joins items on one baseline and inserts spaces at word gaps', () => {
+    const lines = groupItemsIntoLines([item('World', 70, 101, 50), item('Hello', 10, 100, 50)]);
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].text).toBe('Hello World');
+    expect(lines[0].rect).toEqual({ x: 10, y: 100, width: 110, height: 21 });
+  });
+
+  it('keeps distant columns on separate lines', () => {
+    const lines = groupItemsIntoLines([item('Left', 10, 100, 40), item('Right', 400, 100, 50)]);
+    expect(lines.map((l) => l.text)).toEqual(['Left', 'Right']);
+  });
+});
+
+describe('groupTextItems', () => {
+  it('stacks paragraph lines into one block and separates headings', () => {
+    const blocks = groupTextItems([
+      item('Title', 10, 10, 120, 40, true),
+      item('First line of body', 10, 80, 200),
+      item('second line', 10, 104, 120),
+      item('Footer', 10, 400, 60),
+    ]);
+
+    expect(blocks.map((b) => b.text)).toEqual(['Title', 'First line of body\nsecond line', 'Footer']);
+    expect(blocks[0].bold).toBe(true);
+    expect(blocks[1].rect).toEqual({ x: 10, y: 80, width: 200, height: 44 });
+    expect(blocks[1].fontSize).toBe(20);
+  });
+
+  it('detects centered paragraphs', () => {
+    const [block] = groupTextItems([item('A wide centered line', 100, 100, 200), item('short', 160, 124, 80)]);
+    expect(block.hAlign).toBe('center');
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import {
+  MIN_FIT_FONT_SIZE,
+  createCanvasTextMeasurer,
+  fitTextToRect,
+  layoutText,
+  measureTextBlock,
+  splitIntoBreakUnits,
+  wrapText,
+  TextLayout
+} from './utils/textLayout';
+import { TextFitMode } from './types';
+
+// Every character is half the font size wide, which keeps the expected numbers easy to follow.
+const monospace = (text: string, fontSize: number) => text.length * fontSize * 0.5;
+
+describe('fitTextToRect', () => {
+  it('keeps the style when the text already fits', () => {
+    expect(fitTextToRect('Hello', { width: 100, height: 30 }, { fontSize: 20, letterSpacing: 1 }, monospace))
+      .toEqual({ fontSize: 20, letterSpacing: 1, fits: true });
+  });
+
+  it('tightens letter-spacing when that alone is enough', () => {
+    // 10 chars at 20px are 100px wide; the box is 95px, so each character gives up 0.5px.
+    const result = fitTextToRect('abcdefghij', { width: 95, height: 30 }, { fontSize: 20, letterSpacing: 0 }, monospace);
+    expect(result).toEqual({ fontSize: 20, letterSpacing: -0.5, fits: true });
+  });
+
+  it('shrinks the font when spacing is not enough', () => {
+    const result = fitTextToRect('abcdefghij', { width: 60, height: 30 }, { fontSize: 20, letterSpacing: 0 }, monospace);
+    expect(result.fits).toBe(true);
+    expect(result.fontSize).toBe(12);
+    expect(measureTextBlock('abcdefghij', result, monospace).width).toBeLessThanOrEqual(60);
+  });
+
+  it('shrinks for extra lines that overflow the height', () => {
+    const result = fitTextToRect('one\ntwo\nsix', { width: 200, height: 40 }, { fontSize: 20, letterSpacing: 2 }, monospace);
+    expect(result.fontSize).toBe(11);
+    expect(result.letterSpacing).toBeCloseTo(1.1);
+  });
+
+  it('stops at the minimum size and reports the overflow', () => {
+    const result = fitTextToRect('a much longer translated sentence', { width: 20, height: 10 }, { fontSize: 12, letterSpacing: 0 }, monospace);
+    expect(result).toEqual({ fontSize: MIN_FIT_FONT_SIZE, letterSpacing: 0, fits: false });
+  });
+});
+
+describe('createCanvasTextMeasurer', () => {
+  it('measures wider text at larger sizes', () => {
+    const ctx = createCanvas(10, 10).getContext('2d') as unknown as CanvasRenderingContext2D;
+    const measure = createCanvasTextMeasurer(ctx, 'normal', 'sans-serif');
+    expect(measure('Hello', 24)).toBeGreaterThan(measure('Hello', 12));
+  });
+});
+
+describe('wrapText', () => {
+  const style = { fontSize: 10, letterSpacing: 0 };
+
+  it('wraps latin text between words', () => {
+    // Each character is 5px wide, so a 60px box holds 12 characters.
+    expect(wrapText('the quick brown fox', 60, style, monospace)).toEqual(['the quick', 'brown fox']);
+  });
+
+  it('keeps Korean words together and breaks between them', () => {
+    expect(wrapText('슬라이드 텍스트 편집기', 35, style, monospace)).toEqual(['슬라이드', '텍스트 편집기']);
+  });
+
+  it('breaks Japanese between characters but never before closing punctuation', () => {
+    // 'です。' would leave 。 alone at the start of a line, so す moves down with it.
+    expect(wrapText('日本語です。', 25, style, monospace)).toEqual(['日本語で', 'す。']);
+  });
+
+  it('splits words that are wider than the box', () => {
+    expect(wrapText('abcdefgh', 20, style, monospace)).toEqual(['abcd', 'efgh']);
+  });
+
+  it('keeps explicit line breaks and empty lines', () => {
+    expect(wrapText('a\n\nb', 100, style, monospace)).toEqual(['a', '', 'b']);
+  });
+});
+
+describe('splitIntoBreakUnits', () => {
+  it('does not end a line on an opening bracket', () => {
+    expect(splitIntoBreakUnits('「見出し」')).toEqual(['「見', '出', 'し」']);
+  });
+});
+
+describe('layoutText', () => {
+  const input = (fontSize: number, fitMode?: TextFitMode) => ({
+    spans: [{ text: 'the quick brown fox', fontSize }],
+    box: { width: 60, height: 30 },
+    fontSize,
+    fitMode,
+  });
+  const lineTexts = (layout: TextLayout) => layout.lines.map((line) => line.text);
+
+  it('only splits on newlines without a fit mode', () => {
+    expect(lineTexts(layoutText(input(10), monospace))).toEqual(['the quick brown fox']);
+  });
+
+  it('wraps at the box width', () => {
+    const layout = layoutText(input(10, 'wrap'), monospace);
+    expect(lineTexts(layout)).toEqual(['the quick', 'brown fox']);
+    expect(layout.fontSize).toBe(10);
+  });
+
+  it('shrinks to the largest size whose wrapped lines fit the box', () => {
+    const layout = layoutText(input(20, 'shrink'), monospace);
+    expect(layout.height).toBeLessThanOrEqual(30);
+    expect(layout.fontSize).toBe(12.5);
+    expect(lineTexts(layout)).toEqual(['the quick', 'brown fox']);
+    // Half a point larger no longer fits.
+    expect(layoutText(input(13, 'wrap'), monospace).height).toBeGreaterThan(30);
+  });
+
+  it('leaves text that already fits alone in shrink mode', () => {
+    expect(layoutText(input(10, 'shrink'), monospace).fontSize).toBe(10);
+  });
+
+  it('lays out mixed-size spans on shared lines', () => {
+    const layout = layoutText(
+      {
+        spans: [{ text: 'big ', fontSize: 20 }, { text: 'small words here', fontSize: 10 }],
+        box: { width: 70, height: 100 },
+        fontSize: 10,
+        fitMode: 'wrap',
+      },
+      monospace
+    );
+
+    expect(lineTexts(layout)).toEqual(['big small', 'words here']);
+    expect(layout.lines[0].fragments.map((fragment) => [fragment.text, fragment.x, fragment.width]))
+      .toEqual([['big ', 0, 40], ['small', 40, 25]]);
+    expect(layout.lines[0].height).toBe(24);
+    expect(layout.lines[1].top).toBe(24);
+    expect(layout.height).toBe(36);
+  });
+
+  it('applies line height to every line and paragraph spacing between paragraphs', () => {
+    const layout = layoutText(
+      {
+        spans: [{ text: 'the quick brown\nfox', fontSize: 10 }],
+        box: { width: 60, height: 100 },
+        fontSize: 10,
+        lineHeight: 1.5,
+        paragraphSpacing: 6,
+        fitMode: 'wrap',
+      },
+      monospace
+    );
+
+    expect(lineTexts(layout)).toEqual(['the quick', 'brown', 'fox']);
+    expect(layout.lines.map((line) => [line.paragraph, line.top])).toEqual([[0, 0], [0, 15], [1, 36]]);
+    expect(layout.height).toBe(51);
+  });
+
+  it('counts line height and paragraph spacing when fitting text', () => {
+    const style = { fontSize: 10, letterSpacing: 0 };
+    expect(measureTextBlock('a\nb', style, monospace, { lineHeight: 1, paragraphSpacing: 5 }).height).toBe(25);
+    expect(fitTextToRect('a\nb', { width: 100, height: 24 }, style, monospace).fits).toBe(true);
+    expect(fitTextToRect('a\nb', { width: 100, height: 24 }, style, monospace, { lineHeight: 2 }).fontSize).toBeLessThan(10);
+  });
+});
@@ -13,6 +13,37 @@ export interface Rect {
 
 export type VerticalAlign = 'top' | 'middle' | 'bottom';
 export type HorizontalAlign = 'left' | 'center' | 'right';
+// How text meets the edges of its rect: kept as typed, wrapped at the width, or wrapped and shrunk to fit.
+export type TextFitMode = 'none' | 'wrap' | 'shrink';
+
+export type TextFontStyle = 'normal' | 'italic';
+
+// Outline around the glyphs, drawn behind the fill.
+export interface TextStroke {
+  color: string;
+  width: number; // px it reaches outside the glyph edges
+}
+
+// Offsets and blur are in slide pixels, like the rest of the overlay.
+export interface TextShadow {
+  color: string;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Style overrides for part of an overlay's text; anything unset falls back to the overlay's own style.
+export interface TextRunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  color?: string;
+  fontSize?: number;
+}
+
+export interface TextRun extends TextRunStyle {
+  text: string;
+}
 
 export interface TextOverlay {
   id: string;
@@ -22,6 +53,7 @@ export interface TextOverlay {
   newText: string;
   fontSize: number;
   fontWeight: string;
+  fontStyle?: TextFontStyle; // Default is 'normal'
   fontColor: string;
   fontFamily: string;
   backgroundColor: string;
@@ -30,18 +62,58 @@ export interface TextOverlay {
   vAlign: VerticalAlign;
   hAlign: HorizontalAlign;
   letterSpacing?: number;
+  lineHeight?: number; // Multiple of the font size; default is 1.2
+  paragraphSpacing?: number; // Extra px between paragraphs; default is 0
+  stroke?: TextStroke;
+  shadow?: TextShadow;
+  fitMode?: TextFitMode; // Default is 'none'
+  runs?: TextRun[]; // Styled spans; their texts joined together always equal newText
+  needsReview?: boolean; // Set when text was filled in automatically (e.g. translated) until someone checks it
+  groupId?: string; // Overlays sharing a groupId are selected, moved and arranged together
+  hidden?: boolean; // Not drawn in the editor or any export
+  locked?: boolean; // Drawn, but cannot be picked or moved on the canvas
   // New properties for transformation
   rotation?: number; // Degrees
   flipHorizontal?: boolean;
   flipVertical?: boolean;
 }
 
+export interface FontOption {
+  name: string; // shown in the font picker
+  value: string; // CSS font-family
+}
+
+// A font file the user added; it travels with the project so the deck renders the same elsewhere.
+export interface CustomFont {
+  family: string;
+  fileName: string;
+  dataUrl: string;
+}
+
+// A ruler guide. An 'x' guide is a vertical line at a fixed x; a 'y' guide is horizontal.
+export type GuideAxis = 'x' | 'y';
+export type GuideScope = 'slide' | 'deck';
+
+export interface Guide {
+  id: string;
+  axis: GuideAxis;
+  position: number; // Slide pixels
+}
+
+// The slide as it was imported, kept so it can be reverted after erasing or editing.
+export interface SlideOriginal {
+  dataUrl: string;
+  overlays: TextOverlay[];
+}
+
 export interface SlideData {
   index: number;
   dataUrl: string;
   width: number;
   height: number;
   overlays: TextOverlay[];
+  guides?: Guide[]; // Guides that belong to this slide only; deck-wide guides live on the project
+  original?: SlideOriginal; // Missing for slides from files saved before originals were kept
 }
 
 export interface ErasePath {
@@ -60,3 +132,20 @@ export interface OCRResult {
   fontFamily: string;
   backgroundColor: string;
 }
+
+// A text region found on a whole slide. `rect` and `fontSize` are fractions of the image
+// (width for x/width, height for y/height/fontSize) so they survive request downscaling.
+export interface DetectedTextBlock extends OCRResult {
+  rect: Rect;
+}
+
+// Operations the /api/gemini endpoint dispatches to the configured AI provider.
+export type AiAction =
+  | 'analyzeTextInImage'
+  | 'generateTextSuggestion'
+  | 'removeTextFromImage'
+  | 'removeAllTextFromSlide'
+  | 'detectTextBlocks'
+  | 'translateTexts';
+
+export type TranslationLanguage = 'ko' | 'en' | 'ja';
@@ -0,0 +1,163 @@
+import { Point, Rect, TextOverlay } from '../types';
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+const rotatePoint = (point: Point, center: Point, angle: number): Point => {
+  const rad = (angle * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+const getRectCenter = (rect: Rect): Point => ({ x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 });
+
+// Axis-aligned box around the overlay as drawn, i.e. after rotation.
+export const getOverlayBounds = (overlay: TextOverlay): Rect => {
+  const { rect } = overlay;
+  if (!overlay.rotation) return { ...rect };
+  const center = getRectCenter(rect);
+  const corners = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height },
+  ].map((corner) => rotatePoint(corner, center, overlay.rotation || 0));
+  const xs = corners.map((corner) => corner.x);
+  const ys = corners.map((corner) => corner.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+export const getSelectionBounds = (overlays: TextOverlay[]): Rect | null => {
+  if (overlays.length === 0) return null;
+  const boxes = overlays.map(getOverlayBounds);
+  const x = Math.min(...boxes.map((box) => box.x));
+  const y = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+// Selecting any member of a group selects the whole group.
+export const expandToGroups = (overlays: TextOverlay[], ids: string[]): string[] => {
+  const groupIds = new Set(
+    overlays.filter((overlay) => ids.includes(overlay.id) && overlay.groupId).map((overlay) => overlay.groupId)
+  );
+  return overlays
+    .filter((overlay) => ids.includes(overlay.id) || (overlay.groupId && groupIds.has(overlay.groupId)))
+    .map((overlay) => overlay.id);
+};
+
+// A group inside the selection is arranged as one unit so its members keep their relative layout.
+const getArrangeUnits = (overlays: TextOverlay[], ids: string[]): { ids: string[]; bounds: Rect }[] => {
+  const units = new Map<string, TextOverlay[]>();
+  overlays
+    .filter((overlay) => ids.includes(overlay.id))
+    .forEach((overlay) => {
+      const key = overlay.groupId ? `group:${overlay.groupId}` : `overlay:${overlay.id}`;
+      units.set(key, [...(units.get(key) || []), overlay]);
+    });
+  return Array.from(units.values()).map((members) => ({
+    ids: members.map((member) => member.id),
+    bounds: getSelectionBounds(members) as Rect,
+  }));
+};
+
+// Distributing needs at least three units, since the outer two stay where they are.
+export const countArrangeUnits = (overlays: TextOverlay[], ids: string[]): number => getArrangeUnits(overlays, ids).length;
+
+export const moveOverlays = (overlays: TextOverlay[], ids: string[], dx: number, dy: number): TextOverlay[] =>
+  overlays.map((overlay) =>
+    ids.includes(overlay.id) ? { ...overlay, rect: { ...overlay.rect, x: overlay.rect.x + dx, y: overlay.rect.y + dy } } : overlay
+  );
+
+const applyOffsets = (overlays: TextOverlay[], offsets: Map<string, Point>): TextOverlay[] =>
+  overlays.map((overlay) => {
+    const offset = offsets.get(overlay.id);
+    if (!offset || (offset.x === 0 && offset.y === 0)) return overlay;
+    return { ...overlay, rect: { ...overlay.rect, x: overlay.rect.x + offset.x, y: overlay.rect.y + offset.y } };
+  });
+
+// Aligns to the edge of the selection bounds. A single unit has nothing to align against and is left alone.
+export const alignOverlays = (overlays: TextOverlay[], ids: string[], edge: AlignEdge): TextOverlay[] => {
+  const units = getArrangeUnits(overlays, ids);
+  if (units.length < 2) return overlays;
+  const target = getSelectionBounds(overlays.filter((overlay) => ids.includes(overlay.id))) as Rect;
+
+  const offsets = new Map<string, Point>();
+  units.forEach(({ ids: unitIds, bounds }) => {
+    let dx = 0;
+    let dy = 0;
+    if (edge === 'left') dx = target.x - bounds.x;
+    if (edge === 'center') dx = target.x + target.width / 2 - (bounds.x + bounds.width / 2);
+    if (edge === 'right') dx = target.x + target.width - (bounds.x + bounds.width);
+    if (edge === 'top') dy = target.y - bounds.y;
+    if (edge === 'middle') dy = target.y + target.height / 2 - (bounds.y + bounds.height / 2);
+    if (edge === 'bottom') dy = target.y + target.height - (bounds.y + bounds.height);
+    unitIds.forEach((id) => offsets.set(id, { x: dx, y: dy }));
+  });
+  return applyOffsets(overlays, offsets);
+};
+
+// Keeps the outermost units in place and makes the gaps between neighbours equal.
+export const distributeOverlays = (overlays: TextOverlay[], ids: string[], axis: DistributeAxis): TextOverlay[] => {
+  const units = getArrangeUnits(overlays, ids);
+  if (units.length < 3) return overlays;
+
+  const start = (rect: Rect) => (axis === 'horizontal' ? rect.x : rect.y);
+  const size = (rect: Rect) => (axis === 'horizontal' ? rect.width : rect.height);
+  const sorted = [...units].sort((a, b) => start(a.bounds) - start(b.bounds));
+  const first = sorted[0].bounds;
+  const end = Math.max(...sorted.map(({ bounds }) => start(bounds) + size(bounds)));
+  const occupied = sorted.reduce((sum, { bounds }) => sum + size(bounds), 0);
+  const gap = (end - start(first) - occupied) / (sorted.length - 1);
+
+  const offsets = new Map<string, Point>();
+  let cursor = start(first);
+  sorted.forEach(({ ids: unitIds, bounds }) => {
+    const delta = cursor - start(bounds);
+    unitIds.forEach((id) => offsets.set(id, axis === 'horizontal' ? { x: delta, y: 0 } : { x: 0, y: delta }));
+    cursor += size(bounds) + gap;
+  });
+  return applyOffsets(overlays, offsets);
+};
+
+// Maps every selected overlay from the `from` box into the `to` box. Font sizes are kept;
+// wrap or shrink-to-fit takes care of text that no longer fits.
+export const resizeOverlays = (overlays: TextOverlay[], ids: string[], from: Rect, to: Rect): TextOverlay[] => {
+  const scaleX = from.width > 0 ? to.width / from.width : 1;
+  const scaleY = from.height > 0 ? to.height / from.height : 1;
+  return overlays.map((overlay) => {
+    if (!ids.includes(overlay.id)) return overlay;
+    const center = getRectCenter(overlay.rect);
+    const width = overlay.rect.width * scaleX;
+    const height = overlay.rect.height * scaleY;
+    const newCenter = { x: to.x + (center.x - from.x) * scaleX, y: to.y + (center.y - from.y) * scaleY };
+    return { ...overlay, rect: { x: newCenter.x - width / 2, y: newCenter.y - height / 2, width, height } };
+  });
+};
+
+// Turns the selected overlays around a shared centre by `angle` degrees.
+export const rotateOverlays = (overlays: TextOverlay[], ids: string[], center: Point, angle: number): TextOverlay[] =>
+  overlays.map((overlay) => {
+    if (!ids.includes(overlay.id)) return overlay;
+    const newCenter = rotatePoint(getRectCenter(overlay.rect), center, angle);
+    return {
+      ...overlay,
+      rotation: (overlay.rotation || 0) + angle,
+      rect: { ...overlay.rect, x: newCenter.x - overlay.rect.width / 2, y: newCenter.y - overlay.rect.height / 2 },
+    };
+  });
+
+// Nested groups are not supported: grouping overlays that already belong to a group merges them into the new one.
+export const groupOverlays = (overlays: TextOverlay[], ids: string[], groupId: string): TextOverlay[] => {
+  if (ids.length < 2) return overlays;
+  return overlays.map((overlay) => (ids.includes(overlay.id) ? { ...overlay, groupId } : overlay));
+};
+
+export const ungroupOverlays = (overlays: TextOverlay[], ids: string[]): TextOverlay[] =>
+  overlays.map((overlay) => (ids.includes(overlay.id) && overlay.groupId ? { ...overlay, groupId: undefined } : overlay));
@@ -0,0 +1,64 @@
+import { Point, TextOverlay } from '../types';
+import { createId, createOverlayId } from './id';
+import { normalizeOverlay } from './projectFormat';
+
+// Custom clipboard format, so overlays pasted back into the editor keep every property
+// while other apps only see the plain text.
+export const OVERLAY_CLIPBOARD_MIME = 'application/x-slide-editor-overlays';
+
+interface OverlayClipboardPayload {
+  version: 1;
+  overlays: TextOverlay[];
+}
+
+export const serializeOverlayClipboard = (overlays: TextOverlay[]): string => {
+  const payload: OverlayClipboardPayload = { version: 1, overlays };
+  return JSON.stringify(payload);
+};
+
+// Returns null for anything that is not an overlay payload written by this editor.
+export const parseOverlayClipboard = (data: string): TextOverlay[] | null => {
+  if (!data) return null;
+  let parsed: Partial<OverlayClipboardPayload>;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!parsed || parsed.version !== 1 || !Array.isArray(parsed.overlays)) return null;
+  const overlays = parsed.overlays.filter(
+    (overlay) => overlay && typeof overlay.id === 'string' && overlay.rect && typeof overlay.rect.x === 'number'
+  );
+  return overlays.length > 0 ? overlays.map(normalizeOverlay) : null;
+};
+
+// Pasting onto the spot the copies came from would hide them, so each paste steps further
+// until at least one pasted overlay lands somewhere new.
+export const getPasteOffset = (existing: TextOverlay[], pasted: TextOverlay[], step: number): Point => {
+  if (pasted.length === 0) return { x: 0, y: 0 };
+  const occupied = new Set(existing.map((overlay) => `${overlay.rect.x},${overlay.rect.y}`));
+  let distance = 0;
+  while (pasted.every((overlay) => occupied.has(`${overlay.rect.x + distance},${overlay.rect.y + distance}`))) {
+    distance += step;
+  }
+  return { x: distance, y: distance };
+};
+
+// Copies get fresh ids; copied groups become new groups rather than joining the originals.
+export const cloneOverlaysForPaste = (overlays: TextOverlay[], offset: Point): TextOverlay[] => {
+  const groupIds = new Map<string, string>();
+  return overlays.map((overlay) => {
+    let groupId = overlay.groupId;
+    if (groupId) {
+      if (!groupIds.has(groupId)) groupIds.set(groupId, createId());
+      groupId = groupIds.get(groupId);
+    }
+    return {
+      ...overlay,
+      id: createOverlayId(),
+      groupId,
+      rect: { ...overlay.rect, x: overlay.rect.x + offset.x, y: overlay.rect.y + offset.y },
+      runs: overlay.runs?.map((run) => ({ ...run })),
+    };
+  });
+};
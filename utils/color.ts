@@ -0,0 +1,138 @@
+export interface ParsedColor {
+  hex: string; // 6-digit uppercase hex without '#'
+  alpha: number; // 0..1
+}
+
+const clampByte = (value: number): number => Math.max(0, Math.min(255, Math.round(value)));
+
+export const toHexByte = (value: number): string => clampByte(value).toString(16).padStart(2, '0');
+
+export const rgbToHex = (r: number, g: number, b: number): string =>
+  `#${toHexByte(r)}${toHexByte(g)}${toHexByte(b)}`;
+
+// Parses the color notations the editor produces (#rgb, #rrggbb, #rrggbbaa, rgb(), rgba(), transparent).
+// Returns null for anything it cannot interpret so callers can pick their own fallback.
+export const parseCssColor = (input: string | undefined | null): ParsedColor | null => {
+  if (!input) return null;
+  const value = input.trim().toLowerCase();
+  if (value === 'transparent') return { hex: '000000', alpha: 0 };
+
+  if (value.startsWith('#')) {
+    const raw = value.slice(1);
+    if (!/^[0-9a-f]+$/.test(raw)) return null;
+    if (raw.length === 3 || raw.length === 4) {
+      const [r, g, b, a] = raw.split('').map((c) => parseInt(c + c, 16));
+      return {
+        hex: `${toHexByte(r)}${toHexByte(g)}${toHexByte(b)}`.toUpperCase(),
+        alpha: raw.length === 4 ? a / 255 : 1,
+      };
+    }
+    if (raw.length === 6 || raw.length === 8) {
+      return {
+        hex: raw.slice(0, 6).toUpperCase(),
+        alpha: raw.length === 8 ? parseInt(raw.slice(6, 8), 16) / 255 : 1,
+      };
+    }
+    return null;
+  }
+
+  const fnMatch = value.match(/^rgba?\(([^)]+)\)$/);
+  if (fnMatch) {
+    const parts = fnMatch[1].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length < 3) return null;
+    const [r, g, b] = parts.slice(0, 3).map(Number);
+    if ([r, g, b].some((c) => Number.isNaN(c))) return null;
+    let alpha = 1;
+    if (parts[3] !== undefined) {
+      alpha = parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : Number(parts[3]);
+      if (Number.isNaN(alpha)) alpha = 1;
+    }
+    return {
+      hex: `${toHexByte(r)}${toHexByte(g)}${toHexByte(b)}`.toUpperCase(),
+      alpha: Math.max(0, Math.min(1, alpha)),
+    };
+  }
+
+  return null;
+};
+
+export const isTransparentColor = (input: string | undefined | null): boolean => {
+  if (!input) return true;
+  return parseCssColor(input)?.alpha === 0;
+};
+
+interface ColorBucket {
+  count: number;
+  r: number;
+  g: number;
+  b: number;
+}
+
+const BUCKET_SIZE = 10;
+
+const addToBucket = (buckets: Map<string, ColorBucket>, r: number, g: number, b: number) => {
+  const key = `${Math.round(r / BUCKET_SIZE)},${Math.round(g / BUCKET_SIZE)},${Math.round(b / BUCKET_SIZE)}`;
+  const bucket = buckets.get(key) || { count: 0, r: 0, g: 0, b: 0 };
+  bucket.count++;
+  bucket.r += r;
+  bucket.g += g;
+  bucket.b += b;
+  buckets.set(key, bucket);
+};
+
+const dominantBucketHex = (buckets: Map<string, ColorBucket>): string | null => {
+  let dominant: ColorBucket | null = null;
+  for (const bucket of buckets.values()) {
+    if (!dominant || bucket.count > dominant.count) dominant = bucket;
+  }
+  if (!dominant) return null;
+  return rgbToHex(dominant.r / dominant.count, dominant.g / dominant.count, dominant.b / dominant.count);
+};
+
+// Most frequent color along the edges of an RGBA region (mode over coarse buckets).
+export const detectBorderColor = (data: Uint8ClampedArray, width: number, height: number, depth: number = 5): string => {
+  const buckets = new Map<string, ColorBucket>();
+
+  const addPixel = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    if (data[i + 3] < 50) return;
+    addToBucket(buckets, data[i], data[i + 1], data[i + 2]);
+  };
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < Math.min(depth, height); y++) addPixel(x, y);
+    for (let y = Math.max(0, height - depth); y < height; y++) addPixel(x, y);
+  }
+  for (let y = depth; y < height - depth; y++) {
+    for (let x = 0; x < Math.min(depth, width); x++) addPixel(x, y);
+    for (let x = Math.max(0, width - depth); x < width; x++) addPixel(x, y);
+  }
+
+  return dominantBucketHex(buckets) || '#ffffff';
+};
+
+// Most frequent color among pixels that clearly differ from the background, i.e. the glyph color.
+export const detectForegroundColor = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  backgroundHex: string,
+  minDistance: number = 80
+): string => {
+  const background = parseCssColor(backgroundHex);
+  const bgR = background ? parseInt(background.hex.slice(0, 2), 16) : 255;
+  const bgG = background ? parseInt(background.hex.slice(2, 4), 16) : 255;
+  const bgB = background ? parseInt(background.hex.slice(4, 6), 16) : 255;
+  const buckets = new Map<string, ColorBucket>();
+
+  for (let i = 0; i < width * height * 4; i += 4) {
+    if (data[i + 3] < 50) continue;
+    const distance = Math.abs(data[i] - bgR) + Math.abs(data[i + 1] - bgG) + Math.abs(data[i + 2] - bgB);
+    if (distance >= minDistance) addToBucket(buckets, data[i], data[i + 1], data[i + 2]);
+  }
+
+  const detected = dominantBucketHex(buckets);
+  if (detected) return detected;
+  // Nothing stands out: fall back to whichever of black/white contrasts with the background.
+  return bgR * 0.299 + bgG * 0.587 + bgB * 0.114 > 128 ? '#000000' : '#ffffff';
+};
@@ -0,0 +1,157 @@
+import { SlideData, TextOverlay } from '../types';
+import { compactRuns, runsToText, spliceRuns } from './richText';
+
+export interface FindOptions {
+  query: string;
+  useRegex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface OverlayMatch {
+  key: string; // `${slideIndex}:${overlayId}`, stable while the deck is unchanged
+  slideIndex: number;
+  overlayId: string;
+  newText: string;
+  newTextRanges: TextRange[];
+  originalText: string;
+  originalTextRanges: TextRange[];
+}
+
+export const getMatchKey = (slideIndex: number, overlayId: string): string => `${slideIndex}:${overlayId}`;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Returns null for an empty query and throws a SyntaxError for an invalid regular expression.
+export const buildSearchPattern = (options: FindOptions): RegExp | null => {
+  if (!options.query) return null;
+  let source = options.useRegex ? options.query : escapeRegExp(options.query);
+  if (options.wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  return new RegExp(source, `gu${options.caseSensitive ? '' : 'i'}`);
+};
+
+const findRanges = (text: string, pattern: RegExp): TextRange[] => {
+  const ranges: TextRange[] = [];
+  for (const match of text.matchAll(pattern)) {
+    // Zero-length matches (e.g. /^/) would highlight nothing and replace oddly, so they are ignored.
+    if (match[0].length === 0 || match.index === undefined) continue;
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return ranges;
+};
+
+const isTextOverlay = (overlay: TextOverlay): boolean => overlay.type !== 'image';
+
+// Searches both the current text and the text originally on the slide, so an overlay is found
+// by its source wording even after it has been edited.
+export const findMatches = (slides: SlideData[], options: FindOptions): OverlayMatch[] => {
+  const pattern = buildSearchPattern(options);
+  if (!pattern) return [];
+
+  const matches: OverlayMatch[] = [];
+  slides.forEach((slide, slideIndex) => {
+    slide.overlays.filter(isTextOverlay).forEach((overlay) => {
+      const newTextRanges = findRanges(overlay.newText, pattern);
+      const originalTextRanges = findRanges(overlay.originalText, pattern);
+      if (newTextRanges.length === 0 && originalTextRanges.length === 0) return;
+      matches.push({
+        key: getMatchKey(slideIndex, overlay.id),
+        slideIndex,
+        overlayId: overlay.id,
+        newText: overlay.newText,
+        newTextRanges,
+        originalText: overlay.originalText,
+        originalTextRanges,
+      });
+    });
+  });
+  return matches;
+};
+
+// Expands $$, $&, $1..$99 and $<name> the way String.prototype.replace does.
+const expandReplacement = (
+  template: string,
+  matched: string,
+  groups: (string | undefined)[],
+  namedGroups?: Record<string, string | undefined>
+): string =>
+  template.replace(/\$(\$|&|\d{1,2}|<[^>]*>)/g, (token, key: string) => {
+    if (key === '$') return '$';
+    if (key === '&') return matched;
+    if (key.startsWith('<')) return namedGroups?.[key.slice(1, -1)] ?? '';
+    const index = Number(key);
+    return index >= 1 && index <= groups.length ? groups[index - 1] ?? '' : token;
+  });
+
+interface TextReplacement extends TextRange {
+  text: string;
+}
+
+const collectReplacements = (text: string, options: FindOptions, replacement: string): TextReplacement[] => {
+  const pattern = buildSearchPattern(options);
+  if (!pattern) return [];
+  const replacements: TextReplacement[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const [matched, ...groups] = match;
+    if (matched.length === 0 || match.index === undefined) continue;
+    replacements.push({
+      start: match.index,
+      end: match.index + matched.length,
+      text: options.useRegex ? expandReplacement(replacement, matched, groups, match.groups) : replacement,
+    });
+  }
+  return replacements;
+};
+
+// In regex mode the replacement may use $1-style group references.
+export const replaceText = (text: string, options: FindOptions, replacement: string): string =>
+  collectReplacements(text, options, replacement).reduceRight(
+    (result, { start, end, text: inserted }) => result.slice(0, start) + inserted + result.slice(end),
+    text
+  );
+
+// Only the current text is replaced; originalText records the wording on the slide image, so an
+// overlay that matched only there is left as it is. Styled runs are spliced match by match, so the
+// replacement keeps the style of the text it replaces.
+const replaceInOverlay = (overlay: TextOverlay, options: FindOptions, replacement: string): TextOverlay => {
+  const replacements = collectReplacements(overlay.newText, options, replacement);
+  if (replacements.length === 0) return overlay;
+  const newText = replaceText(overlay.newText, options, replacement);
+  if (newText === overlay.newText) return overlay;
+  if (!overlay.runs || runsToText(overlay.runs) !== overlay.newText) return { ...overlay, newText };
+  const runs = replacements.reduceRight(
+    (result, { start, end, text }) => spliceRuns(result, start, end, text),
+    overlay.runs
+  );
+  return { ...overlay, newText, runs: compactRuns(runs) };
+};
+
+export const replaceInSlides = (
+  slides: SlideData[],
+  options: FindOptions,
+  replacement: string,
+  selectedKeys?: Set<string>
+): { slides: SlideData[]; replacedCount: number } => {
+  let replacedCount = 0;
+
+  const newSlides = slides.map((slide, slideIndex) => {
+    let changed = false;
+    const overlays = slide.overlays.map((overlay) => {
+      if (!isTextOverlay(overlay)) return overlay;
+      if (selectedKeys && !selectedKeys.has(getMatchKey(slideIndex, overlay.id))) return overlay;
+      const replaced = replaceInOverlay(overlay, options, replacement);
+      if (replaced === overlay) return overlay;
+      changed = true;
+      replacedCount++;
+      return replaced;
+    });
+    return changed ? { ...slide, overlays } : slide;
+  });
+
+  return { slides: newSlides, replacedCount };
+};
@@ -0,0 +1,44 @@
+import { FontOption } from '../types';
+
+// OCR reports whatever family name the model guesses ("Malgun Gothic", "Helvetica-Bold", "명조"),
+// so it is resolved against the fonts the editor can actually draw.
+
+const STYLE_SUFFIX = /(regular|bold|italic|oblique|light|thin|medium|semibold|extrabold|black|heavy|mt|ps)+$/;
+
+export const normalizeFontName = (name: string): string =>
+  name
+    .split(',')[0]
+    .trim()
+    .replace(/^["']|["']$/g, '')
+    .toLowerCase()
+    .replace(/[\s_-]+/g, '')
+    .replace(STYLE_SUFFIX, '');
+
+const SERIF_HINTS = ['serif', 'times', 'georgia', 'garamond', 'cambria', 'myeongjo', '명조', 'batang', '바탕', 'mincho', '明朝', 'song', '宋'];
+const MONOSPACE_HINTS = ['mono', 'courier', 'consolas', 'menlo', 'code'];
+
+const getGenericFamily = (normalized: string): 'serif' | 'monospace' | null => {
+  if (MONOSPACE_HINTS.some((hint) => normalized.includes(hint))) return 'monospace';
+  if (normalized.includes('sans')) return null;
+  return SERIF_HINTS.some((hint) => normalized.includes(hint)) ? 'serif' : null;
+};
+
+// Exact name or value, then a display name containing the other (or contained in it), then the generic family the name suggests.
+// Anything else gets the first option, the editor's default sans-serif.
+export const matchFontFamily = (requested: string | undefined, options: FontOption[]): string => {
+  if (options.length === 0) return requested || 'sans-serif';
+  const target = normalizeFontName(requested || '');
+  if (!target) return options[0].value;
+
+  const keys = options.map((option) => ({ option, names: [option.name, option.value].map(normalizeFontName) }));
+  const exact = keys.find(({ names }) => names.includes(target));
+  if (exact) return exact.option.value;
+
+  // Only display names take part here; generic values like 'serif' would match "sans-serif".
+  const partial = keys.find(({ names: [name] }) => name.length >= 3 && (name.includes(target) || target.includes(name)));
+  if (partial) return partial.option.value;
+
+  const generic = getGenericFamily(target);
+  const genericOption = generic && options.find((option) => option.value === generic);
+  return genericOption ? genericOption.value : options[0].value;
+};
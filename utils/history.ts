@@ -0,0 +1,216 @@
+import { SlideData, TextOverlay } from '../types';
+
+// One step of deck history, stored as the slides it replaced rather than a copy of the whole deck.
+// Slides are immutable, so untouched slides are shared between the deck and every patch.
+interface DeckPatch {
+  start: number;
+  removed: SlideData[]; // Slides at `start` before the step
+  inserted: SlideData[]; // Slides at `start` after the step
+}
+
+export interface HistoryEntry {
+  patch: DeckPatch;
+  label: string; // Shown in the history panel, e.g. "슬라이드 4 텍스트 지우기"
+  coalesceKey: string | null;
+  timestamp: number;
+}
+
+export interface DeckHistory {
+  present: SlideData[];
+  past: HistoryEntry[]; // Oldest first
+  future: HistoryEntry[]; // Next redo first
+}
+
+// A named deck state the user can return to. It holds slide references, not copies,
+// so it stays valid however far the capped history moves on. Project files save it too.
+export interface HistoryCheckpoint {
+  id: string;
+  name: string;
+  createdAt: number;
+  slides: SlideData[];
+}
+
+// What the undo history may hold on to. Oldest steps are dropped first when either bound is passed.
+export interface HistoryCap {
+  limit: number; // Undo steps
+  maxBytes?: number; // Length of the slide images only the history still references; unbounded when omitted
+}
+
+export interface PushHistoryOptions extends HistoryCap {
+  label: string;
+  coalesceWindowMs: number;
+  coalesceKey?: string | null; // Consecutive pushes with the same key and label inside the window merge into one step
+  now?: number;
+}
+
+export const createHistory = (slides: SlideData[]): DeckHistory => ({ present: slides, past: [], future: [] });
+
+// Slides compare by reference: the unchanged head and tail are shared, so only the middle is stored.
+const diffDecks = (before: SlideData[], after: SlideData[]): DeckPatch | null => {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let beforeEnd = before.length;
+  let afterEnd = after.length;
+  while (beforeEnd > start && afterEnd > start && before[beforeEnd - 1] === after[afterEnd - 1]) {
+    beforeEnd--;
+    afterEnd--;
+  }
+  if (beforeEnd === start && afterEnd === start) return null;
+  return { start, removed: before.slice(start, beforeEnd), inserted: after.slice(start, afterEnd) };
+};
+
+const undoPatch = (slides: SlideData[], { start, removed, inserted }: DeckPatch): SlideData[] => {
+  const next = [...slides];
+  next.splice(start, inserted.length, ...removed);
+  return next;
+};
+
+const redoPatch = (slides: SlideData[], { start, removed, inserted }: DeckPatch): SlideData[] => {
+  const next = [...slides];
+  next.splice(start, removed.length, ...inserted);
+  return next;
+};
+
+// Each image is counted once, and images the present deck or the redo steps already hold are
+// counted before any undo step. The newest undo step is always kept.
+const trimPastToBudget = (present: SlideData[], past: HistoryEntry[], future: HistoryEntry[], maxBytes: number): HistoryEntry[] => {
+  const seen = new Set(present.map((slide) => slide.dataUrl));
+  let bytes = 0;
+  const countImages = (entry: HistoryEntry) => {
+    [...entry.patch.removed, ...entry.patch.inserted].forEach(({ dataUrl }) => {
+      if (seen.has(dataUrl)) return;
+      seen.add(dataUrl);
+      bytes += dataUrl.length;
+    });
+  };
+  future.forEach(countImages);
+  for (let i = past.length - 1; i >= 0; i--) {
+    countImages(past[i]);
+    if (bytes > maxBytes && i < past.length - 1) return past.slice(i + 1);
+  }
+  return past;
+};
+
+const capPast = (present: SlideData[], past: HistoryEntry[], future: HistoryEntry[], { limit, maxBytes }: HistoryCap): HistoryEntry[] => {
+  const kept = past.slice(Math.max(0, past.length - limit));
+  return maxBytes === undefined ? kept : trimPastToBudget(present, kept, future, maxBytes);
+};
+
+export const canUndo = (history: DeckHistory): boolean => history.past.length > 0;
+export const canRedo = (history: DeckHistory): boolean => history.future.length > 0;
+
+export const pushHistory = (history: DeckHistory, slides: SlideData[], options: PushHistoryOptions): DeckHistory => {
+  const { label, coalesceWindowMs, coalesceKey = null, now = Date.now() } = options;
+  const last = history.past[history.past.length - 1];
+
+  // Continuous typing or dragging keeps replacing the same step. The window is measured from the
+  // last merged edit, so the step grows until the user pauses for longer than the window.
+  if (
+    last &&
+    coalesceKey !== null &&
+    last.coalesceKey === coalesceKey &&
+    last.label === label &&
+    history.future.length === 0 &&
+    now - last.timestamp <= coalesceWindowMs
+  ) {
+    const base = undoPatch(history.present, last.patch);
+    const patch = diffDecks(base, slides);
+    const past = history.past.slice(0, -1);
+    return {
+      present: slides,
+      past: patch ? capPast(slides, [...past, { patch, label, coalesceKey, timestamp: now }], [], options) : past,
+      future: [],
+    };
+  }
+
+  const patch = diffDecks(history.present, slides);
+  if (!patch) return history;
+  const past = [...history.past, { patch, label, coalesceKey, timestamp: now }];
+  return { present: slides, past: capPast(slides, past, [], options), future: [] };
+};
+
+export const undoHistory = (history: DeckHistory): DeckHistory => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return history;
+  return {
+    present: undoPatch(history.present, entry.patch),
+    past: history.past.slice(0, -1),
+    future: [entry, ...history.future],
+  };
+};
+
+export const redoHistory = (history: DeckHistory): DeckHistory => {
+  const [entry, ...future] = history.future;
+  if (!entry) return history;
+  return {
+    present: redoPatch(history.present, entry.patch),
+    past: [...history.past, entry],
+    future,
+  };
+};
+
+// `position` counts applied steps: 0 is the oldest state still kept, past.length is the present.
+export const jumpToHistory = (history: DeckHistory, position: number): DeckHistory => {
+  let next = history;
+  while (next.past.length > position && canUndo(next)) next = undoHistory(next);
+  while (next.past.length < position && canRedo(next)) next = redoHistory(next);
+  return next;
+};
+
+// Project files store history as full decks; these convert to and from that form.
+// labels[i] names the step that leads from snapshot i to snapshot i + 1.
+export const getHistorySnapshots = (history: DeckHistory): { snapshots: SlideData[][]; index: number; labels: string[] } => {
+  const before: SlideData[][] = [];
+  let deck = history.present;
+  for (let i = history.past.length - 1; i >= 0; i--) {
+    deck = undoPatch(deck, history.past[i].patch);
+    before.unshift(deck);
+  }
+  const after: SlideData[][] = [];
+  deck = history.present;
+  history.future.forEach((entry) => {
+    deck = redoPatch(deck, entry.patch);
+    after.push(deck);
+  });
+  const labels = [...history.past, ...history.future].map((entry) => entry.label);
+  return { snapshots: [...before, history.present, ...after], index: before.length, labels };
+};
+
+// Steps without a stored label (files saved before labels were kept) get `fallbackLabel`.
+// `cap` bounds the undo steps the same way pushHistory does, so a long saved history loads bounded too.
+export const createHistoryFromSnapshots = (
+  snapshots: SlideData[][],
+  index: number,
+  fallbackLabel: string,
+  labels: string[] = [],
+  cap?: HistoryCap
+): DeckHistory => {
+  const toEntry = (step: number): HistoryEntry | null => {
+    const patch = diffDecks(snapshots[step], snapshots[step + 1]);
+    return patch ? { patch, label: labels[step] || fallbackLabel, coalesceKey: null, timestamp: 0 } : null;
+  };
+  const past: HistoryEntry[] = [];
+  for (let step = 0; step < index; step++) {
+    const entry = toEntry(step);
+    if (entry) past.push(entry);
+  }
+  const future: HistoryEntry[] = [];
+  for (let step = index; step < snapshots.length - 1; step++) {
+    const entry = toEntry(step);
+    if (entry) future.push(entry);
+  }
+  const present = snapshots[index] || [];
+  return { present, past: cap ? capPast(present, past, future, cap) : past, future };
+};
+
+// Key for an overlay edit on one slide, so repeated edits of the same overlays (typing into one
+// text box, dragging a selection) can coalesce. Adding, removing or reordering overlays gets none.
+export const getOverlayEditKey = (slideIndex: number, before: TextOverlay[], after: TextOverlay[]): string | null => {
+  if (before.length !== after.length) return null;
+  const changedIds: string[] = [];
+  for (let i = 0; i < before.length; i++) {
+    if (before[i].id !== after[i].id) return null;
+    if (before[i] !== after[i]) changedIds.push(after[i].id);
+  }
+  return changedIds.length > 0 ? `overlays:${slideIndex}:${changedIds.join(',')}` : null;
+};
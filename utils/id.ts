@@ -1,6 +1,8 @@
-export const createOverlayId = (): string => {
+export const createId = (): string => {
   if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
     return crypto.randomUUID();
   }
   return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
 };
+
+export const createOverlayId = createId;
@@ -0,0 +1,159 @@
+import { Rect } from '../types';
+
+export const DEFAULT_INPAINT_RADIUS = 5;
+
+// A region to fill. `rotation` turns it clockwise in degrees around its centre, like a rotated overlay.
+export type MaskRect = Rect & { rotation?: number };
+
+const fillRotatedRect = (mask: Uint8Array, width: number, height: number, rect: MaskRect, padding: number) => {
+  const rad = ((rect.rotation || 0) * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const cx = rect.x + rect.width / 2;
+  const cy = rect.y + rect.height / 2;
+  // Half a pixel diagonal of slack, so pixels the rotated edge only partly covers are filled too.
+  const halfWidth = rect.width / 2 + padding + Math.SQRT1_2;
+  const halfHeight = rect.height / 2 + padding + Math.SQRT1_2;
+  const reach = Math.hypot(halfWidth, halfHeight);
+  const top = Math.max(0, Math.floor(cy - reach));
+  const bottom = Math.min(height, Math.ceil(cy + reach));
+  const left = Math.max(0, Math.floor(cx - reach));
+  const right = Math.min(width, Math.ceil(cx + reach));
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      // Pixel centre turned back into the unrotated frame of the rect.
+      const dx = x + 0.5 - cx;
+      const dy = y + 0.5 - cy;
+      const u = dx * cos + dy * sin;
+      const v = -dx * sin + dy * cos;
+      if (Math.abs(u) <= halfWidth && Math.abs(v) <= halfHeight) mask[y * width + x] = 1;
+    }
+  }
+};
+
+// Marks the given rectangles (optionally grown by `padding`) as the region to fill.
+export const createRectMask = (width: number, height: number, rects: MaskRect[], padding: number = 0): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+  for (const rect of rects) {
+    if (rect.rotation && rect.rotation % 360 !== 0) {
+      fillRotatedRect(mask, width, height, rect, padding);
+      continue;
+    }
+    const left = Math.max(0, Math.floor(rect.x - padding));
+    const top = Math.max(0, Math.floor(rect.y - padding));
+    const right = Math.min(width, Math.ceil(rect.x + rect.width + padding));
+    const bottom = Math.min(height, Math.ceil(rect.y + rect.height + padding));
+    for (let y = top; y < bottom; y++) {
+      mask.fill(1, y * width + left, y * width + right);
+    }
+  }
+  return mask;
+};
+
+// Fills masked pixels from their surroundings, in the spirit of Telea's fast marching inpainting:
+// the hole is peeled from its boundary inwards one layer at a time, and every pixel becomes a
+// weighted average of first-order estimates (value plus gradient times offset) from already-known
+// pixels within `radius`, favouring close pixels and pixels from neighbouring layers.
+// Pixels in a hole with no known pixels at all (a fully masked image) are left untouched.
+export const inpaintTelea = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  mask: ArrayLike<number>,
+  radius: number = DEFAULT_INPAINT_RADIUS
+): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(pixels);
+  const size = width * height;
+  // 0 = known, -1 = still to fill, n > 0 = filled in layer n.
+  const level = new Int32Array(size);
+  for (let i = 0; i < size; i++) {
+    if (mask[i]) level[i] = -1;
+  }
+
+  const offsets: { dx: number; dy: number; distanceWeight: number }[] = [];
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const d2 = dx * dx + dy * dy;
+      if (d2 === 0 || d2 > radius * radius) continue;
+      offsets.push({ dx, dy, distanceWeight: 1 / d2 });
+    }
+  }
+
+  const queued = new Uint8Array(size);
+  const pushUnknownNeighbours = (index: number, into: number[]) => {
+    const x = index % width;
+    const y = (index - x) / width;
+    const neighbours = [
+      x > 0 ? index - 1 : -1,
+      x < width - 1 ? index + 1 : -1,
+      y > 0 ? index - width : -1,
+      y < height - 1 ? index + width : -1,
+    ];
+    for (const n of neighbours) {
+      if (n >= 0 && level[n] === -1 && !queued[n]) {
+        queued[n] = 1;
+        into.push(n);
+      }
+    }
+  };
+
+  let frontier: number[] = [];
+  for (let i = 0; i < size; i++) {
+    if (level[i] === 0) pushUnknownNeighbours(i, frontier);
+  }
+
+  const isKnown = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && level[y * width + x] >= 0;
+
+  // Central difference where both sides are known, one-sided otherwise, zero when isolated.
+  const gradient = (x: number, y: number, c: number, dx: number, dy: number): number => {
+    const at = (px: number, py: number) => out[(py * width + px) * 4 + c];
+    const forward = isKnown(x + dx, y + dy);
+    const backward = isKnown(x - dx, y - dy);
+    if (forward && backward) return (at(x + dx, y + dy) - at(x - dx, y - dy)) / 2;
+    if (forward) return at(x + dx, y + dy) - at(x, y);
+    if (backward) return at(x, y) - at(x - dx, y - dy);
+    return 0;
+  };
+
+  const filled = new Float32Array(4);
+  for (let layer = 1; frontier.length > 0; layer++) {
+    const values = new Uint8ClampedArray(frontier.length * 4);
+
+    frontier.forEach((index, f) => {
+      const x = index % width;
+      const y = (index - x) / width;
+      let total = 0;
+      filled.fill(0);
+
+      for (const { dx, dy, distanceWeight } of offsets) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const n = ny * width + nx;
+        if (level[n] < 0) continue;
+        const weight = distanceWeight / (1 + Math.abs(layer - level[n]));
+        for (let c = 0; c < 4; c++) {
+          const estimate = out[n * 4 + c] - gradient(nx, ny, c, 1, 0) * dx - gradient(nx, ny, c, 0, 1) * dy;
+          filled[c] += estimate * weight;
+        }
+        total += weight;
+      }
+
+      if (total > 0) {
+        for (let c = 0; c < 4; c++) values[f * 4 + c] = filled[c] / total;
+      } else {
+        values.set(out.subarray(index * 4, index * 4 + 4), f * 4);
+      }
+    });
+
+    const next: number[] = [];
+    frontier.forEach((index, f) => {
+      out.set(values.subarray(f * 4, f * 4 + 4), index * 4);
+      level[index] = layer;
+    });
+    frontier.forEach((index) => pushUnknownNeighbours(index, next));
+    frontier = next;
+  }
+
+  return out;
+};
@@ -0,0 +1,54 @@
+import { TextOverlay } from '../types';
+
+// Overlays are stacked in array order: the last one is drawn on top.
+
+export const isOverlayVisible = (overlay: TextOverlay): boolean => !overlay.hidden;
+
+// Whether the canvas may pick, select or move the overlay.
+export const isOverlayEditable = (overlay: TextOverlay): boolean => !overlay.hidden && !overlay.locked;
+
+export const getVisibleOverlays = (overlays: TextOverlay[]): TextOverlay[] => overlays.filter(isOverlayVisible);
+
+// Moves one overlay to `toIndex` in the stacking order, shifting the others.
+export const moveOverlayToIndex = (overlays: TextOverlay[], id: string, toIndex: number): TextOverlay[] => {
+  const fromIndex = overlays.findIndex((overlay) => overlay.id === id);
+  if (fromIndex === -1) return overlays;
+  const target = Math.min(Math.max(toIndex, 0), overlays.length - 1);
+  if (target === fromIndex) return overlays;
+  const next = [...overlays];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(target, 0, moved);
+  return next;
+};
+
+// Each selected overlay swaps places with the unselected neighbour above it, so a selection
+// moves up one step together and keeps its own order.
+export const bringForward = (overlays: TextOverlay[], ids: string[]): TextOverlay[] => {
+  const next = [...overlays];
+  for (let i = next.length - 2; i >= 0; i--) {
+    if (ids.includes(next[i].id) && !ids.includes(next[i + 1].id)) {
+      [next[i], next[i + 1]] = [next[i + 1], next[i]];
+    }
+  }
+  return next;
+};
+
+export const sendBackward = (overlays: TextOverlay[], ids: string[]): TextOverlay[] => {
+  const next = [...overlays];
+  for (let i = 1; i < next.length; i++) {
+    if (ids.includes(next[i].id) && !ids.includes(next[i - 1].id)) {
+      [next[i], next[i - 1]] = [next[i - 1], next[i]];
+    }
+  }
+  return next;
+};
+
+export const bringToFront = (overlays: TextOverlay[], ids: string[]): TextOverlay[] => [
+  ...overlays.filter((overlay) => !ids.includes(overlay.id)),
+  ...overlays.filter((overlay) => ids.includes(overlay.id)),
+];
+
+export const sendToBack = (overlays: TextOverlay[], ids: string[]): TextOverlay[] => [
+  ...overlays.filter((overlay) => ids.includes(overlay.id)),
+  ...overlays.filter((overlay) => !ids.includes(overlay.id)),
+];
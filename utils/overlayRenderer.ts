@@ -0,0 +1,157 @@
+import { Rect, TextOverlay } from '../types';
+import { LayoutLine, TextLayoutInput, createCanvasTextMeasurer, getOverlayFont, layoutText } from './textLayout';
+import { RenderTextSpan, getOverlayTextSpans } from './richText';
+
+// Canvas drawing shared by the editor and every export, so an overlay looks the same everywhere.
+// Images are passed in already loaded: the editor keeps them cached, exports preload them.
+
+export type RenderableOverlay = Partial<TextOverlay> & { rect: Rect };
+
+export interface OverlayImages {
+  image?: CanvasImageSource | null; // content of an image overlay
+  background?: CanvasImageSource | null; // backgroundImage of a text overlay
+}
+
+export interface DrawOverlayOptions {
+  skipText?: boolean;
+}
+
+// Canvas 'top' baseline sits above the glyphs, so text is pushed down by 5% of the font size
+// on top of being centred in its line (15% in total at the default 1.2 line height).
+const TEXT_Y_NUDGE_RATIO = 0.05;
+// Approximate distance from the em box top to the alphabetic baseline, used to line up mixed sizes.
+const ASCENT_RATIO = 0.8;
+const UNDERLINE_OFFSET_RATIO = 0.1;
+
+// Rotation and flips are applied around the rect center, in that order.
+export const applyOverlayTransform = (ctx: CanvasRenderingContext2D, overlay: RenderableOverlay) => {
+  const cx = overlay.rect.x + overlay.rect.width / 2;
+  const cy = overlay.rect.y + overlay.rect.height / 2;
+
+  ctx.translate(cx, cy);
+  if (overlay.rotation) ctx.rotate((overlay.rotation * Math.PI) / 180);
+  if (overlay.flipHorizontal) ctx.scale(-1, 1);
+  if (overlay.flipVertical) ctx.scale(1, -1);
+  ctx.translate(-cx, -cy);
+};
+
+export const getOverlayLayoutInput = (overlay: RenderableOverlay): TextLayoutInput<RenderTextSpan> => ({
+  spans: getOverlayTextSpans(overlay),
+  box: overlay.rect,
+  fontSize: overlay.fontSize || 16,
+  letterSpacing: overlay.letterSpacing,
+  lineHeight: overlay.lineHeight,
+  paragraphSpacing: overlay.paragraphSpacing,
+  fitMode: overlay.fitMode,
+});
+
+// Line breaks and the effective font sizes after the overlay's fit mode is applied.
+export const layoutOverlayText = (ctx: CanvasRenderingContext2D, overlay: RenderableOverlay) =>
+  layoutText(getOverlayLayoutInput(overlay), createCanvasTextMeasurer(ctx, overlay.fontWeight, overlay.fontFamily, overlay.fontStyle));
+
+// Where a line's text goes with the canvas 'top' baseline, relative to the top of the text block.
+export const getLineTextTop = (line: LayoutLine) =>
+  line.top + (line.height - line.fontSize) / 2 + line.fontSize * TEXT_Y_NUDGE_RATIO;
+
+// Canvas shadows ignore the current transform, so the offset and blur are mapped through it by hand.
+// That keeps the shadow the same in the zoomed editor, in exports and on rotated overlays.
+const applyTextShadow = (ctx: CanvasRenderingContext2D, overlay: RenderableOverlay, scale: number) => {
+  const { shadow } = overlay;
+  if (!shadow) return;
+  const { a, b, c, d } = ctx.getTransform();
+  const offsetX = shadow.offsetX * scale;
+  const offsetY = shadow.offsetY * scale;
+  ctx.shadowColor = shadow.color;
+  ctx.shadowBlur = shadow.blur * scale * Math.hypot(a, b);
+  ctx.shadowOffsetX = a * offsetX + c * offsetY;
+  ctx.shadowOffsetY = b * offsetX + d * offsetY;
+};
+
+const drawOverlayText = (ctx: CanvasRenderingContext2D, overlay: RenderableOverlay) => {
+  if (!overlay.newText) return;
+  const { rect } = overlay;
+  const layout = layoutOverlayText(ctx, overlay);
+
+  if (ctx.letterSpacing !== undefined) ctx.letterSpacing = `${layout.letterSpacing}px`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+
+  let blockTop = rect.y;
+  if (overlay.vAlign === 'middle') blockTop = rect.y + (rect.height - layout.height) / 2;
+  else if (overlay.vAlign === 'bottom') blockTop = rect.y + rect.height - layout.height;
+
+  const fragments = layout.lines.flatMap((line) => {
+    let lineLeft = rect.x;
+    if (overlay.hAlign === 'center') lineLeft = rect.x + (rect.width - line.width) / 2;
+    else if (overlay.hAlign === 'right') lineLeft = rect.x + rect.width - line.width;
+
+    // Fragments of different sizes share one baseline, placed for the line's largest font.
+    const baseline = blockTop + getLineTextTop(line) + line.fontSize * ASCENT_RATIO;
+    return line.fragments.map((fragment) => ({ ...fragment, x: lineLeft + fragment.x, baseline }));
+  });
+
+  const drawPass = (paint: (fragment: (typeof fragments)[number]) => void) =>
+    fragments.forEach((fragment) => {
+      ctx.font = getOverlayFont(fragment.span.fontWeight, fragment.fontSize, overlay.fontFamily, fragment.span.fontStyle);
+      paint(fragment);
+    });
+
+  // Strokes all go down before any fill so an outline never covers a neighbouring glyph, and the
+  // shadow is cast by the first pass only.
+  ctx.save();
+  applyTextShadow(ctx, overlay, layout.scale);
+  const strokeWidth = (overlay.stroke?.width || 0) * layout.scale;
+  if (overlay.stroke && strokeWidth > 0) {
+    ctx.strokeStyle = overlay.stroke.color;
+    ctx.lineWidth = strokeWidth * 2;
+    ctx.lineJoin = 'round';
+    drawPass(({ text, x, baseline, fontSize }) => ctx.strokeText(text, x, baseline - fontSize * ASCENT_RATIO));
+    ctx.shadowColor = 'transparent';
+  }
+  drawPass(({ span, text, x, baseline, fontSize, width }) => {
+    ctx.fillStyle = span.color;
+    ctx.fillText(text, x, baseline - fontSize * ASCENT_RATIO);
+    if (span.underline) {
+      const thickness = Math.max(1, fontSize / 16);
+      ctx.fillRect(x, baseline + fontSize * UNDERLINE_OFFSET_RATIO, width, thickness);
+    }
+  });
+  ctx.restore();
+  if (ctx.letterSpacing !== undefined) ctx.letterSpacing = '0px';
+};
+
+// Draws the overlay in its own (untransformed) coordinates; callers apply the transform.
+export const drawOverlayContent = (
+  ctx: CanvasRenderingContext2D,
+  overlay: RenderableOverlay,
+  images: OverlayImages,
+  options: DrawOverlayOptions = {}
+) => {
+  const { rect } = overlay;
+
+  if (overlay.type === 'image') {
+    if (images.image) ctx.drawImage(images.image, rect.x, rect.y, rect.width, rect.height);
+    return;
+  }
+
+  if (images.background) {
+    ctx.drawImage(images.background, rect.x, rect.y, rect.width, rect.height);
+  } else {
+    ctx.fillStyle = overlay.backgroundColor || 'transparent';
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+  }
+
+  if (!options.skipText) drawOverlayText(ctx, overlay);
+};
+
+export const drawOverlay = (
+  ctx: CanvasRenderingContext2D,
+  overlay: RenderableOverlay,
+  images: OverlayImages,
+  options: DrawOverlayOptions = {}
+) => {
+  ctx.save();
+  applyOverlayTransform(ctx, overlay);
+  drawOverlayContent(ctx, overlay, images, options);
+  ctx.restore();
+};
@@ -0,0 +1,69 @@
+import { TextOverlay } from '../types';
+import { getLineTextTop, getOverlayLayoutInput } from './overlayRenderer';
+import { MeasureTextWidth, layoutText } from './textLayout';
+
+// One invisible line of the searchable PDF layer, in slide pixels.
+export interface TextLayerLine {
+  text: string;
+  x: number; // Top-left corner of the line after flips and rotation
+  y: number;
+  angle: number; // Degrees counter-clockwise, as PDF expects; canvas rotation is clockwise in y-down space
+  fontSize: number;
+  width: number; // Width of the line as rendered, which the PDF text is stretched to
+}
+
+// jsPDF's built-in fonts encode WinAnsi only, so anything outside Latin-1 would come out garbled.
+export const isLatin1Text = (text: string): boolean => /^[\u0000-\u00ff]*$/.test(text);
+
+// jsPDF can only embed fonts with TrueType outlines. Their sfnt version is 0x00010000 or 'true',
+// which base64-encode to these prefixes; CFF-based OpenType and WOFF files start differently.
+export const isTrueTypeFontDataUrl = (dataUrl: string): boolean => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return base64.startsWith('AAEAAA') || base64.startsWith('dHJ1ZQ');
+};
+
+// The overlay's own font is tried first, so its lines keep the face they were set in; the rest are fallbacks.
+export const orderTextLayerFonts = (families: string[], overlayFamily: string): string[] => [
+  ...families.filter((family) => family === overlayFamily),
+  ...families.filter((family) => family !== overlayFamily),
+];
+
+const rotateAround = (x: number, y: number, cx: number, cy: number, degrees: number) => {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = x - cx;
+  const dy = y - cy;
+  return { x: cx + dx * cos - dy * sin, y: cy + dx * sin + dy * cos };
+};
+
+// Positions each line with the same metrics as renderSlideToCanvas, so selections line up with the pixels.
+// Flipped overlays keep their text readable: each line's box is mirrored, not the glyphs.
+export const getTextLayerLines = (overlay: TextOverlay, measure: MeasureTextWidth): TextLayerLine[] => {
+  if (overlay.type === 'image' || !overlay.newText.trim()) return [];
+
+  const layout = layoutText(getOverlayLayoutInput(overlay), measure);
+  const { rect } = overlay;
+  let blockTop = rect.y;
+  if (overlay.vAlign === 'middle') blockTop = rect.y + (rect.height - layout.height) / 2;
+  else if (overlay.vAlign === 'bottom') blockTop = rect.y + rect.height - layout.height;
+
+  const cx = rect.x + rect.width / 2;
+  const cy = rect.y + rect.height / 2;
+  const rotation = overlay.rotation || 0;
+
+  return layout.lines
+    .filter((line) => line.text.trim())
+    .map((line) => {
+      let left = rect.x;
+      if (overlay.hAlign === 'center') left = cx - line.width / 2;
+      else if (overlay.hAlign === 'right') left = rect.x + rect.width - line.width;
+      let top = blockTop + getLineTextTop(line);
+
+      if (overlay.flipHorizontal) left = 2 * cx - left - line.width;
+      if (overlay.flipVertical) top = 2 * cy - top - line.fontSize;
+
+      const anchor = rotateAround(left, top, cx, cy, rotation);
+      return { text: line.text, x: anchor.x, y: anchor.y, angle: rotation ? -rotation : 0, fontSize: line.fontSize, width: line.width };
+    });
+};
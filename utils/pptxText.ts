@@ -0,0 +1,69 @@
+import type PptxGenJS from 'pptxgenjs';
+import { TextOverlay } from '../types';
+import { parseCssColor } from './color';
+import { RenderTextSpan, isBoldWeight } from './richText';
+import { TextLayout } from './textLayout';
+
+export const PX_PER_INCH = 96;
+const PT_PER_PX = 72 / PX_PER_INCH;
+
+export const pxToInches = (px: number): number => px / PX_PER_INCH;
+export const pxToPoints = (px: number): number => px * PT_PER_PX;
+
+// `scale` maps a slide's own pixel space onto the deck layout, which is sized from the first slide.
+export const getPptxPositionProps = (overlay: TextOverlay, scale: number) => ({
+  x: pxToInches(overlay.rect.x * scale),
+  y: pxToInches(overlay.rect.y * scale),
+  w: pxToInches(overlay.rect.width * scale),
+  h: pxToInches(overlay.rect.height * scale),
+  rotate: overlay.rotation ? ((overlay.rotation % 360) + 360) % 360 : undefined,
+  flipH: overlay.flipHorizontal || undefined,
+  flipV: overlay.flipVertical || undefined,
+});
+
+export const toTextColorProps = (cssColor: string) => {
+  const color = parseCssColor(cssColor);
+  return {
+    color: color?.hex || '000000',
+    transparency: color && color.alpha < 1 ? Math.round((1 - color.alpha) * 100) : undefined,
+  };
+};
+
+// Maps laid-out lines onto PowerPoint text runs. Typed line breaks end a paragraph;
+// wrapped lines continue it with a soft break, so PowerPoint keeps the canvas line breaks.
+export const buildPptxTextRuns = (
+  layout: TextLayout<RenderTextSpan>,
+  overlay: Pick<TextOverlay, 'stroke' | 'paragraphSpacing'>,
+  scale: number
+): PptxGenJS.TextProps[] => {
+  const strokeWidth = (overlay.stroke?.width || 0) * layout.scale;
+  // PowerPoint centres the outline on the glyph edge and draws it over the fill.
+  const outline = overlay.stroke && strokeWidth > 0
+    ? { color: toTextColorProps(overlay.stroke.color).color, size: pxToPoints(strokeWidth * scale) }
+    : undefined;
+  const paraSpaceBefore = overlay.paragraphSpacing
+    ? pxToPoints(overlay.paragraphSpacing * layout.scale * scale)
+    : undefined;
+
+  return layout.lines.flatMap((line, lineIndex) => {
+    const next = layout.lines[lineIndex + 1];
+    const breakLine = !!next && next.paragraph !== line.paragraph;
+    const softBreakBefore = lineIndex > 0 && layout.lines[lineIndex - 1].paragraph === line.paragraph;
+    const paragraphOptions = { paraSpaceBefore: line.paragraph > 0 ? paraSpaceBefore : undefined };
+    if (line.fragments.length === 0) return [{ text: '', options: { ...paragraphOptions, breakLine } }];
+    return line.fragments.map((fragment, fragmentIndex) => ({
+      text: fragment.text,
+      options: {
+        ...paragraphOptions,
+        ...toTextColorProps(fragment.span.color),
+        fontSize: pxToPoints(fragment.fontSize * scale),
+        bold: isBoldWeight(fragment.span.fontWeight),
+        italic: fragment.span.fontStyle === 'italic' || undefined,
+        underline: fragment.span.underline ? { style: 'sng' as const } : undefined,
+        outline,
+        softBreakBefore: softBreakBefore && fragmentIndex === 0,
+        breakLine: breakLine && fragmentIndex === line.fragments.length - 1,
+      },
+    }));
+  });
+};
@@ -0,0 +1,292 @@
+import { CustomFont, Guide, SlideData, TextOverlay } from '../types';
+import { HistoryCheckpoint } from './history';
+
+export const PROJECT_FILE_EXTENSION = '.slideproj';
+export const PROJECT_MANIFEST_PATH = 'project.json';
+export const PROJECT_SCHEMA_VERSION = 4;
+
+// Image and font payloads are stored as separate zip entries; the manifest references them by path.
+export type AssetRef = string;
+
+export type ProjectOverlay = Omit<TextOverlay, 'imageSrc' | 'backgroundImage'> & {
+  imageSrc?: AssetRef;
+  backgroundImage?: AssetRef;
+};
+
+export type ProjectFont = Omit<CustomFont, 'dataUrl'> & { file: AssetRef };
+
+export interface ProjectSlide {
+  index: number;
+  width: number;
+  height: number;
+  image: AssetRef;
+  overlays: ProjectOverlay[];
+  guides?: Guide[];
+  original?: { image: AssetRef; overlays: ProjectOverlay[] };
+}
+
+export type ProjectCheckpoint = Omit<HistoryCheckpoint, 'slides'> & { slides: ProjectSlide[] };
+
+export interface ProjectManifest {
+  schemaVersion: number;
+  name: string;
+  createdAt: string;
+  savedAt: string;
+  slideCount: number;
+  history: ProjectSlide[][];
+  historyIndex: number;
+  historyLabels: string[]; // historyLabels[i] names the step from history[i] to history[i + 1]
+  checkpoints: ProjectCheckpoint[];
+  fonts: ProjectFont[];
+  guides: Guide[]; // Deck-wide ruler guides
+}
+
+export interface ProjectContent {
+  name: string;
+  createdAt?: string;
+  history: SlideData[][];
+  historyIndex: number;
+  historyLabels?: string[];
+  checkpoints?: HistoryCheckpoint[];
+  fonts?: CustomFont[];
+  guides?: Guide[];
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+  'font/woff': 'woff',
+  'font/woff2': 'woff2',
+};
+
+export const getDataUrlMimeType = (dataUrl: string): string => {
+  const match = dataUrl.match(/^data:([^;,]+)[;,]/);
+  return match?.[1] || 'application/octet-stream';
+};
+
+export const getMimeTypeForAssetPath = (path: string): string => {
+  const ext = path.split('.').pop()?.toLowerCase();
+  const entry = Object.entries(MIME_EXTENSIONS).find(([, value]) => value === ext);
+  return entry?.[0] || 'application/octet-stream';
+};
+
+export interface ProjectAssetTable {
+  intern: (dataUrl: string) => AssetRef;
+  entries: () => Array<{ path: AssetRef; dataUrl: string }>;
+}
+
+// Collects every distinct data URL once; history snapshots share most images so this keeps files small.
+export const createAssetTable = (): ProjectAssetTable => {
+  const pathsByDataUrl = new Map<string, AssetRef>();
+
+  return {
+    intern: (dataUrl) => {
+      const existing = pathsByDataUrl.get(dataUrl);
+      if (existing) return existing;
+      const ext = MIME_EXTENSIONS[getDataUrlMimeType(dataUrl)] || 'bin';
+      const path = `assets/${pathsByDataUrl.size + 1}.${ext}`;
+      pathsByDataUrl.set(dataUrl, path);
+      return path;
+    },
+    entries: () => Array.from(pathsByDataUrl, ([dataUrl, path]) => ({ path, dataUrl })),
+  };
+};
+
+// Fills fields that older files (or older TextOverlay shapes) may not carry.
+export const normalizeOverlay = (overlay: Partial<TextOverlay> & { id: string; rect: TextOverlay['rect'] }): TextOverlay => ({
+  ...overlay,
+  type: overlay.type || 'text',
+  rect: { ...overlay.rect },
+  originalText: overlay.originalText ?? '',
+  newText: overlay.newText ?? '',
+  fontSize: overlay.fontSize ?? 16,
+  fontWeight: overlay.fontWeight || 'normal',
+  fontColor: overlay.fontColor || '#000000',
+  fontFamily: overlay.fontFamily || 'Inter',
+  backgroundColor: overlay.backgroundColor || 'rgba(0,0,0,0)',
+  vAlign: overlay.vAlign || 'middle',
+  hAlign: overlay.hAlign || 'left',
+  letterSpacing: overlay.letterSpacing ?? 0,
+  rotation: overlay.rotation ?? 0,
+  flipHorizontal: overlay.flipHorizontal ?? false,
+  flipVertical: overlay.flipVertical ?? false,
+});
+
+const serializeOverlay = (overlay: TextOverlay, assets: ProjectAssetTable): ProjectOverlay => ({
+  ...overlay,
+  rect: { ...overlay.rect },
+  imageSrc: overlay.imageSrc ? assets.intern(overlay.imageSrc) : undefined,
+  backgroundImage: overlay.backgroundImage ? assets.intern(overlay.backgroundImage) : undefined,
+});
+
+const serializeSlide = (slide: SlideData, assets: ProjectAssetTable): ProjectSlide => ({
+  index: slide.index,
+  width: slide.width,
+  height: slide.height,
+  image: assets.intern(slide.dataUrl),
+  overlays: slide.overlays.map((overlay) => serializeOverlay(overlay, assets)),
+  guides: slide.guides,
+  original: slide.original
+    ? {
+        image: assets.intern(slide.original.dataUrl),
+        overlays: slide.original.overlays.map((overlay) => serializeOverlay(overlay, assets)),
+      }
+    : undefined,
+});
+
+export const serializeProject = (
+  content: ProjectContent,
+  now: Date = new Date()
+): { manifest: ProjectManifest; assets: ProjectAssetTable } => {
+  const assets = createAssetTable();
+  const history = content.history.map((slides) => slides.map((slide) => serializeSlide(slide, assets)));
+  // Checkpoint slides are stored like history slides; their images share the same assets.
+  const checkpoints = (content.checkpoints || []).map(({ slides, ...checkpoint }) => ({
+    ...checkpoint,
+    slides: slides.map((slide) => serializeSlide(slide, assets)),
+  }));
+  const current = content.history[content.historyIndex] || [];
+
+  return {
+    manifest: {
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      name: content.name,
+      createdAt: content.createdAt || now.toISOString(),
+      savedAt: now.toISOString(),
+      slideCount: current.length,
+      history,
+      historyIndex: content.historyIndex,
+      historyLabels: content.historyLabels || [],
+      checkpoints,
+      fonts: (content.fonts || []).map(({ dataUrl, ...font }) => ({ ...font, file: assets.intern(dataUrl) })),
+      guides: content.guides || [],
+    },
+    assets,
+  };
+};
+
+type ManifestRecord = Record<string, unknown>;
+type ManifestMigration = (manifest: ManifestRecord) => ManifestRecord;
+
+const isManifestRecord = (value: unknown): value is ManifestRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Checks the lists restoreProject walks; every other field it reads has a fallback there.
+const isCurrentManifest = (manifest: ManifestRecord): manifest is ManifestRecord & ProjectManifest =>
+  Array.isArray(manifest.history) &&
+  manifest.history.every(Array.isArray) &&
+  Array.isArray(manifest.historyLabels) &&
+  Array.isArray(manifest.checkpoints) &&
+  Array.isArray(manifest.fonts) &&
+  Array.isArray(manifest.guides);
+
+// MIGRATIONS[n] upgrades a version-n manifest to version n + 1. Add an entry whenever
+// PROJECT_SCHEMA_VERSION is bumped; field-level defaults belong in normalizeOverlay instead.
+const MIGRATIONS: Record<number, ManifestMigration> = {
+  // v2 added uploaded fonts.
+  1: (manifest) => ({ ...manifest, fonts: [] }),
+  // v3 added deck-wide ruler guides.
+  2: (manifest) => ({ ...manifest, guides: [] }),
+  // v4 added history step labels and checkpoints.
+  3: (manifest) => ({ ...manifest, historyLabels: [], checkpoints: [] }),
+};
+
+export const migrateProjectManifest = (raw: unknown): ProjectManifest => {
+  if (!isManifestRecord(raw)) {
+    throw new Error('Invalid project file: manifest is missing.');
+  }
+
+  let manifest = raw;
+  let version = Number(manifest.schemaVersion);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('Invalid project file: unknown schema version.');
+  }
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`Project file was saved by a newer version (schema ${version}).`);
+  }
+
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration available for schema ${version}.`);
+    manifest = { ...migrate(manifest), schemaVersion: version + 1 };
+    version += 1;
+  }
+
+  if (!Array.isArray(manifest.history) || manifest.history.length === 0) {
+    throw new Error('Invalid project file: history is empty.');
+  }
+  if (!isCurrentManifest(manifest)) {
+    throw new Error('Invalid project file: manifest is malformed.');
+  }
+
+  return manifest;
+};
+
+export const restoreProject = (
+  manifest: ProjectManifest,
+  resolveAsset: (ref: AssetRef) => string | undefined
+): ProjectContent => {
+  const requireAsset = (ref: AssetRef): string => {
+    const dataUrl = resolveAsset(ref);
+    if (!dataUrl) throw new Error(`Invalid project file: missing asset ${ref}.`);
+    return dataUrl;
+  };
+
+  const restoreOverlays = (overlays: ProjectOverlay[] | undefined): TextOverlay[] =>
+    (overlays || []).map((overlay) => normalizeOverlay({
+      ...overlay,
+      imageSrc: overlay.imageSrc ? requireAsset(overlay.imageSrc) : undefined,
+      backgroundImage: overlay.backgroundImage ? requireAsset(overlay.backgroundImage) : undefined,
+    }));
+
+  const restoreSlideContent = (slide: ProjectSlide, index: number): SlideData => {
+    const overlays = restoreOverlays(slide.overlays);
+    // Unedited overlays share the original's array, so the slide does not count as modified.
+    const original = slide.original && {
+      dataUrl: requireAsset(slide.original.image),
+      overlays: JSON.stringify(slide.original.overlays) === JSON.stringify(slide.overlays)
+        ? overlays
+        : restoreOverlays(slide.original.overlays),
+    };
+    return {
+      index: slide.index ?? index,
+      width: slide.width,
+      height: slide.height,
+      dataUrl: requireAsset(slide.image),
+      overlays,
+      ...(slide.guides ? { guides: slide.guides } : {}),
+      ...(original ? { original } : {}),
+    };
+  };
+
+  // Snapshots repeat every slide they did not change. Restoring each repeat to the same object
+  // lets history diffs see untouched slides as untouched, so undo steps stay one slide wide.
+  const restoredSlides = new Map<string, SlideData>();
+  const restoreSlide = (slide: ProjectSlide, index: number): SlideData => {
+    const key = JSON.stringify({ ...slide, index: slide.index ?? index });
+    const existing = restoredSlides.get(key);
+    if (existing) return existing;
+    const restored = restoreSlideContent(slide, index);
+    restoredSlides.set(key, restored);
+    return restored;
+  };
+
+  const history = manifest.history.map((slides) => slides.map(restoreSlide));
+
+  const historyIndex = Math.min(Math.max(0, manifest.historyIndex ?? history.length - 1), history.length - 1);
+  return {
+    name: manifest.name || 'Untitled',
+    createdAt: manifest.createdAt,
+    history,
+    historyIndex,
+    historyLabels: manifest.historyLabels || [],
+    checkpoints: (manifest.checkpoints || []).map((checkpoint) => ({ ...checkpoint, slides: checkpoint.slides.map(restoreSlide) })),
+    fonts: (manifest.fonts || []).map(({ file, ...font }) => ({ ...font, dataUrl: requireAsset(file) })),
+    guides: manifest.guides || [],
+  };
+};
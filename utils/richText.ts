@@ -0,0 +1,146 @@
+import { TextOverlay, TextRun, TextRunStyle } from '../types';
+import { TextSpan } from './textLayout';
+
+// Offsets are UTF-16 indices into newText, the same units a textarea selection uses.
+
+export interface RenderTextSpan extends TextSpan {
+  fontWeight: string;
+  fontStyle: string;
+  color: string;
+  underline: boolean;
+}
+
+const STYLE_KEYS: (keyof TextRunStyle)[] = ['bold', 'italic', 'underline', 'color', 'fontSize'];
+
+export const runsToText = (runs: TextRun[]): string => runs.map((run) => run.text).join('');
+
+const getRunStyle = ({ text, ...style }: TextRun): TextRunStyle => style;
+
+// Copies one style key across; the generic key keeps the value type tied to it.
+const setStyleValue = <K extends keyof TextRunStyle>(target: TextRunStyle, key: K, value: TextRunStyle[K]) => {
+  target[key] = value;
+};
+
+const hasOverrides = (run: TextRun): boolean => STYLE_KEYS.some((key) => run[key] !== undefined);
+
+const isSameStyle = (a: TextRunStyle, b: TextRunStyle): boolean => STYLE_KEYS.every((key) => a[key] === b[key]);
+
+// Runs only apply while they still spell out newText; text changed behind their back renders plain.
+export const getOverlayRuns = (overlay: Partial<Pick<TextOverlay, 'newText' | 'runs'>>): TextRun[] => {
+  const text = overlay.newText || '';
+  return overlay.runs && runsToText(overlay.runs) === text ? overlay.runs : [{ text }];
+};
+
+// Joins neighbours that share a style and drops empty runs.
+export const mergeRuns = (runs: TextRun[]): TextRun[] => {
+  const merged: TextRun[] = [];
+  runs.forEach((run) => {
+    if (!run.text) return;
+    const last = merged[merged.length - 1];
+    if (last && isSameStyle(last, run)) merged[merged.length - 1] = { ...last, text: last.text + run.text };
+    else merged.push(run);
+  });
+  return merged;
+};
+
+// What gets stored on the overlay: undefined once no run carries a style of its own.
+export const compactRuns = (runs: TextRun[]): TextRun[] | undefined => {
+  const merged = mergeRuns(runs);
+  return merged.some(hasOverrides) ? merged : undefined;
+};
+
+export const sliceRuns = (runs: TextRun[], start: number, end: number): TextRun[] => {
+  const result: TextRun[] = [];
+  let offset = 0;
+  runs.forEach((run) => {
+    const from = Math.max(start, offset) - offset;
+    const to = Math.min(end, offset + run.text.length) - offset;
+    if (from < to) result.push({ ...run, text: run.text.slice(from, to) });
+    offset += run.text.length;
+  });
+  return result;
+};
+
+const getStyleAt = (runs: TextRun[], index: number): TextRunStyle => {
+  let offset = 0;
+  for (const run of runs) {
+    if (index < offset + run.text.length) return getRunStyle(run);
+    offset += run.text.length;
+  }
+  return runs.length > 0 ? getRunStyle(runs[runs.length - 1]) : {};
+};
+
+// Replaces [start, end) with `text`, which takes the style of the first replaced character
+// (or of the character before it for a pure insertion).
+export const spliceRuns = (runs: TextRun[], start: number, end: number, text: string): TextRun[] => {
+  const style = getStyleAt(runs, end > start ? start : Math.max(0, start - 1));
+  const length = runsToText(runs).length;
+  return mergeRuns([...sliceRuns(runs, 0, start), { ...style, text }, ...sliceRuns(runs, end, length)]);
+};
+
+// Carries styles across a plain-text edit by treating it as one splice between the common prefix and suffix.
+export const updateRunsText = (runs: TextRun[] | undefined, newText: string): TextRun[] | undefined => {
+  if (!runs) return undefined;
+  const oldText = runsToText(runs);
+  if (oldText === newText) return runs;
+
+  let prefix = 0;
+  while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldText.length - prefix &&
+    suffix < newText.length - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) suffix++;
+
+  return compactRuns(spliceRuns(runs, prefix, oldText.length - suffix, newText.slice(prefix, newText.length - suffix)));
+};
+
+// Sets (or, for keys given as undefined, clears) style overrides on [start, end).
+export const applyRunStyle = (runs: TextRun[], start: number, end: number, patch: TextRunStyle): TextRun[] | undefined => {
+  const length = runsToText(runs).length;
+  const styled = sliceRuns(runs, start, end).map((run) => {
+    const next: TextRun = { ...run };
+    STYLE_KEYS.forEach((key) => {
+      if (!(key in patch)) return;
+      if (patch[key] === undefined) delete next[key];
+      else setStyleValue(next, key, patch[key]);
+    });
+    return next;
+  });
+  return compactRuns([...sliceRuns(runs, 0, start), ...styled, ...sliceRuns(runs, end, length)]);
+};
+
+// The overrides shared by every character in [start, end); a key differing anywhere is left out.
+export const getRangeStyle = (runs: TextRun[], start: number, end: number): TextRunStyle => {
+  const covered = end > start ? sliceRuns(runs, start, end) : [{ ...getStyleAt(runs, Math.max(0, start - 1)), text: '' }];
+  const style: TextRunStyle = {};
+  STYLE_KEYS.forEach((key) => {
+    const value = covered[0]?.[key];
+    if (value !== undefined && covered.every((run) => run[key] === value)) setStyleValue(style, key, value);
+  });
+  return style;
+};
+
+// CSS weights from 600 up render bold, so exporters map them to their single bold flag.
+export const isBoldWeight = (fontWeight: string | undefined): boolean => {
+  const numeric = Number(fontWeight);
+  if (fontWeight && !Number.isNaN(numeric)) return numeric >= 600;
+  return fontWeight === 'bold' || fontWeight === 'bolder';
+};
+
+// Resolves each run against the overlay's own style, ready for layout and drawing.
+export const getOverlayTextSpans = (
+  overlay: Partial<Pick<TextOverlay, 'newText' | 'runs' | 'fontSize' | 'fontWeight' | 'fontStyle' | 'fontColor'>>
+): RenderTextSpan[] => {
+  const baseWeight = overlay.fontWeight || 'normal';
+  const baseStyle = overlay.fontStyle || 'normal';
+  return getOverlayRuns(overlay).map((run) => ({
+    text: run.text,
+    fontSize: run.fontSize ?? (overlay.fontSize || 16),
+    fontWeight: run.bold === undefined ? baseWeight : run.bold ? 'bold' : 'normal',
+    fontStyle: run.italic === undefined ? baseStyle : run.italic ? 'italic' : 'normal',
+    color: run.color ?? (overlay.fontColor || '#000000'),
+    underline: !!run.underline,
+  }));
+};
@@ -10,6 +10,9 @@ const cloneSlide = (slide: SlideData): SlideData => ({
   overlays: slide.overlays.map(cloneOverlay),
 });
 
+export const renumberSlides = (slides: SlideData[]): SlideData[] =>
+  slides.map((slide, index) => (slide.index === index ? slide : { ...slide, index }));
+
 export const duplicateSlideAtIndex = (
   slides: SlideData[],
   sourceIndex: number
@@ -23,5 +26,35 @@ export const duplicateSlideAtIndex = (
   const duplicated = cloneSlide(source);
   const newSlides = [...slides];
   newSlides.splice(insertedIndex, 0, duplicated);
-  return { slides: newSlides, insertedIndex };
+  return { slides: renumberSlides(newSlides), insertedIndex };
+};
+
+export type SlideInsertPlacement = 'append' | 'afterActive' | 'replace';
+
+export const insertSlides = (
+  slides: SlideData[],
+  incoming: SlideData[],
+  placement: SlideInsertPlacement,
+  activeIndex: number
+): { slides: SlideData[]; insertedIndex: number } => {
+  if (placement === 'replace' || slides.length === 0) {
+    return { slides: renumberSlides(incoming), insertedIndex: 0 };
+  }
+
+  const insertedIndex =
+    placement === 'afterActive' ? Math.min(Math.max(activeIndex, -1) + 1, slides.length) : slides.length;
+  const newSlides = [...slides];
+  newSlides.splice(insertedIndex, 0, ...incoming);
+  return { slides: renumberSlides(newSlides), insertedIndex };
 };
+
+// Remembers the slide's current state as its original, unless it already has one.
+export const keepOriginal = (slide: SlideData): SlideData =>
+  slide.original ? slide : { ...slide, original: { dataUrl: slide.dataUrl, overlays: slide.overlays } };
+
+export const isSlideModified = (slide: SlideData): boolean =>
+  !!slide.original && (slide.dataUrl !== slide.original.dataUrl || slide.overlays !== slide.original.overlays);
+
+// Restores the imported image and overlays; guides and the slide's position are kept.
+export const revertSlideToOriginal = (slide: SlideData): SlideData =>
+  slide.original ? { ...slide, dataUrl: slide.original.dataUrl, overlays: slide.original.overlays } : slide;
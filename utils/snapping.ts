@@ -0,0 +1,182 @@
+import { Guide, HandleType, Rect } from '../types';
+
+type Axis = 'x' | 'y';
+
+export interface SnapLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface SnapContext {
+  others: Rect[]; // Bounds of the overlays that stay put
+  slideWidth: number;
+  slideHeight: number;
+  threshold: number; // In slide pixels
+  guides?: Guide[]; // Ruler guides, which span the whole slide
+}
+
+interface AlignTarget {
+  value: number;
+  spanStart: number; // Extent on the other axis, used to draw the guide
+  spanEnd: number;
+}
+
+interface AxisSnap {
+  delta: number;
+  spacingGuides: SnapLine[];
+}
+
+// Values closer than this count as lined up when collecting guides after snapping.
+const GUIDE_EPSILON = 0.5;
+
+const other = (axis: Axis): Axis => (axis === 'x' ? 'y' : 'x');
+const getStart = (rect: Rect, axis: Axis) => (axis === 'x' ? rect.x : rect.y);
+const getSize = (rect: Rect, axis: Axis) => (axis === 'x' ? rect.width : rect.height);
+const getEnd = (rect: Rect, axis: Axis) => getStart(rect, axis) + getSize(rect, axis);
+const getEdges = (rect: Rect, axis: Axis) => [getStart(rect, axis), getStart(rect, axis) + getSize(rect, axis) / 2, getEnd(rect, axis)];
+
+const offsetRect = (rect: Rect, axis: Axis, delta: number): Rect =>
+  axis === 'x' ? { ...rect, x: rect.x + delta } : { ...rect, y: rect.y + delta };
+
+// A guide along `axis` sits at a fixed coordinate on that axis and runs along the other one.
+const toLine = (axis: Axis, value: number, from: number, to: number): SnapLine =>
+  axis === 'x' ? { x1: value, y1: from, x2: value, y2: to } : { x1: from, y1: value, x2: to, y2: value };
+
+const getAlignTargets = (context: SnapContext, axis: Axis): AlignTarget[] => {
+  const slideSize = axis === 'x' ? context.slideWidth : context.slideHeight;
+  const slideSpan = axis === 'x' ? context.slideHeight : context.slideWidth;
+  const guideValues = (context.guides || []).filter((guide) => guide.axis === axis).map((guide) => guide.position);
+  const targets = [0, slideSize / 2, slideSize, ...guideValues].map((value) => ({ value, spanStart: 0, spanEnd: slideSpan }));
+  context.others.forEach((rect) => {
+    getEdges(rect, axis).forEach((value) => {
+      targets.push({ value, spanStart: getStart(rect, other(axis)), spanEnd: getEnd(rect, other(axis)) });
+    });
+  });
+  return targets;
+};
+
+const findAlignDelta = (edges: number[], targets: AlignTarget[], threshold: number): number | null => {
+  let best: number | null = null;
+  edges.forEach((edge) => {
+    targets.forEach(({ value }) => {
+      const delta = value - edge;
+      if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) best = delta;
+    });
+  });
+  return best;
+};
+
+// Positions that repeat the gap between two neighbouring overlays in the same row (or column),
+// either past one end of the pair or centred between them.
+const findSpacingSnaps = (rect: Rect, context: SnapContext, axis: Axis): AxisSnap[] => {
+  const cross = other(axis);
+  const row = context.others
+    .filter((candidate) => getStart(candidate, cross) < getEnd(rect, cross) && getEnd(candidate, cross) > getStart(rect, cross))
+    .sort((a, b) => getStart(a, axis) - getStart(b, axis));
+  const crossCenter = getStart(rect, cross) + getSize(rect, cross) / 2;
+  const size = getSize(rect, axis);
+  const snaps: AxisSnap[] = [];
+
+  for (let i = 0; i < row.length - 1; i++) {
+    const a = row[i];
+    const b = row[i + 1];
+    const gap = getStart(b, axis) - getEnd(a, axis);
+    if (gap < 0) continue;
+    const pairGuide = toLine(cross, crossCenter, getEnd(a, axis), getStart(b, axis));
+
+    const after = getEnd(b, axis) + gap;
+    snaps.push({
+      delta: after - getStart(rect, axis),
+      spacingGuides: [pairGuide, toLine(cross, crossCenter, getEnd(b, axis), after)],
+    });
+    const before = getStart(a, axis) - gap - size;
+    snaps.push({
+      delta: before - getStart(rect, axis),
+      spacingGuides: [toLine(cross, crossCenter, before + size, getStart(a, axis)), pairGuide],
+    });
+    if (gap >= size) {
+      const between = getEnd(a, axis) + (gap - size) / 2;
+      snaps.push({
+        delta: between - getStart(rect, axis),
+        spacingGuides: [
+          toLine(cross, crossCenter, getEnd(a, axis), between),
+          toLine(cross, crossCenter, between + size, getStart(b, axis)),
+        ],
+      });
+    }
+  }
+  return snaps;
+};
+
+const collectAlignGuides = (rect: Rect, targets: AlignTarget[], axis: Axis, edges: number[]): SnapLine[] => {
+  const cross = other(axis);
+  return targets
+    .filter(({ value }) => edges.some((edge) => Math.abs(edge - value) < GUIDE_EPSILON))
+    .map(({ value, spanStart, spanEnd }) =>
+      toLine(axis, value, Math.min(spanStart, getStart(rect, cross)), Math.max(spanEnd, getEnd(rect, cross)))
+    );
+};
+
+// Snaps a rect that is being dragged. Each axis snaps on its own to whichever alignment or
+// spacing position is nearest, and the guides describe every line the result touches.
+export const snapMove = (rect: Rect, context: SnapContext): { dx: number; dy: number; guides: SnapLine[] } => {
+  const deltas: Record<Axis, number> = { x: 0, y: 0 };
+  const spacingGuides: SnapLine[] = [];
+
+  (['x', 'y'] as Axis[]).forEach((axis) => {
+    const align = findAlignDelta(getEdges(rect, axis), getAlignTargets(context, axis), context.threshold);
+    const candidates: AxisSnap[] = findSpacingSnaps(rect, context, axis).filter(
+      ({ delta }) => Math.abs(delta) <= context.threshold
+    );
+    if (align !== null) candidates.push({ delta: align, spacingGuides: [] });
+    if (candidates.length === 0) return;
+    const best = candidates.reduce((a, b) => (Math.abs(b.delta) < Math.abs(a.delta) ? b : a));
+    deltas[axis] = best.delta;
+    candidates
+      .filter(({ delta }) => Math.abs(delta - best.delta) < GUIDE_EPSILON)
+      .forEach((candidate) => spacingGuides.push(...candidate.spacingGuides));
+  });
+
+  const snapped = offsetRect(offsetRect(rect, 'x', deltas.x), 'y', deltas.y);
+  const guides = [
+    ...collectAlignGuides(snapped, getAlignTargets(context, 'x'), 'x', getEdges(snapped, 'x')),
+    ...collectAlignGuides(snapped, getAlignTargets(context, 'y'), 'y', getEdges(snapped, 'y')),
+    ...spacingGuides,
+  ];
+  return { dx: deltas.x, dy: deltas.y, guides };
+};
+
+// Snaps only the edges a resize handle moves; the opposite edges stay where they are.
+export const snapResize = (rect: Rect, handle: HandleType, context: SnapContext): { rect: Rect; guides: SnapLine[] } => {
+  let snapped = { ...rect };
+  const movingEdges: { axis: Axis; side: 'start' | 'end' }[] = [];
+  if (handle.includes('w')) movingEdges.push({ axis: 'x', side: 'start' });
+  if (handle.includes('e')) movingEdges.push({ axis: 'x', side: 'end' });
+  if (handle.includes('n')) movingEdges.push({ axis: 'y', side: 'start' });
+  if (handle.includes('s')) movingEdges.push({ axis: 'y', side: 'end' });
+
+  const guideEdges: Record<Axis, number[]> = { x: [], y: [] };
+  movingEdges.forEach(({ axis, side }) => {
+    const edge = side === 'start' ? getStart(snapped, axis) : getEnd(snapped, axis);
+    const delta = findAlignDelta([edge], getAlignTargets(context, axis), context.threshold) ?? 0;
+    const sizeKey = axis === 'x' ? 'width' : 'height';
+    if (side === 'start') {
+      snapped = { ...offsetRect(snapped, axis, delta), [sizeKey]: snapped[sizeKey] - delta };
+    } else {
+      snapped = { ...snapped, [sizeKey]: snapped[sizeKey] + delta };
+    }
+    guideEdges[axis].push(edge + delta);
+  });
+
+  const guides = [
+    ...collectAlignGuides(snapped, getAlignTargets(context, 'x'), 'x', guideEdges.x),
+    ...collectAlignGuides(snapped, getAlignTargets(context, 'y'), 'y', guideEdges.y),
+  ];
+  return { rect: snapped, guides };
+};
+
+// Snaps a single coordinate, e.g. a ruler guide being dragged, to the slide and overlay lines on that axis.
+export const snapPosition = (value: number, axis: 'x' | 'y', context: SnapContext): number =>
+  value + (findAlignDelta([value], getAlignTargets(context, axis), context.threshold) ?? 0);
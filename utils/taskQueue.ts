@@ -0,0 +1,39 @@
+export type TaskResult<R> =
+  | { status: 'fulfilled'; value: R }
+  | { status: 'rejected'; reason: unknown }
+  | { status: 'skipped' };
+
+export interface TaskQueueOptions<R> {
+  concurrency: number;
+  signal?: AbortSignal;
+  onTaskStart?: (index: number) => void;
+  onTaskSettle?: (index: number, result: TaskResult<R>) => void;
+}
+
+// Runs tasks with at most `concurrency` in flight. Failures don't stop the queue; once the signal
+// aborts, tasks that haven't started are reported as skipped.
+export const runTaskQueue = async <T, R>(
+  tasks: T[],
+  worker: (task: T, index: number, signal?: AbortSignal) => Promise<R>,
+  options: TaskQueueOptions<R>
+): Promise<TaskResult<R>[]> => {
+  const results: TaskResult<R>[] = tasks.map(() => ({ status: 'skipped' }));
+  let next = 0;
+
+  const runLane = async () => {
+    while (next < tasks.length && !options.signal?.aborted) {
+      const index = next++;
+      options.onTaskStart?.(index);
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(tasks[index], index, options.signal) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+      options.onTaskSettle?.(index, results[index]);
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(options.concurrency, tasks.length));
+  await Promise.all(Array.from({ length: lanes }, runLane));
+  return results;
+};
@@ -0,0 +1,46 @@
+import { DetectedTextBlock, Rect, TextOverlay } from '../types';
+import { createOverlayId } from './id';
+
+const intersectionOverUnion = (a: Rect, b: Rect): number => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+};
+
+// Turns fractional detection results into slide-pixel overlay drafts. Regions that mostly
+// coincide with an existing text overlay are dropped so re-running detection doesn't duplicate work.
+export const detectedBlocksToOverlays = (
+  blocks: DetectedTextBlock[],
+  slideWidth: number,
+  slideHeight: number,
+  existing: TextOverlay[] = []
+): TextOverlay[] => {
+  const existingRects = existing.filter((overlay) => overlay.type !== 'image').map((overlay) => overlay.rect);
+
+  return blocks
+    .map((block): TextOverlay => ({
+      id: createOverlayId(),
+      type: 'text',
+      rect: {
+        x: Math.round(block.rect.x * slideWidth),
+        y: Math.round(block.rect.y * slideHeight),
+        width: Math.max(1, Math.round(block.rect.width * slideWidth)),
+        height: Math.max(1, Math.round(block.rect.height * slideHeight)),
+      },
+      originalText: block.text,
+      newText: block.text,
+      fontSize: Math.max(1, Math.round(block.fontSize * slideHeight)),
+      fontWeight: block.fontWeight,
+      fontColor: block.fontColor,
+      fontFamily: block.fontFamily,
+      backgroundColor: block.backgroundColor,
+      vAlign: 'middle',
+      hAlign: 'left',
+      rotation: 0,
+      flipHorizontal: false,
+      flipVertical: false,
+    }))
+    .filter((overlay) => !existingRects.some((rect) => intersectionOverUnion(rect, overlay.rect) > 0.5));
+};
@@ -0,0 +1,164 @@
+import { HorizontalAlign, Rect } from '../types';
+
+// A run of text with its box already in slide pixels (top-left origin), e.g. one pdf.js text item.
+export interface PositionedTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number; // font size in px
+  fontName?: string;
+  bold?: boolean;
+}
+
+export interface TextLine {
+  text: string;
+  rect: Rect;
+  fontSize: number;
+  bold: boolean;
+  fontName?: string;
+}
+
+export interface TextBlock extends TextLine {
+  lines: TextLine[];
+  hAlign: HorizontalAlign;
+}
+
+interface LineBuilder {
+  items: PositionedTextItem[];
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  fontSize: number;
+}
+
+const isSimilarSize = (a: number, b: number, tolerance: number): boolean =>
+  Math.max(a, b) / Math.max(1e-6, Math.min(a, b)) <= tolerance;
+
+const unionRect = (rects: Rect[]): Rect => {
+  const left = Math.min(...rects.map((r) => r.x));
+  const top = Math.min(...rects.map((r) => r.y));
+  const right = Math.max(...rects.map((r) => r.x + r.width));
+  const bottom = Math.max(...rects.map((r) => r.y + r.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Items on one baseline are joined left to right; a wide horizontal gap starts a new line so
+// side-by-side columns don't get merged into one string.
+export const groupItemsIntoLines = (items: PositionedTextItem[]): TextLine[] => {
+  const builders: LineBuilder[] = [];
+  const sorted = items.filter((item) => item.text.trim() && item.height > 0).sort((a, b) => a.x - b.x);
+
+  for (const item of sorted) {
+    const center = item.y + item.height / 2;
+    const line = builders.find((candidate) => {
+      const size = Math.min(candidate.fontSize, item.height);
+      const candidateCenter = (candidate.top + candidate.bottom) / 2;
+      const gap = item.x - candidate.right;
+      return (
+        Math.abs(candidateCenter - center) <= size * 0.5 &&
+        isSimilarSize(candidate.fontSize, item.height, 1.4) &&
+        gap >= -size * 0.5 &&
+        gap <= size * 1.5
+      );
+    });
+
+    if (line) {
+      line.items.push(item);
+      line.right = Math.max(line.right, item.x + item.width);
+      line.top = Math.min(line.top, item.y);
+      line.bottom = Math.max(line.bottom, item.y + item.height);
+      line.fontSize = Math.max(line.fontSize, item.height);
+    } else {
+      builders.push({
+        items: [item],
+        left: item.x,
+        right: item.x + item.width,
+        top: item.y,
+        bottom: item.y + item.height,
+        fontSize: item.height,
+      });
+    }
+  }
+
+  return builders.map((builder) => {
+    let text = '';
+    let previous: PositionedTextItem | null = null;
+    for (const item of builder.items) {
+      if (previous) {
+        const gap = item.x - (previous.x + previous.width);
+        const hasSpace = /\s$/.test(text) || /^\s/.test(item.text);
+        if (!hasSpace && gap > Math.min(previous.height, item.height) * 0.15) text += ' ';
+      }
+      text += item.text;
+      previous = item;
+    }
+
+    return {
+      text: text.replace(/\s+/g, ' ').trim(),
+      rect: { x: builder.left, y: builder.top, width: builder.right - builder.left, height: builder.bottom - builder.top },
+      fontSize: builder.fontSize,
+      bold: builder.items.every((item) => item.bold),
+      fontName: builder.items[0].fontName,
+    };
+  });
+};
+
+const detectAlignment = (lines: TextLine[], fontSize: number): HorizontalAlign => {
+  if (lines.length < 2) return 'left';
+  const tolerance = fontSize * 0.5;
+  const spread = (values: number[]) => Math.max(...values) - Math.min(...values);
+
+  if (spread(lines.map((l) => l.rect.x)) <= tolerance) return 'left';
+  if (spread(lines.map((l) => l.rect.x + l.rect.width / 2)) <= tolerance) return 'center';
+  if (spread(lines.map((l) => l.rect.x + l.rect.width)) <= tolerance) return 'right';
+  return 'left';
+};
+
+// Stacks consecutive lines of the same style into paragraphs: similar size and weight,
+// horizontally overlapping and separated by no more than normal line spacing.
+export const groupLinesIntoBlocks = (lines: TextLine[]): TextBlock[] => {
+  const groups: TextLine[][] = [];
+  const sorted = [...lines].sort((a, b) => a.rect.y - b.rect.y || a.rect.x - b.rect.x);
+
+  for (const line of sorted) {
+    const group = groups.find((candidate) => {
+      const last = candidate[candidate.length - 1];
+      const gap = line.rect.y - (last.rect.y + last.rect.height);
+      const overlaps = line.rect.x < last.rect.x + last.rect.width && line.rect.x + line.rect.width > last.rect.x;
+      return (
+        overlaps &&
+        last.bold === line.bold &&
+        isSimilarSize(last.fontSize, line.fontSize, 1.25) &&
+        gap >= -last.fontSize * 0.3 &&
+        gap <= Math.min(last.fontSize, line.fontSize) * 0.9
+      );
+    });
+
+    if (group) group.push(line);
+    else groups.push([line]);
+  }
+
+  return groups.map((group) => {
+    const fontSize = median(group.map((line) => line.fontSize));
+    return {
+      text: group.map((line) => line.text).join('\n'),
+      rect: unionRect(group.map((line) => line.rect)),
+      fontSize,
+      bold: group.every((line) => line.bold),
+      fontName: group[0].fontName,
+      lines: group,
+      hAlign: detectAlignment(group, fontSize),
+    };
+  });
+};
+
+export const groupTextItems = (items: PositionedTextItem[]): TextBlock[] =>
+  groupLinesIntoBlocks(groupItemsIntoLines(items));
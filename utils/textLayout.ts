@@ -0,0 +1,343 @@
+import { TextFitMode } from '../types';
+
+// Text measurement and line layout shared by the editor canvas and every export.
+
+export const LINE_HEIGHT_RATIO = 1.2;
+
+const GENERIC_FONT_FAMILIES = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui']);
+
+// Named families are quoted so uploaded fonts whose names contain digits or symbols still parse.
+const toCssFontFamily = (fontFamily: string) =>
+  GENERIC_FONT_FAMILIES.has(fontFamily) || /["',]/.test(fontFamily) ? fontFamily : `"${fontFamily}"`;
+
+export const getOverlayFont = (
+  fontWeight: string | undefined,
+  fontSize: number,
+  fontFamily: string | undefined,
+  fontStyle?: string
+) => `${fontStyle && fontStyle !== 'normal' ? `${fontStyle} ` : ''}${fontWeight || 'normal'} ${fontSize}px ${toCssFontFamily(fontFamily || 'sans-serif')}, sans-serif`;
+
+// A stretch of text in one style. Weight and style fall back to the measurer's defaults when unset.
+export interface TextSpan {
+  text: string;
+  fontSize: number;
+  fontWeight?: string;
+  fontStyle?: string;
+}
+
+// Width of a single line at the given font size with no letter-spacing.
+export type MeasureTextWidth = (text: string, fontSize: number, span?: TextSpan) => number;
+
+export interface TextStyle {
+  fontSize: number;
+  letterSpacing: number;
+}
+
+// Line height is a multiple of each line's font size; paragraph spacing is extra pixels after every '\n'.
+export interface TextSpacing {
+  lineHeight?: number;
+  paragraphSpacing?: number;
+}
+
+export interface TextFitResult extends TextStyle {
+  fits: boolean;
+}
+
+// Text is never shrunk below half its size or tightened past -5% of the font size per character.
+export const MIN_FIT_FONT_SCALE = 0.5;
+export const MIN_FIT_FONT_SIZE = 8;
+export const MIN_LETTER_SPACING_RATIO = -0.05;
+const FONT_SIZE_STEP = 0.5;
+
+// Canvas letter-spacing is added after every character, including the last one.
+const measureLine = (line: string, style: TextStyle, measure: MeasureTextWidth) =>
+  measure(line, style.fontSize) + style.letterSpacing * Array.from(line).length;
+
+export const measureTextBlock = (text: string, style: TextStyle, measure: MeasureTextWidth, spacing: TextSpacing = {}) => {
+  const lines = text.split('\n');
+  const width = Math.max(...lines.map((line) => measureLine(line, style, measure)));
+  const lineHeight = style.fontSize * (spacing.lineHeight ?? LINE_HEIGHT_RATIO);
+  const paragraphSpacing = (spacing.paragraphSpacing || 0) * (lines.length - 1);
+  return { width, height: lines.length * lineHeight + paragraphSpacing };
+};
+
+const fitsIn = (
+  text: string,
+  box: { width: number; height: number },
+  style: TextStyle,
+  measure: MeasureTextWidth,
+  spacing: TextSpacing
+) => {
+  const size = measureTextBlock(text, style, measure, spacing);
+  return size.width <= box.width && size.height <= box.height;
+};
+
+// Keeps the style when the text already fits. Otherwise tightens letter-spacing if that alone is
+// enough, and failing that picks the largest font size that fits, scaling letter-spacing along.
+export const fitTextToRect = (
+  text: string,
+  box: { width: number; height: number },
+  style: TextStyle,
+  measure: MeasureTextWidth,
+  spacing: TextSpacing = {}
+): TextFitResult => {
+  if (fitsIn(text, box, style, measure, spacing)) return { ...style, fits: true };
+
+  const lines = text.split('\n');
+  const minLetterSpacing = style.fontSize * MIN_LETTER_SPACING_RATIO;
+  if (measureTextBlock(text, style, measure, spacing).height <= box.height) {
+    const spacings = lines
+      .filter((line) => line.length > 0)
+      .map((line) => (box.width - measure(line, style.fontSize)) / Array.from(line).length);
+    const letterSpacing = Math.floor(Math.min(style.letterSpacing, ...spacings) * 10) / 10;
+    if (letterSpacing >= minLetterSpacing) return { fontSize: style.fontSize, letterSpacing, fits: true };
+  }
+
+  const scaled = (fontSize: number): TextStyle => ({ fontSize, letterSpacing: style.letterSpacing * (fontSize / style.fontSize) });
+  const minFontSize = Math.min(style.fontSize, Math.max(MIN_FIT_FONT_SIZE, style.fontSize * MIN_FIT_FONT_SCALE));
+  for (let fontSize = style.fontSize - FONT_SIZE_STEP; fontSize >= minFontSize; fontSize -= FONT_SIZE_STEP) {
+    if (fitsIn(text, box, scaled(fontSize), measure, spacing)) return { ...scaled(fontSize), fits: true };
+  }
+  return { ...scaled(minFontSize), fits: false };
+};
+
+// Line-break rules (kinsoku): closing punctuation, small kana and prolonged sound marks never start
+// a line, opening brackets and currency signs never end one.
+const NO_LINE_START = new Set(Array.from(
+  '!%),.:;?]}¢°’”‰′″℃、。々〉》」』】〕〗〙〛ゝゞァィゥェォッャュョヮヵヶぁぃぅぇぉっゃゅょゎゕゖー・…‥〜～！％），．：；？］｝｡｣､･ｰ'
+));
+const NO_LINE_END = new Set(Array.from('([{£¥$‘“〈《「『【〔〖〘〚（［｛｢＄￥￡'));
+
+// Japanese and Chinese may break between any two characters. Hangul is left out on purpose:
+// Korean wraps between words (어절), like CSS `word-break: keep-all`.
+const CJK_BREAKABLE = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff66-\uff9f]/;
+const WHITESPACE = /\s/;
+
+const canBreakBetween = (before: string, after: string): boolean => {
+  if (WHITESPACE.test(after)) return false;
+  if (NO_LINE_END.has(before) || NO_LINE_START.has(after)) return false;
+  if (WHITESPACE.test(before)) return true;
+  return CJK_BREAKABLE.test(before) || CJK_BREAKABLE.test(after);
+};
+
+interface StyledChar<S extends TextSpan> {
+  char: string;
+  span: S;
+}
+
+// Splits a paragraph into the smallest pieces a line may end after; trailing spaces stay attached.
+const splitCharsIntoBreakUnits = <S extends TextSpan>(chars: StyledChar<S>[]): StyledChar<S>[][] => {
+  const units: StyledChar<S>[][] = [];
+  let unit: StyledChar<S>[] = [];
+  chars.forEach((styled, index) => {
+    unit.push(styled);
+    const next = chars[index + 1];
+    if (next === undefined || canBreakBetween(styled.char, next.char)) {
+      units.push(unit);
+      unit = [];
+    }
+  });
+  return units;
+};
+
+export const splitIntoBreakUnits = (paragraph: string): string[] => {
+  const span: TextSpan = { text: paragraph, fontSize: 0 };
+  return splitCharsIntoBreakUnits(Array.from(paragraph, (char) => ({ char, span }))).map((unit) =>
+    unit.map((styled) => styled.char).join('')
+  );
+};
+
+const trimTrailingSpaces = <S extends TextSpan>(chars: StyledChar<S>[]): StyledChar<S>[] => {
+  let end = chars.length;
+  while (end > 0 && WHITESPACE.test(chars[end - 1].char)) end--;
+  return chars.slice(0, end);
+};
+
+const wrapParagraph = <S extends TextSpan>(
+  paragraph: StyledChar<S>[],
+  maxWidth: number,
+  lineWidth: (chars: StyledChar<S>[]) => number
+): StyledChar<S>[][] => {
+  const lines: StyledChar<S>[][] = [];
+  let current: StyledChar<S>[] = [];
+
+  for (const unit of splitCharsIntoBreakUnits(paragraph)) {
+    if (current.length > 0 && lineWidth(trimTrailingSpaces([...current, ...unit])) <= maxWidth) {
+      current = [...current, ...unit];
+      continue;
+    }
+    if (current.length > 0) lines.push(trimTrailingSpaces(current));
+    current = [];
+
+    if (lineWidth(trimTrailingSpaces(unit)) <= maxWidth) {
+      current = unit;
+      continue;
+    }
+    // A word wider than the box is broken between characters as a last resort.
+    for (const styled of unit) {
+      if (current.length > 0 && lineWidth(trimTrailingSpaces([...current, styled])) > maxWidth) {
+        lines.push(current);
+        current = [];
+      }
+      current = [...current, styled];
+    }
+  }
+
+  lines.push(trimTrailingSpaces(current));
+  return lines;
+};
+
+export interface LayoutFragment<S extends TextSpan = TextSpan> {
+  span: S;
+  text: string;
+  fontSize: number; // after shrink-to-fit scaling
+  x: number; // from the start of the line
+  width: number;
+}
+
+export interface LayoutLine<S extends TextSpan = TextSpan> {
+  text: string;
+  fragments: LayoutFragment<S>[];
+  width: number;
+  fontSize: number; // the largest fragment; sets the line height
+  paragraph: number; // index of the typed ('\n'-separated) paragraph the line was wrapped from
+  top: number; // from the top of the text block
+  height: number; // fontSize times the line height, without paragraph spacing
+}
+
+export interface TextLayoutInput<S extends TextSpan = TextSpan> extends TextSpacing {
+  spans: S[];
+  box: { width: number; height: number };
+  fontSize: number; // base size, used for empty lines
+  letterSpacing?: number;
+  fitMode?: TextFitMode;
+}
+
+export interface TextLayout<S extends TextSpan = TextSpan> extends TextStyle {
+  lines: LayoutLine<S>[];
+  scale: number; // shrink-to-fit factor already applied to every font size and the letter-spacing
+  height: number;
+}
+
+const toFragments = <S extends TextSpan>(
+  chars: StyledChar<S>[],
+  scale: number,
+  letterSpacing: number,
+  measure: MeasureTextWidth
+): LayoutFragment<S>[] => {
+  const fragments: LayoutFragment<S>[] = [];
+  let x = 0;
+  for (let start = 0; start < chars.length; ) {
+    const { span } = chars[start];
+    let end = start;
+    while (end < chars.length && chars[end].span === span) end++;
+    const text = chars.slice(start, end).map((styled) => styled.char).join('');
+    const fontSize = span.fontSize * scale;
+    const width = measure(text, fontSize, span) + letterSpacing * (end - start);
+    fragments.push({ span, text, fontSize, x, width });
+    x += width;
+    start = end;
+  }
+  return fragments;
+};
+
+const toParagraphs = <S extends TextSpan>(spans: S[]): StyledChar<S>[][] => {
+  const paragraphs: StyledChar<S>[][] = [[]];
+  spans.forEach((span) => {
+    Array.from(span.text).forEach((char) => {
+      if (char === '\n') paragraphs.push([]);
+      else paragraphs[paragraphs.length - 1].push({ char, span });
+    });
+  });
+  return paragraphs;
+};
+
+const buildLayout = <S extends TextSpan>(
+  input: TextLayoutInput<S>,
+  scale: number,
+  wrap: boolean,
+  measure: MeasureTextWidth
+): TextLayout<S> => {
+  const letterSpacing = (input.letterSpacing || 0) * scale;
+  const lineHeightRatio = input.lineHeight ?? LINE_HEIGHT_RATIO;
+  const paragraphSpacing = (input.paragraphSpacing || 0) * scale;
+  const lineWidth = (chars: StyledChar<S>[]) =>
+    toFragments(chars, scale, letterSpacing, measure).reduce((sum, fragment) => sum + fragment.width, 0);
+
+  const lines: LayoutLine<S>[] = [];
+  let top = 0;
+  toParagraphs(input.spans).forEach((paragraph, paragraphIndex) => {
+    if (paragraphIndex > 0) top += paragraphSpacing;
+    const rows = wrap ? wrapParagraph(paragraph, input.box.width, lineWidth) : [paragraph];
+    rows.forEach((chars) => {
+      const fragments = toFragments(chars, scale, letterSpacing, measure);
+      const fontSize = fragments.length > 0 ? Math.max(...fragments.map((fragment) => fragment.fontSize)) : input.fontSize * scale;
+      const height = fontSize * lineHeightRatio;
+      lines.push({
+        text: fragments.map((fragment) => fragment.text).join(''),
+        fragments,
+        width: fragments.reduce((sum, fragment) => sum + fragment.width, 0),
+        fontSize,
+        paragraph: paragraphIndex,
+        top,
+        height,
+      });
+      top += height;
+    });
+  });
+
+  return { lines, scale, fontSize: input.fontSize * scale, letterSpacing, height: top };
+};
+
+// 'none' keeps the author's line breaks, 'wrap' also breaks lines at the box width, and 'shrink'
+// wraps and then scales every span (and the paragraph spacing) down (to MIN_FIT_FONT_SIZE for the base size) until the lines fit.
+export const layoutText = <S extends TextSpan>(input: TextLayoutInput<S>, measure: MeasureTextWidth): TextLayout<S> => {
+  const fitMode = input.fitMode || 'none';
+  if (fitMode === 'none') return buildLayout(input, 1, false, measure);
+
+  const fullSize = buildLayout(input, 1, true, measure);
+  if (fitMode === 'wrap' || fullSize.height <= input.box.height) return fullSize;
+
+  const fits = (layout: TextLayout<S>) =>
+    layout.height <= input.box.height && layout.lines.every((line) => line.width <= input.box.width);
+  const layoutAt = (fontSize: number) => buildLayout(input, fontSize / input.fontSize, true, measure);
+
+  // Binary search over FONT_SIZE_STEP increments; taller text needs more lines, so fit is monotonic.
+  let low = 1;
+  let high = Math.floor((input.fontSize - MIN_FIT_FONT_SIZE) / FONT_SIZE_STEP);
+  let best = layoutAt(Math.min(input.fontSize, input.fontSize - high * FONT_SIZE_STEP));
+  while (low <= high) {
+    const steps = Math.floor((low + high) / 2);
+    const candidate = layoutAt(input.fontSize - steps * FONT_SIZE_STEP);
+    if (fits(candidate)) {
+      best = candidate;
+      high = steps - 1;
+    } else {
+      low = steps + 1;
+    }
+  }
+  return best;
+};
+
+export const wrapText = (text: string, maxWidth: number, style: TextStyle, measure: MeasureTextWidth): string[] =>
+  layoutText(
+    {
+      spans: [{ text, fontSize: style.fontSize }],
+      box: { width: maxWidth, height: Infinity },
+      fontSize: style.fontSize,
+      letterSpacing: style.letterSpacing,
+      fitMode: 'wrap',
+    },
+    measure
+  ).lines.map((line) => line.text);
+
+export const createCanvasTextMeasurer = (
+  ctx: CanvasRenderingContext2D,
+  fontWeight: string | undefined,
+  fontFamily: string | undefined,
+  fontStyle?: string
+): MeasureTextWidth => (text, fontSize, span) => {
+  ctx.font = getOverlayFont(span?.fontWeight || fontWeight, fontSize, fontFamily, span?.fontStyle || fontStyle);
+  if (ctx.letterSpacing !== undefined) ctx.letterSpacing = '0px';
+  return ctx.measureText(text).width;
+};